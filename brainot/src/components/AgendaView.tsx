@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { format, addDays, subDays, eachDayOfInterval, isSameDay, isToday, startOfDay, endOfDay } from 'date-fns';
+import { MyEvent } from '../types';
+import EventCard from './EventCard';
+
+interface AgendaViewProps {
+  currentDate: Date;
+  getEventsForDate: (date: Date) => MyEvent[];
+  onEventSelect: (event: MyEvent) => void;
+  onEventDelete: (eventId: string, isNote: boolean, occurrenceStart?: Date) => void;
+  onRangeChange?: (start: Date, end: Date) => void;
+}
+
+// How many days are loaded initially and on each scroll extension
+const INITIAL_DAYS_BEFORE = 7;
+const INITIAL_DAYS_AFTER = 30;
+const EXTEND_DAYS = 30;
+// Extensions in a row that may bring no new events before loading stops, about a year
+const MAX_EMPTY_EXTENSIONS = 12;
+
+type Direction = 'before' | 'after';
+
+type AgendaRow =
+  | { kind: 'day'; date: Date; items: MyEvent[] }
+  | { kind: 'gap'; from: Date; to: Date };
+
+const AgendaView: React.FC<AgendaViewProps> = ({ currentDate, getEventsForDate, onEventSelect, onEventDelete, onRangeChange }) => {
+  const [rangeStart, setRangeStart] = useState(() => subDays(startOfDay(currentDate), INITIAL_DAYS_BEFORE));
+  const [rangeEnd, setRangeEnd] = useState(() => addDays(startOfDay(currentDate), INITIAL_DAYS_AFTER));
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const bottomSentinelRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<HTMLDivElement>(null);
+  // Scroll height before prepending days, so the viewport doesn't jump
+  const prependHeightRef = useRef<number | null>(null);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  // Per direction: extensions in a row that brought no events, and the range edge before the first of them
+  const emptyRunsRef = useRef<Record<Direction, { extensions: number; edge: Date }>>({
+    before: { extensions: 0, edge: rangeStart },
+    after: { extensions: 0, edge: rangeEnd }
+  });
+  // The direction a sentinel just extended, until its days are rendered
+  const extendingRef = useRef<Direction | null>(null);
+  const rowsRef = useRef<AgendaRow[]>([]);
+  const rangeRef = useRef({ start: rangeStart, end: rangeEnd });
+
+  // Re-center when the selected date changes from outside (e.g. navigation in another view)
+  useEffect(() => {
+    const start = subDays(startOfDay(currentDate), INITIAL_DAYS_BEFORE);
+    const end = addDays(startOfDay(currentDate), INITIAL_DAYS_AFTER);
+    setRangeStart(start);
+    setRangeEnd(end);
+    prependHeightRef.current = null;
+    emptyRunsRef.current = { before: { extensions: 0, edge: start }, after: { extensions: 0, edge: end } };
+    setTimeout(() => anchorRef.current?.scrollIntoView({ block: 'start' }), 0);
+  }, [currentDate]);
+
+  // Let the parent know which days are loaded, e.g. to expand recurring events for them
+  useEffect(() => {
+    onRangeChange?.(rangeStart, endOfDay(rangeEnd));
+  }, [rangeStart, rangeEnd]);
+
+  const rows = useMemo(() => {
+    const result: AgendaRow[] = [];
+    let gapStart: Date | null = null;
+    let gapEnd: Date | null = null;
+
+    eachDayOfInterval({ start: rangeStart, end: rangeEnd }).forEach(day => {
+      const items = getEventsForDate(day).sort((a, b) => {
+        if (!!a.allDay !== !!b.allDay) return a.allDay ? -1 : 1;
+        return a.start.getTime() - b.start.getTime();
+      });
+
+      if (items.length === 0 && !isSameDay(day, currentDate)) {
+        // Collapse runs of empty days into a single gap row
+        if (!gapStart) gapStart = day;
+        gapEnd = day;
+        return;
+      }
+
+      if (gapStart && gapEnd) {
+        result.push({ kind: 'gap', from: gapStart, to: gapEnd });
+        gapStart = null;
+        gapEnd = null;
+      }
+      result.push({ kind: 'day', date: day, items });
+    });
+
+    if (gapStart && gapEnd) {
+      result.push({ kind: 'gap', from: gapStart, to: gapEnd });
+    }
+
+    return result;
+  }, [rangeStart, rangeEnd, getEventsForDate, currentDate]);
+
+  // Infinite scroll in both directions
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root) return;
+
+    const extend = (direction: Direction) => {
+      const { start, end } = rangeRef.current;
+      const run = emptyRunsRef.current[direction];
+      // Events may arrive after the days they're on, e.g. expanded occurrences, so look at
+      // everything loaded since the run began rather than only the latest extension
+      const foundEvents = rowsRef.current.some(row => row.kind === 'day' && row.items.length > 0 &&
+        (direction === 'before' ? row.date < run.edge : row.date > run.edge));
+      if (foundEvents) {
+        emptyRunsRef.current[direction] = { extensions: 0, edge: direction === 'before' ? start : end };
+      } else if (run.extensions >= MAX_EMPTY_EXTENSIONS) {
+        return;
+      }
+      emptyRunsRef.current[direction].extensions++;
+      extendingRef.current = direction;
+      if (direction === 'before') {
+        prependHeightRef.current = root.scrollHeight;
+        setRangeStart(prev => subDays(prev, EXTEND_DAYS));
+      } else {
+        setRangeEnd(prev => addDays(prev, EXTEND_DAYS));
+      }
+    };
+
+    const observer = new IntersectionObserver((entries) => {
+      entries.forEach(entry => {
+        if (!entry.isIntersecting) return;
+        if (entry.target === topSentinelRef.current) extend('before');
+        else if (entry.target === bottomSentinelRef.current) extend('after');
+      });
+    }, { root, rootMargin: '200px 0px' });
+
+    if (topSentinelRef.current) observer.observe(topSentinelRef.current);
+    if (bottomSentinelRef.current) observer.observe(bottomSentinelRef.current);
+    observerRef.current = observer;
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  // The observer only reports changes, so a sentinel still in view after its extension (e.g. one
+  // that only added empty days) would never extend again. Observing it anew reports it once more.
+  useEffect(() => {
+    rowsRef.current = rows;
+    rangeRef.current = { start: rangeStart, end: rangeEnd };
+
+    const direction = extendingRef.current;
+    extendingRef.current = null;
+    const observer = observerRef.current;
+    const sentinel = direction === 'before' ? topSentinelRef.current : direction === 'after' ? bottomSentinelRef.current : null;
+    if (observer && sentinel) {
+      observer.unobserve(sentinel);
+      observer.observe(sentinel);
+    }
+  }, [rows]);
+
+  useLayoutEffect(() => {
+    const root = scrollRef.current;
+    if (root && prependHeightRef.current !== null) {
+      root.scrollTop += root.scrollHeight - prependHeightRef.current;
+      prependHeightRef.current = null;
+    }
+  }, [rangeStart]);
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto">
+      <div ref={topSentinelRef} className="h-px" />
+
+      {rows.map(row => {
+        if (row.kind === 'gap') {
+          return (
+            <div key={`gap-${row.from.toISOString()}`} className="px-4 py-2 text-xs text-gray-400 border-b border-gray-100 bg-gray-50">
+              {isSameDay(row.from, row.to)
+                ? `No events · ${format(row.from, 'EEE, MMM d')}`
+                : `No events · ${format(row.from, 'MMM d')} – ${format(row.to, 'MMM d')}`}
+            </div>
+          );
+        }
+
+        const isDayToday = isToday(row.date);
+        const isSelected = isSameDay(row.date, currentDate);
+
+        return (
+          <div key={row.date.toISOString()} ref={isSelected ? anchorRef : undefined}>
+            <div className={`sticky top-0 z-10 px-4 py-2 border-b border-gray-200 flex items-center justify-between ${
+              isSelected ? 'bg-primary-50' : 'bg-white'
+            }`}>
+              <h3 className={`text-sm font-semibold ${isDayToday ? 'text-primary-700' : 'text-gray-900'}`}>
+                {format(row.date, 'EEEE, MMM d')}
+              </h3>
+              {isDayToday && (
+                <span className="text-xs bg-primary-100 text-primary-700 px-2 py-0.5 rounded-full font-medium">Today</span>
+              )}
+            </div>
+            <div className="p-3 space-y-2">
+              {row.items.length === 0 ? (
+                <p className="text-sm text-gray-400">Nothing scheduled</p>
+              ) : (
+                row.items.map(item => (
+                  <EventCard
+                    key={item.id}
+                    event={item}
+                    detailed
+                    onClick={() => onEventSelect(item)}
+                    onDelete={() => onEventDelete(item.id!, !!item.resource?.isNote, item.resource?.occurrenceStart)}
+                  />
+                ))
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div ref={bottomSentinelRef} className="h-px" />
+    </div>
+  );
+};
+
+export default AgendaView;
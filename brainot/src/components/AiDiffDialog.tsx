@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { Block, RichTextDocument, blockText } from '../utils/richText';
+import { DiffHunk, DiffSegment, DocumentDiff, applyDiff, diffBlockText } from '../utils/documentDiff';
+
+interface AiDiffDialogProps {
+  title: string;
+  diff: DocumentDiff;
+  onApply: (document: RichTextDocument) => void;
+  onClose: () => void;
+}
+
+// Unchanged blocks kept visible on each side of a change
+const CONTEXT_BLOCKS = 1;
+
+// How the block would start in Markdown, so structural changes are visible in the diff
+const blockPrefix = (block: Block) => {
+  switch (block.type) {
+    case 'heading': return `${'#'.repeat(block.level || 1)} `;
+    case 'bulletItem': return '• ';
+    case 'orderedItem': return '1. ';
+    case 'checkItem': return block.checked ? '☑ ' : '☐ ';
+    case 'blockquote': return '> ';
+    default: return '';
+  }
+};
+
+const SEGMENT_CLASSES: Record<DiffSegment['change'], string> = {
+  equal: '',
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-700 line-through'
+};
+
+const AiDiffDialog: React.FC<AiDiffDialogProps> = ({ title, diff, onApply, onClose }) => {
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(diff.hunks.map(hunk => hunk.id)));
+
+  const toggleHunk = (id: number) => {
+    setAccepted(previous => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allHunks = useMemo(() => new Set(diff.hunks.map(hunk => hunk.id)), [diff]);
+
+  const renderLine = (block: Block | undefined, segments: DiffSegment[], key: string | number) => (
+    <p
+      key={key}
+      className={`text-sm text-gray-800 whitespace-pre-wrap break-words ${block?.type === 'codeBlock' ? 'font-mono text-xs' : ''}`}
+    >
+      {block && <span className="text-gray-400">{blockPrefix(block)}</span>}
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASSES[segment.change]}>{segment.text}</span>
+      ))}
+    </p>
+  );
+
+  // Removed and added blocks are paired in order, so a rewritten paragraph shows word changes
+  const renderHunk = (hunk: DiffHunk) => {
+    const isAccepted = accepted.has(hunk.id);
+    const rows = Math.max(hunk.removed.length, hunk.added.length);
+    return (
+      <div
+        key={`hunk-${hunk.id}`}
+        className={`my-2 p-3 rounded-lg border ${isAccepted ? 'border-green-300 bg-green-50/40' : 'border-gray-200 bg-gray-50'}`}
+      >
+        <div className="space-y-1">
+          {Array.from({ length: rows }, (_, index) => {
+            const before = hunk.removed[index];
+            const after = hunk.added[index];
+            // A rejected hunk previews the text that stays
+            if (!isAccepted) return before ? renderLine(before, [{ text: blockText(before), change: 'equal' }], index) : null;
+            return renderLine(after || before, diffBlockText(before, after), index);
+          })}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <span className={`text-xs font-medium ${isAccepted ? 'text-green-700' : 'text-gray-500'}`}>
+            {isAccepted ? 'Will be applied' : 'Skipped'}
+          </span>
+          <button
+            onClick={() => toggleHunk(hunk.id)}
+            className="px-2.5 py-1 text-xs font-medium rounded-lg border border-gray-300 text-gray-700 bg-white hover:bg-gray-100 transition-colors"
+          >
+            {isAccepted ? 'Reject' : 'Accept'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderUnchanged = (blocks: Block[], index: number) => {
+    const isFirst = index === 0;
+    const isLast = index === diff.parts.length - 1;
+    const head = isFirst ? [] : blocks.slice(0, CONTEXT_BLOCKS);
+    const tail = isLast ? [] : blocks.slice(Math.max(head.length, blocks.length - CONTEXT_BLOCKS));
+    const hidden = blocks.length - head.length - tail.length;
+    const asText = (block: Block, key: string) =>
+      renderLine(block, [{ text: blockText(block), change: 'equal' }], key);
+    return (
+      <div key={`equal-${index}`} className="space-y-1 opacity-60">
+        {head.map((block, offset) => asText(block, `head-${offset}`))}
+        {hidden > 0 && (
+          <p className="text-xs text-gray-400 italic">
+            {hidden} unchanged {hidden === 1 ? 'block' : 'blocks'}
+          </p>
+        )}
+        {tail.map((block, offset) => asText(block, `tail-${offset}`))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Review the suggested changes. Accept or reject each one, then apply the ones you want to keep.
+        </p>
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          {diff.parts.map((part, index) =>
+            part.kind === 'equal' ? renderUnchanged(part.blocks, index) : renderHunk(part.hunk)
+          )}
+        </div>
+
+        <div className="flex items-center justify-between pt-4 mt-2 border-t border-gray-100">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setAccepted(new Set(allHunks))}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Accept all
+            </button>
+            <button
+              onClick={() => setAccepted(new Set())}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Reject all
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => onApply(applyDiff(diff, accepted))}
+              disabled={accepted.size === 0}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+            >
+              Apply {accepted.size} of {diff.hunks.length} {diff.hunks.length === 1 ? 'change' : 'changes'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiDiffDialog;
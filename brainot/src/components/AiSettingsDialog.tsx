@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { AI_PROVIDERS, AiSettings, DEFAULT_AI_PROXY_URL, createAiProvider, getAiProviderInfo } from '../services/aiProviders';
+import { preferencesService } from '../services/preferencesService';
+
+interface AiSettingsDialogProps {
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AiSettings>(() => preferencesService.getAiSettings());
+  const [isTesting, setIsTesting] = useState(false);
+  const info = getAiProviderInfo(settings.provider);
+
+  const update = (changes: Partial<AiSettings>) => setSettings(previous => ({ ...previous, ...changes }));
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    try {
+      const reply = await createAiProvider(settings).generate('Reply with the single word OK.');
+      toast.success(`Connected: ${reply.trim().slice(0, 40)}`);
+    } catch (error) {
+      console.error('AI connection test failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Connection failed');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    preferencesService.setAiSettings(settings);
+    toast.success('AI settings saved');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">AI settings</h3>
+          <button type="button" onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Choose the model behind note AI actions and quick add. Settings are kept on this device.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div className="space-y-2">
+            {AI_PROVIDERS.map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-start space-x-3 p-3 rounded-lg border cursor-pointer ${
+                  settings.provider === provider.id ? 'border-blue-300 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  checked={settings.provider === provider.id}
+                  onChange={() => update({ provider: provider.id, model: '' })}
+                  className="mt-1 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{provider.label}</span>
+                  <span className="block text-xs text-gray-500">{provider.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.provider !== 'mock' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder={info.defaultModel || 'Backend default'}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {info.usesBaseUrl && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {settings.provider === 'proxy' ? 'Endpoint' : 'Server URL'}
+              </label>
+              <input
+                type="text"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder={settings.provider === 'proxy' ? DEFAULT_AI_PROXY_URL || 'https://your-backend.example.com/api/ai' : 'http://localhost:11434/v1'}
+                required={settings.provider === 'openai' || (settings.provider === 'proxy' && !DEFAULT_AI_PROXY_URL)}
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          {info.usesApiKey && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">API key</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder={settings.provider === 'gemini' ? 'Your Gemini API key' : 'Optional for local servers'}
+                autoComplete="off"
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-400 mt-1">Stored in this browser only.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between pt-4 mt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={handleTest}
+            disabled={isTesting}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isTesting ? 'Testing...' : 'Test connection'}
+          </button>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm font-medium rounded-lg text-gray-600 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AiSettingsDialog;
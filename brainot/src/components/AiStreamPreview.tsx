@@ -0,0 +1,46 @@
+import React, { useEffect, useRef } from 'react';
+
+interface AiStreamPreviewProps {
+  title: string;
+  text: string;        // the response so far
+  onCancel: () => void;
+}
+
+const AiStreamPreview: React.FC<AiStreamPreviewProps> = ({ title, text, onCancel }) => {
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Follow the text as it arrives
+  useEffect(() => {
+    if (outputRef.current) outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [text]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-4 h-4 border-2 border-purple-500 border-t-transparent rounded-full animate-spin" />
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        </div>
+
+        <div ref={outputRef} className="flex-1 min-h-[8rem] overflow-y-auto p-3 rounded-lg bg-gray-50 border border-gray-200">
+          {text ? (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{text}</p>
+          ) : (
+            <p className="text-sm text-gray-400 italic">Waiting for the response...</p>
+          )}
+        </div>
+
+        <div className="flex justify-end pt-4">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiStreamPreview;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { CalendarFeed, UserCalendar } from '../types';
+
+interface CalendarListProps {
+  calendars: UserCalendar[];
+  feeds: CalendarFeed[];
+  onToggleCalendar: (calendar: UserCalendar) => void;
+  onToggleFeed: (feed: CalendarFeed) => void;
+  onManage: () => void;
+}
+
+// Sidebar list of the user's calendars and subscribed feeds with visibility toggles
+const CalendarList: React.FC<CalendarListProps> = ({ calendars, feeds, onToggleCalendar, onToggleFeed, onManage }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const renderItem = (key: string, name: string, color: string, visible: boolean, onToggle: () => void, hint?: string) => (
+    <label key={key} className="flex items-center space-x-2 px-2 py-1 rounded hover:bg-gray-50 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={visible}
+        onChange={onToggle}
+        className="rounded focus:ring-blue-500"
+        style={{ accentColor: color }}
+      />
+      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+      <span className={`text-sm truncate ${visible ? 'text-gray-800' : 'text-gray-400'}`}>{name}</span>
+      {hint && <span className="text-xs text-gray-400 flex-shrink-0">{hint}</span>}
+    </label>
+  );
+
+  return (
+    <div className="border-t border-gray-200 bg-white">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-xs font-semibold uppercase tracking-wide text-gray-500 hover:text-gray-700"
+        >
+          {isExpanded ? '▾' : '▸'} Calendars
+        </button>
+        <button onClick={onManage} className="text-xs text-blue-600 hover:text-blue-800">
+          Manage
+        </button>
+      </div>
+      {isExpanded && (
+        <div className="px-2 pb-2 max-h-40 overflow-y-auto">
+          {calendars.map(calendar =>
+            renderItem(calendar.id, calendar.name, calendar.color, calendar.visible, () => onToggleCalendar(calendar))
+          )}
+          {feeds.map(feed =>
+            renderItem(`feed:${feed.id}`, feed.name, feed.color, feed.visible, () => onToggleFeed(feed), 'feed')
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarList;
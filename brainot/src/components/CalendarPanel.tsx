@@ -1,7 +1,10 @@
-import React, { useState, useMemo } from 'react';
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, addMonths, subMonths, startOfWeek, endOfWeek, addDays, subDays } from 'date-fns';
-import { MyEvent, ViewType } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, addMonths, subMonths, startOfWeek, endOfWeek, addDays, subDays, addWeeks, subWeeks, addMinutes, startOfDay, endOfDay, differenceInCalendarDays } from 'date-fns';
+import { MyEvent, SelectedSlot, ViewType } from '../types';
 import EventCard from './EventCard';
+import AgendaView from './AgendaView';
+import { layoutTimedEvents } from '../utils/eventLayout';
+import { expandRecurringEvents } from '../utils/recurrence';
 
 interface CalendarPanelProps {
   events: MyEvent[];
@@ -9,11 +12,84 @@ interface CalendarPanelProps {
   view: ViewType;
   onDateChange: (date: Date) => void;
   onEventSelect: (event: MyEvent) => void;
-  onSlotSelect: (date: Date) => void;
-  onEventDelete: (eventId: string, isNote: boolean) => void;
+  onSlotSelect: (slot: SelectedSlot) => void;
+  onEventDelete: (eventId: string, isNote: boolean, occurrenceStart?: Date) => void;
+  onEventReschedule: (event: MyEvent, start: Date, end: Date) => void;
   onViewChange: (view: ViewType) => void;
 }
 
+const HOUR_HEIGHT = 64; // px per hour row in the day and week timelines
+
+const SNAP_MINUTES = 15;
+const MIN_EVENT_DURATION = 30 * 60 * 1000; // matches the minimum rendered block height
+
+interface TimelineDrag {
+  event: MyEvent;
+  mode: 'move' | 'resize';
+  originY: number;
+  deltaMinutes: number;
+  moved: boolean;
+}
+
+// Round a date to the nearest SNAP_MINUTES boundary within its day
+const snapToGrid = (date: Date) => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return addMinutes(startOfDay(date), Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES);
+};
+
+const getDraggedTimes = (drag: TimelineDrag) => {
+  const { event, mode, deltaMinutes } = drag;
+  const duration = event.end.getTime() - event.start.getTime();
+
+  if (mode === 'move') {
+    const dayStart = startOfDay(event.start);
+    let start = snapToGrid(addMinutes(event.start, deltaMinutes));
+    // Keep the event within its original day
+    if (start < dayStart) start = dayStart;
+    const latestStart = new Date(addMinutes(dayStart, 24 * 60).getTime() - duration);
+    if (start > latestStart) start = latestStart > dayStart ? latestStart : dayStart;
+    return { start, end: new Date(start.getTime() + duration) };
+  }
+
+  let end = snapToGrid(addMinutes(event.end, deltaMinutes));
+  const minEnd = addMinutes(event.start, SNAP_MINUTES);
+  if (end < minEnd) end = minEnd;
+  return { start: event.start, end };
+};
+
+interface SlotDrag {
+  anchorMinutes: number;
+  currentMinutes: number;
+  moved: boolean;
+}
+
+// Minutes-of-day range covered by a slot selection, snapped to SNAP_MINUTES
+const getSlotRange = (drag: SlotDrag) => {
+  if (!drag.moved) {
+    // A plain click selects a one hour slot
+    const from = Math.min(drag.anchorMinutes, 23 * 60);
+    return { from, to: from + 60 };
+  }
+  const from = Math.min(drag.anchorMinutes, drag.currentMinutes);
+  const to = Math.max(drag.anchorMinutes, drag.currentMinutes) + SNAP_MINUTES;
+  return { from, to: Math.min(to, 24 * 60) };
+};
+
+const priorityColors = {
+  high: 'bg-red-100 border-red-500 text-red-900 hover:bg-red-200',
+  medium: 'bg-blue-100 border-blue-500 text-blue-900 hover:bg-blue-200',
+  low: 'bg-green-100 border-green-500 text-green-900 hover:bg-green-200'
+};
+
+// Events from subscribed feeds are read-only
+const isFeedEvent = (event: MyEvent) => !!event.resource?.feedId;
+
+// Events of a calendar or feed are drawn in its color; notes keep their fixed style
+const colorBlockStyle = (event: MyEvent): React.CSSProperties | undefined =>
+  event.resource?.color
+    ? { backgroundColor: `${event.resource.color}26`, borderColor: event.resource.color, color: '#1f2937' }
+    : undefined;
+
 const CalendarPanel: React.FC<CalendarPanelProps> = ({
   events,
   currentDate,
@@ -22,8 +98,130 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
   onEventSelect,
   onSlotSelect,
   onEventDelete,
+  onEventReschedule,
   onViewChange
 }) => {
+  const [timelineDrag, setTimelineDrag] = useState<TimelineDrag | null>(null);
+  const timelineDragRef = useRef<TimelineDrag | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dropTargetDay, setDropTargetDay] = useState<Date | null>(null);
+  const [agendaRange, setAgendaRange] = useState<{ start: Date; end: Date } | null>(null);
+  const [slotDrag, setSlotDrag] = useState<SlotDrag | null>(null);
+  const slotDragRef = useRef<SlotDrag | null>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  const updateTimelineDrag = (drag: TimelineDrag | null) => {
+    timelineDragRef.current = drag;
+    setTimelineDrag(drag);
+  };
+
+  // Track pointer movement on the window while an event is being dragged in the timeline
+  useEffect(() => {
+    if (!timelineDrag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const drag = timelineDragRef.current;
+      if (!drag) return;
+      const dy = e.clientY - drag.originY;
+      updateTimelineDrag({
+        ...drag,
+        deltaMinutes: (dy / HOUR_HEIGHT) * 60,
+        moved: drag.moved || Math.abs(dy) > 3
+      });
+    };
+
+    const handlePointerUp = () => {
+      const drag = timelineDragRef.current;
+      updateTimelineDrag(null);
+      if (!drag || !drag.moved) return;
+
+      // The pointerup is followed by a click on the event block; don't open the editor
+      suppressClickRef.current = true;
+      const { start, end } = getDraggedTimes(drag);
+      if (start.getTime() !== drag.event.start.getTime() || end.getTime() !== drag.event.end.getTime()) {
+        onEventReschedule(drag.event, start, end);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [timelineDrag !== null, onEventReschedule]);
+
+  const updateSlotDrag = (drag: SlotDrag | null) => {
+    slotDragRef.current = drag;
+    setSlotDrag(drag);
+  };
+
+  // Minutes since midnight under the pointer in the day timeline, floored to the snap grid
+  const getTimelineMinutes = (clientY: number) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    const minutes = ((clientY - rect.top) / HOUR_HEIGHT) * 60;
+    const snapped = Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.max(0, Math.min(snapped, 24 * 60 - SNAP_MINUTES));
+  };
+
+  // Track pointer movement while a time range is being selected on empty rows
+  useEffect(() => {
+    if (!slotDrag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const drag = slotDragRef.current;
+      if (!drag) return;
+      const currentMinutes = getTimelineMinutes(e.clientY);
+      if (currentMinutes === drag.currentMinutes) return;
+      updateSlotDrag({ ...drag, currentMinutes, moved: true });
+    };
+
+    const handlePointerUp = () => {
+      const drag = slotDragRef.current;
+      updateSlotDrag(null);
+      if (!drag) return;
+
+      const { from, to } = getSlotRange(drag);
+      const dayStart = startOfDay(currentDate);
+      onSlotSelect({ start: addMinutes(dayStart, from), end: addMinutes(dayStart, to) });
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [slotDrag !== null, currentDate, onSlotSelect]);
+
+  const startSlotDrag = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const minutes = getTimelineMinutes(e.clientY);
+    updateSlotDrag({ anchorMinutes: minutes, currentMinutes: minutes, moved: false });
+  };
+
+  const startTimelineDrag = (e: React.PointerEvent, event: MyEvent, mode: TimelineDrag['mode']) => {
+    // Occurrences of recurring events are edited through the editor's scope dialog instead
+    if (e.button !== 0 || event.resource?.recurrence || isFeedEvent(event)) return;
+    e.stopPropagation();
+    suppressClickRef.current = false;
+    updateTimelineDrag({ event, mode, originY: e.clientY, deltaMinutes: 0, moved: false });
+  };
+
+  const handleMonthDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDropTargetDay(null);
+    const eventId = e.dataTransfer.getData('text/plain');
+    const event = events.find(ev => ev.id === eventId && !ev.resource?.isNote && !ev.resource?.recurrence && !isFeedEvent(ev));
+    if (!event) return;
+
+    const dayShift = differenceInCalendarDays(day, event.start);
+    if (dayShift === 0) return;
+    onEventReschedule(event, addDays(event.start, dayShift), addDays(event.end, dayShift));
+  };
+
   const navigateMonth = (direction: 'prev' | 'next') => {
     const newDate = direction === 'prev' ? subMonths(currentDate, 1) : addMonths(currentDate, 1);
     onDateChange(newDate);
@@ -34,8 +232,39 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
     onDateChange(newDate);
   };
 
-  const getEventsForDate = (date: Date) => {
-    return events.filter(event => {
+  const navigateWeek = (direction: 'prev' | 'next') => {
+    const newDate = direction === 'prev' ? subWeeks(currentDate, 1) : addWeeks(currentDate, 1);
+    onDateChange(newDate);
+  };
+
+  const monthDays = useMemo(() => {
+    const start = startOfWeek(startOfMonth(currentDate));
+    const end = endOfWeek(endOfMonth(currentDate));
+    return eachDayOfInterval({ start, end });
+  }, [currentDate]);
+
+  const weekDays = useMemo(() => {
+    return eachDayOfInterval({ start: startOfWeek(currentDate), end: endOfWeek(currentDate) });
+  }, [currentDate]);
+
+  // Recurring events are expanded into occurrences for the range the current view shows
+  const expandedEvents = useMemo(() => {
+    let range: { start: Date; end: Date };
+    if (view === 'month') {
+      range = { start: monthDays[0], end: endOfDay(monthDays[monthDays.length - 1]) };
+    } else if (view === 'week') {
+      range = { start: weekDays[0], end: endOfDay(weekDays[weekDays.length - 1]) };
+    } else if (view === 'agenda' && agendaRange) {
+      range = agendaRange;
+    } else {
+      range = { start: startOfDay(currentDate), end: endOfDay(currentDate) };
+    }
+    return expandRecurringEvents(events, range.start, range.end);
+  }, [events, view, currentDate, monthDays, weekDays, agendaRange]);
+
+  // Memoized so the agenda only regroups its days when the events change
+  const getEventsForDate = useMemo(() => (date: Date) => {
+    return expandedEvents.filter(event => {
       if (event.allDay) {
         // For all-day events, check if the date falls within the event's date range
         const eventStart = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate());
@@ -47,17 +276,11 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
         return isSameDay(event.start, date);
       }
     });
-  };
-
-  const monthDays = useMemo(() => {
-    const start = startOfWeek(startOfMonth(currentDate));
-    const end = endOfWeek(endOfMonth(currentDate));
-    return eachDayOfInterval({ start, end });
-  }, [currentDate]);
+  }, [expandedEvents]);
 
   const selectedDateEvents = useMemo(() => {
     return getEventsForDate(currentDate);
-  }, [events, currentDate]);
+  }, [expandedEvents, currentDate]);
 
   const handleDateClick = (date: Date) => {
     onDateChange(date);
@@ -88,12 +311,21 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
             <button
               key={day.toISOString()}
               onClick={() => handleDateClick(day)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (!dropTargetDay || !isSameDay(dropTargetDay, day)) setDropTargetDay(day);
+              }}
+              onDragLeave={() => setDropTargetDay(null)}
+              onDrop={(e) => handleMonthDrop(e, day)}
               className={`h-20 p-2 border border-gray-100 rounded-lg cursor-pointer transition-all duration-200 flex flex-col ${
                 isCurrentMonth ? 'bg-white hover:bg-gray-50' : 'bg-gray-50 text-gray-400'
               } ${
                 isSelected ? 'ring-2 ring-primary-500 bg-primary-50' : ''
               } ${
                 isDayToday ? 'border-primary-300' : ''
+              } ${
+                dropTargetDay && isSameDay(dropTargetDay, day) ? 'ring-2 ring-primary-300' : ''
               }`}
             >
               <div className={`text-sm font-medium mb-1 ${
@@ -118,7 +350,17 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                     return (
                       <div
                         key={event.id}
-                        className={`w-2 h-2 rounded-full ${dotColor}`}
+                        draggable={!isNote && !event.resource?.recurrence && !isFeedEvent(event)}
+                        onDragStart={(e) => {
+                          e.stopPropagation();
+                          e.dataTransfer.setData('text/plain', event.id!);
+                          e.dataTransfer.effectAllowed = 'move';
+                        }}
+                        onDragEnd={() => setDropTargetDay(null)}
+                        className={`w-2 h-2 rounded-full ${event.resource?.color ? '' : dotColor} ${
+                          isNote || event.resource?.recurrence || isFeedEvent(event) ? '' : 'cursor-move'
+                        }`}
+                        style={event.resource?.color ? { backgroundColor: event.resource.color } : undefined}
                         title={event.title}
                       />
                     );
@@ -155,7 +397,7 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
             )}
           </div>
           <button
-            onClick={() => onSlotSelect(currentDate)}
+            onClick={() => onSlotSelect({ start: currentDate })}
             className="w-full p-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-primary-300 hover:text-primary-600 transition-colors duration-200 flex items-center justify-center space-x-2"
           >
             <span className="text-sm font-medium">+ Add event or note</span>
@@ -200,14 +442,17 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                       
                       return (
                         <div key={event.id} className="group relative">
-                          <div className={`${priorityConfig.bg} ${priorityConfig.text} ${priorityConfig.hover} rounded-md px-3 py-2 text-sm font-medium transition-colors duration-200 flex items-center justify-between`}>
+                          <div
+                            className={`${event.resource?.color ? 'text-white hover:opacity-90' : `${priorityConfig.bg} ${priorityConfig.text} ${priorityConfig.hover}`} rounded-md px-3 py-2 text-sm font-medium transition-colors duration-200 flex items-center justify-between`}
+                            style={event.resource?.color ? { backgroundColor: event.resource.color } : undefined}
+                          >
                             <div 
                               className="flex-1 cursor-pointer select-none"
                               onClick={() => onEventSelect(event)}
                             >
                               {event.title}
                             </div>
-                            <div className="relative">
+                            {!isFeedEvent(event) && <div className="relative">
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -239,7 +484,7 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
-                                    onEventDelete(event.id!, false);
+                                    onEventDelete(event.id!, false, event.resource?.occurrenceStart);
                                     (e.currentTarget.parentElement as HTMLElement).classList.add('hidden');
                                   }}
                                   className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50 transition-colors"
@@ -250,7 +495,7 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                                   Delete
                                 </button>
                               </div>
-                            </div>
+                            </div>}
                           </div>
                         </div>
                       );
@@ -260,59 +505,79 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
               </div>
             )}
             
-            <div className="relative overflow-hidden">
+            <div ref={timelineRef} className="relative overflow-hidden">
+              {slotDrag && (() => {
+                const { from, to } = getSlotRange(slotDrag);
+                const dayStart = startOfDay(currentDate);
+                return (
+                  <div
+                    className="absolute rounded bg-primary-50 border-2 border-dashed border-primary-500 text-primary-700 text-xs font-medium px-2 py-1 pointer-events-none z-20"
+                    style={{
+                      top: `${(from / 60) * HOUR_HEIGHT}px`,
+                      height: `${((to - from) / 60) * HOUR_HEIGHT}px`,
+                      left: '68px',
+                      width: 'calc(100% - 76px)'
+                    }}
+                  >
+                    {format(addMinutes(dayStart, from), 'HH:mm')} - {format(addMinutes(dayStart, to), 'HH:mm')}
+                  </div>
+                );
+              })()}
               {(() => {
                 const timedEvents = dayEvents.filter(e => !e.allDay);
+                const layouts = layoutTimedEvents(timedEvents, { minDuration: MIN_EVENT_DURATION });
                 
-                return timedEvents.map((event, index) => {
-                  const startHour = event.start.getHours();
-                  const startMinute = event.start.getMinutes();
-                  const endHour = event.end.getHours();
-                  const endMinute = event.end.getMinutes();
+                return layouts.map(({ event, column, columns, span }, index) => {
+                  const isDragging = timelineDrag?.event.id === event.id;
+                  const { start: displayStart, end: displayEnd } = isDragging ? getDraggedTimes(timelineDrag!) : event;
+                  const startHour = displayStart.getHours();
+                  const startMinute = displayStart.getMinutes();
+                  const endHour = displayEnd.getHours();
+                  const endMinute = displayEnd.getMinutes();
                   
-                  const topPosition = startHour * 64 + (startMinute / 60) * 64;
-                  const endPosition = endHour * 64 + (endMinute / 60) * 64;
+                  const topPosition = startHour * HOUR_HEIGHT + (startMinute / 60) * HOUR_HEIGHT;
+                  const endPosition = endHour * HOUR_HEIGHT + (endMinute / 60) * HOUR_HEIGHT;
                   const height = Math.max(endPosition - topPosition, 32);
                   
-                  // Stack overlapping events with left border offset
-                  const overlappingEvents = timedEvents.filter((other, otherIndex) => {
-                    if (index === otherIndex) return false;
-                    return event.start < other.end && event.end > other.start;
-                  });
-                  
-                  const overlapIndex = overlappingEvents.filter((_, i) => i < index).length;
-                  
-                  const width = 'calc(100% - 76px)';
-                  const leftOffset = `${68 + (overlapIndex * 8)}px`; // 8px offset for each overlap
+                  // Overlapping events share the area right of the hour labels in side-by-side columns
+                  const width = `calc((100% - 76px) * ${span / columns} - 2px)`;
+                  const leftOffset = `calc(68px + (100% - 76px) * ${column / columns})`;
                   
                   const priority = event.resource?.priority || 'medium';
-                  const priorityColors = {
-                    high: 'bg-red-100 border-red-500 text-red-900 hover:bg-red-200',
-                    medium: 'bg-blue-100 border-blue-500 text-blue-900 hover:bg-blue-200', 
-                    low: 'bg-green-100 border-green-500 text-green-900 hover:bg-green-200'
-                  };
                   
                   return (
                     <div
                       key={event.id}
-                      className={`absolute border-l-4 rounded p-2 cursor-pointer transition-colors z-10 group ${priorityColors[priority]}`}
+                      className={`absolute border-l-4 rounded p-2 cursor-pointer transition-colors z-10 group select-none touch-none ${
+                        event.resource?.color ? '' : priorityColors[priority]
+                      } ${
+                        isDragging ? 'shadow-lg opacity-90' : ''
+                      }`}
                       style={{ 
                         top: `${topPosition}px`, 
                         height: `${height}px`,
                         left: leftOffset,
                         width: width,
-                        zIndex: 10 + index
+                        zIndex: isDragging ? 100 : 10 + index,
+                        ...colorBlockStyle(event)
+                      }}
+                      onPointerDown={(e) => startTimelineDrag(e, event, 'move')}
+                      onClick={() => {
+                        if (suppressClickRef.current) {
+                          suppressClickRef.current = false;
+                          return;
+                        }
+                        onEventSelect(event);
                       }}
-                      onClick={() => onEventSelect(event)}
                     >
                     <div className="flex justify-between items-start">
                       <div className="flex-1 min-w-0">
                         <div className="text-sm font-medium truncate">{event.title}</div>
                         <div className="text-xs opacity-75">
-                          {format(event.start, 'HH:mm')} - {format(event.end, 'HH:mm')}
+                          {format(displayStart, 'HH:mm')} - {format(displayEnd, 'HH:mm')}
                         </div>
                       </div>
-                      <div className="relative ml-2">
+                      {!isFeedEvent(event) && <div className="relative ml-2" onPointerDown={(e) => e.stopPropagation()}>
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -339,7 +604,7 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              onEventDelete(event.id!, false);
+                              onEventDelete(event.id!, false, event.resource?.occurrenceStart);
                               (e.currentTarget.parentElement as HTMLElement).classList.add('hidden');
                             }}
                             className="w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
@@ -347,8 +612,15 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                             Delete
                           </button>
                         </div>
-                      </div>
+                      </div>}
                     </div>
+                    {/* Resize handle */}
+                    {!isFeedEvent(event) && (
+                      <div
+                        className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize"
+                        onPointerDown={(e) => startTimelineDrag(e, event, 'resize')}
+                      />
+                    )}
                   </div>
                 );
               });
@@ -359,7 +631,10 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
                   <div className="w-16 flex-shrink-0 p-2 text-right border-r border-gray-200">
                     <span className="text-xs text-gray-500">{String(hour).padStart(2, '0')}:00</span>
                   </div>
-                  <div className="flex-1 relative">
+                  <div
+                    className="flex-1 relative cursor-cell select-none touch-none"
+                    onPointerDown={startSlotDrag}
+                  >
                   </div>
                 </div>
               ))}
@@ -370,6 +645,152 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
     );
   };
 
+  const renderWeekView = () => {
+    const hours = Array.from({ length: 24 }, (_, i) => i);
+    const weekStart = weekDays[0];
+    const weekEnd = weekDays[weekDays.length - 1];
+    const hasAllDayItems = weekDays.some(day => getEventsForDate(day).some(e => e.allDay || e.resource?.isNote));
+
+    return (
+      <div className="flex flex-col h-full">
+        <div className="p-4 border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <button onClick={() => navigateWeek('prev')} className="p-1 rounded hover:bg-gray-200">←</button>
+              <h2 className="text-lg font-semibold text-gray-900">
+                {isSameMonth(weekStart, weekEnd)
+                  ? `${format(weekStart, 'MMM d')} – ${format(weekEnd, 'd, yyyy')}`
+                  : `${format(weekStart, 'MMM d')} – ${format(weekEnd, 'MMM d, yyyy')}`}
+              </h2>
+              <button onClick={() => navigateWeek('next')} className="p-1 rounded hover:bg-gray-200">→</button>
+            </div>
+            <button
+              onClick={() => onDateChange(new Date())}
+              className="text-xs bg-primary-100 text-primary-700 px-2 py-1 rounded-full font-medium hover:bg-primary-50"
+            >
+              Today
+            </button>
+          </div>
+        </div>
+
+        {/* Day headers */}
+        <div className="flex border-b border-gray-200 bg-white">
+          <div className="w-16 flex-shrink-0 border-r border-gray-200" />
+          {weekDays.map(day => {
+            const isDayToday = isToday(day);
+            return (
+              <button
+                key={day.toISOString()}
+                onClick={() => onSlotSelect({ start: day })}
+                className={`flex-1 min-w-0 py-2 text-center border-r border-gray-100 hover:bg-gray-50 transition-colors ${
+                  isSameDay(day, currentDate) ? 'bg-primary-50' : ''
+                }`}
+                title="Add event or note"
+              >
+                <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">{format(day, 'EEE')}</div>
+                <div className={`text-sm font-semibold ${isDayToday ? 'text-primary-600' : 'text-gray-900'}`}>
+                  {format(day, 'd')}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {/* All-day strip */}
+        {hasAllDayItems && (
+          <div className="flex border-b border-gray-200 bg-gradient-to-r from-gray-50 to-white relative z-20">
+            <div className="w-16 flex-shrink-0 p-2 text-right border-r border-gray-200">
+              <span className="text-xs text-gray-500">All day</span>
+            </div>
+            {weekDays.map(day => (
+              <div key={day.toISOString()} className="flex-1 min-w-0 p-1 space-y-1 border-r border-gray-100">
+                {getEventsForDate(day)
+                  .filter(e => e.allDay || e.resource?.isNote)
+                  .map(event => (
+                    <EventCard
+                      key={event.id}
+                      event={event}
+                      compact
+                      onClick={() => onEventSelect(event)}
+                      onDelete={() => onEventDelete(event.id!, !!event.resource?.isNote, event.resource?.occurrenceStart)}
+                    />
+                  ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto relative z-0">
+          <div className="flex relative">
+            <div className="w-16 flex-shrink-0 border-r border-gray-200">
+              {hours.map(hour => (
+                <div key={hour} className="h-16 p-2 text-right border-b border-gray-100">
+                  <span className="text-xs text-gray-500">{String(hour).padStart(2, '0')}:00</span>
+                </div>
+              ))}
+            </div>
+
+            {weekDays.map(day => {
+              const timedEvents = getEventsForDate(day).filter(e => !e.allDay && !e.resource?.isNote);
+              const layouts = layoutTimedEvents(timedEvents, { minDuration: MIN_EVENT_DURATION });
+
+              return (
+                <div key={day.toISOString()} className="flex-1 min-w-0 relative border-r border-gray-100">
+                  {hours.map(hour => (
+                    <div key={hour} className="h-16 border-b border-gray-100" />
+                  ))}
+
+                  {layouts.map(({ event, column, columns, span }, index) => {
+                    const topPosition = event.start.getHours() * HOUR_HEIGHT + (event.start.getMinutes() / 60) * HOUR_HEIGHT;
+                    const endPosition = isSameDay(event.start, event.end)
+                      ? event.end.getHours() * HOUR_HEIGHT + (event.end.getMinutes() / 60) * HOUR_HEIGHT
+                      : 24 * HOUR_HEIGHT;
+                    const height = Math.max(endPosition - topPosition, 24);
+                    const priority = event.resource?.priority || 'medium';
+
+                    return (
+                      <div
+                        key={event.id}
+                        className={`absolute border-l-4 rounded px-1 py-0.5 cursor-pointer transition-colors overflow-hidden group ${
+                          event.resource?.color ? '' : priorityColors[priority]
+                        }`}
+                        style={{
+                          top: `${topPosition}px`,
+                          height: `${height}px`,
+                          left: `calc(${(column / columns) * 100}% + 1px)`,
+                          width: `calc(${(span / columns) * 100}% - 2px)`,
+                          zIndex: 10 + index,
+                          ...colorBlockStyle(event)
+                        }}
+                        onClick={() => onEventSelect(event)}
+                        title={`${event.title} (${format(event.start, 'HH:mm')} - ${format(event.end, 'HH:mm')})`}
+                      >
+                        <div className="flex justify-between items-start">
+                          <div className="text-xs font-medium truncate flex-1 min-w-0">{event.title}</div>
+                          {!isFeedEvent(event) && <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onEventDelete(event.id!, false, event.resource?.occurrenceStart);
+                            }}
+                            className="opacity-0 group-hover:opacity-100 ml-1 text-xs leading-none rounded hover:bg-black hover:bg-opacity-10 transition-opacity"
+                            title="Delete"
+                          >
+                            ×
+                          </button>}
+                        </div>
+                        <div className="text-[10px] opacity-75 truncate">{format(event.start, 'HH:mm')}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const getNavigationHandler = () => {
     return view === 'month' ? navigateMonth : navigateDay;
   };
@@ -394,6 +815,16 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
           >
             Day
           </button>
+          <button
+            onClick={() => onViewChange('week')}
+            className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              view === 'week'
+                ? 'bg-primary-100 text-primary-700'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            Week
+          </button>
           <button
             onClick={() => onViewChange('month')}
             className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
@@ -404,6 +835,16 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
           >
             Month
           </button>
+          <button
+            onClick={() => onViewChange('agenda')}
+            className={`flex-1 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
+              view === 'agenda'
+                ? 'bg-primary-100 text-primary-700'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            Agenda
+          </button>
         </div>
       </div>
       
@@ -430,7 +871,18 @@ const CalendarPanel: React.FC<CalendarPanelProps> = ({
       )}
       
       <div className="flex-1 overflow-hidden">
-        {view === 'month' ? renderMonthView() : renderDayView()}
+        {view === 'month' ? renderMonthView()
+          : view === 'week' ? renderWeekView()
+          : view === 'agenda' ? (
+            <AgendaView
+              currentDate={currentDate}
+              getEventsForDate={getEventsForDate}
+              onEventSelect={onEventSelect}
+              onEventDelete={onEventDelete}
+              onRangeChange={(start, end) => setAgendaRange({ start, end })}
+            />
+          )
+          : renderDayView()}
       </div>
     </div>
   );
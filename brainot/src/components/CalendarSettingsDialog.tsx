@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { UserCalendar } from '../types';
+import { CALENDAR_COLORS, DEFAULT_CALENDAR_ID } from '../services/calendarService';
+
+type CalendarChanges = Partial<Omit<UserCalendar, 'id'>>;
+
+interface CalendarSettingsDialogProps {
+  calendars: UserCalendar[];
+  onCreate: (calendar: Omit<UserCalendar, 'id'>) => Promise<void>;
+  onUpdate: (calendar: UserCalendar, changes: CalendarChanges) => void;
+  onDelete: (calendar: UserCalendar) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const CalendarSettingsDialog: React.FC<CalendarSettingsDialogProps> = ({ calendars, onCreate, onUpdate, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CALENDAR_COLORS[calendars.length % CALENDAR_COLORS.length]);
+  const [googleCalendarId, setGoogleCalendarId] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate({
+        name: name.trim(),
+        color,
+        visible: true,
+        ...(googleCalendarId.trim() && { googleCalendarId: googleCalendarId.trim() })
+      });
+      setName('');
+      setGoogleCalendarId('');
+      setColor(CALENDAR_COLORS[(calendars.length + 1) % CALENDAR_COLORS.length]);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Text fields are saved when they lose focus, and only if they changed
+  const handleTextChange = (calendar: UserCalendar, field: 'name' | 'googleCalendarId', value: string) => {
+    const trimmed = value.trim();
+    if (field === 'name' && !trimmed) return;
+    if (trimmed === (calendar[field] || '')) return;
+    onUpdate(calendar, { [field]: trimmed || undefined });
+  };
+
+  const renderColorPicker = (selected: string, onChange: (color: string) => void) => (
+    <div className="flex space-x-1">
+      {CALENDAR_COLORS.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={`w-5 h-5 rounded-full border-2 ${selected === option ? 'border-gray-900' : 'border-transparent'}`}
+          style={{ backgroundColor: option }}
+          title={option}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Calendars</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Every event belongs to one calendar. Set a Google calendar ID to sync a calendar's events
+          there instead of your primary Google calendar.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {calendars.map(calendar => (
+            <div key={calendar.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={calendar.visible}
+                  onChange={(e) => onUpdate(calendar, { visible: e.target.checked })}
+                  className="rounded focus:ring-blue-500"
+                  style={{ accentColor: calendar.color }}
+                  title="Show in calendar"
+                />
+                <input
+                  type="text"
+                  defaultValue={calendar.name}
+                  onBlur={(e) => handleTextChange(calendar, 'name', e.target.value)}
+                  className={`${inputClassName} font-medium`}
+                />
+                {calendar.id !== DEFAULT_CALENDAR_ID && (
+                  <button
+                    onClick={() => onDelete(calendar)}
+                    className="text-xs text-red-600 hover:text-red-800 flex-shrink-0"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              <input
+                type="text"
+                defaultValue={calendar.googleCalendarId || ''}
+                onBlur={(e) => handleTextChange(calendar, 'googleCalendarId', e.target.value)}
+                placeholder="Google calendar ID (primary if empty)"
+                className={inputClassName}
+              />
+              {renderColorPicker(calendar.color, color => onUpdate(calendar, { color }))}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-2 mt-4 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-700">New calendar</h4>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Work"
+            required
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={googleCalendarId}
+            onChange={(e) => setGoogleCalendarId(e.target.value)}
+            placeholder="Google calendar ID (optional)"
+            className={inputClassName}
+          />
+          <div className="flex items-center justify-between">
+            {renderColorPicker(color, setColor)}
+            <button
+              type="submit"
+              disabled={isCreating || !name.trim()}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isCreating ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSettingsDialog;
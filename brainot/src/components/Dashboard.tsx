@@ -1,11 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { collection, onSnapshot, doc, deleteDoc } from 'firebase/firestore';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { collection, onSnapshot, doc, addDoc, deleteDoc, updateDoc, Timestamp } from 'firebase/firestore';
 import { db } from '../firebase';
-import { MyEvent, User, ViewType } from '../types';
+import { AiPromptTemplate, CalendarFeed, MyEvent, SelectedSlot, SyncConflict, User, UserCalendar, ViewType } from '../types';
 import { googleCalendarService } from '../services/googleCalendarService';
+import { reminderService } from '../services/reminderService';
+import { syncOutboxService } from '../services/syncOutboxService';
+import { icsService, IcsExportOptions } from '../services/icsService';
+import { feedService } from '../services/feedService';
+import { calendarService, calendarIdOf } from '../services/calendarService';
+import { promptTemplateService } from '../services/promptTemplateService';
+import { googleSyncService, snapshotFromFirestore, eventFromFirestore, isStoredEvent } from '../services/googleSyncService';
 import Header from './Header';
 import CalendarPanel from './CalendarPanel';
 import EditorPanel from './EditorPanel';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import SyncConflictsDialog from './SyncConflictsDialog';
+import IcsDialog from './IcsDialog';
+import FeedSettingsDialog from './FeedSettingsDialog';
+import AiSettingsDialog from './AiSettingsDialog';
+import PromptTemplatesDialog from './PromptTemplatesDialog';
+import CalendarSettingsDialog from './CalendarSettingsDialog';
+import CalendarList from './CalendarList';
+import QuickAddBar from './QuickAddBar';
+import { RecurrenceScope, parseRecurrence, formatRecurrence, excludeOccurrence, endSeriesBefore } from '../utils/recurrence';
+import { QuickAddEvent } from '../utils/dateDetection';
+import { emptyDocument, htmlToDocument, documentToHtml } from '../utils/richText';
+import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 interface DashboardProps {
@@ -17,8 +37,21 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   const [currentView, setCurrentView] = useState<ViewType>('day');
   const [events, setEvents] = useState<MyEvent[]>([]);
   const [selectedEvent, setSelectedEvent] = useState<MyEvent | null>(null);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<SelectedSlot | null>(null);
   const [isMobileEditorOpen, setIsMobileEditorOpen] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [showIcsDialog, setShowIcsDialog] = useState(false);
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [showFeedSettings, setShowFeedSettings] = useState(false);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<AiPromptTemplate[]>([]);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const [calendars, setCalendars] = useState<UserCalendar[]>(calendarService.getCalendars());
+  const [showCalendarSettings, setShowCalendarSettings] = useState(false);
+  const [showQuickAdd, setShowQuickAdd] = useState(false);
+  const feedsRef = useRef<CalendarFeed[]>([]);
+  const [pendingOccurrenceDelete, setPendingOccurrenceDelete] = useState<{ event: MyEvent; occurrenceStart: Date } | null>(null);
 
   useEffect(() => {
     if (!user) return;
@@ -26,28 +59,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     const eventsCollection = collection(db, 'users', user.uid, 'events');
     const notesCollection = collection(db, 'users', user.uid, 'notes');
 
+    // Notes from before the structured editor only have HTML; they get a document once
+    const migrateNoteContent = (noteId: string, html: string) => {
+      const noteDocument = htmlToDocument(html);
+      updateDoc(doc(notesCollection, noteId), { document: noteDocument, content: documentToHtml(noteDocument) })
+        .catch(error => console.error('Migrating note content failed:', error));
+      return noteDocument;
+    };
+
     const unsubscribeEvents = onSnapshot(eventsCollection, (snapshot) => {
       const eventsList = snapshot.docs
-        .filter(doc => {
-          const data = doc.data();
-          return data.start && data.end && data.start.toDate && data.end.toDate;
-        })
-        .map(doc => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            title: data.title || 'Untitled Event',
-            start: data.start.toDate(),
-            end: data.end.toDate(),
-            allDay: data.allDay || false,
-            resource: {
-              isNote: false,
-              content: data.content || '',
-              priority: data.priority || 'medium',
-              googleEventId: data.googleEventId || null
-            }
-          } as MyEvent;
-        });
+        .filter(doc => isStoredEvent(doc.data()))
+        .map(doc => eventFromFirestore(doc.id, doc.data()));
       
       setEvents(prev => [
         ...prev.filter(e => e.resource?.isNote),
@@ -67,6 +90,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           const data = doc.data();
           // Use 'start' if available, otherwise use 'date' for backward compatibility
           const startDate = data.start ? data.start.toDate() : data.date.toDate();
+          const noteDocument = data.document || (data.content ? migrateNoteContent(doc.id, data.content) : emptyDocument());
           return {
             id: doc.id,
             title: data.title || 'Untitled Note',
@@ -75,7 +99,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
             allDay: data.allDay !== undefined ? data.allDay : true,
             resource: {
               isNote: true,
-              content: data.content || ''
+              content: data.content || '',
+              document: noteDocument,
+              ...(data.icalUid && { icalUid: data.icalUid })
             }
           } as MyEvent;
         });
@@ -86,40 +112,169 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       ]);
     });
 
+    const unsubscribeConflicts = onSnapshot(collection(db, 'users', user.uid, 'syncConflicts'), (snapshot) => {
+      setSyncConflicts(snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          eventId: data.eventId,
+          googleEventId: data.googleEventId,
+          ...(data.googleCalendarId && { googleCalendarId: data.googleCalendarId }),
+          local: snapshotFromFirestore(data.local),
+          remote: data.remote ? snapshotFromFirestore(data.remote) : null,
+          resolvedWith: data.resolvedWith,
+          detectedAt: data.detectedAt.toDate()
+        } as SyncConflict;
+      }));
+    });
+
+    const unsubscribeFeeds = feedService.listen(user.uid, setFeeds);
+
+    const unsubscribeCalendars = calendarService.listen(user.uid, setCalendars);
+
+    const unsubscribeTemplates = promptTemplateService.listen(user.uid, setPromptTemplates);
+
     return () => {
       unsubscribeEvents();
       unsubscribeNotes();
+      unsubscribeConflicts();
+      unsubscribeFeeds();
+      unsubscribeCalendars();
+      unsubscribeTemplates();
     };
   }, [user]);
 
+  useEffect(() => {
+    feedsRef.current = feeds;
+  }, [feeds]);
+
+  // Re-fetch subscribed feeds whose cache has gone stale
+  useEffect(() => {
+    if (!user) return;
+
+    const refreshFeeds = () => {
+      feedService.refreshStaleFeeds(user.uid, feedsRef.current);
+    };
+
+    const initialRefresh = setTimeout(refreshFeeds, 3000);
+    const interval = setInterval(refreshFeeds, 15 * 60 * 1000);
+    return () => {
+      clearTimeout(initialRefresh);
+      clearInterval(interval);
+    };
+  }, [user]);
+
+  // Notes, events of visible calendars in their calendar's color, and the read-only layer of visible feeds
+  const calendarEvents = useMemo(() => {
+    const calendarsById = new Map(calendars.map(calendar => [calendar.id, calendar]));
+    const ownEvents = events.flatMap(event => {
+      if (event.resource?.isNote) return [event];
+      const calendar = calendarsById.get(calendarIdOf(event)) || calendars[0];
+      if (!calendar.visible) return [];
+      return [{ ...event, resource: { ...event.resource!, color: calendar.color } }];
+    });
+    return [...ownEvents, ...feeds.filter(feed => feed.visible).flatMap(feed => feed.events)];
+  }, [events, calendars, feeds]);
+
+  // Pull changes from Google Calendar shortly after load and then periodically
+  useEffect(() => {
+    if (!user) return;
+
+    const runBackgroundSync = async () => {
+      if (!googleCalendarService.isConnected()) return;
+      try {
+        const summary = await googleSyncService.sync(user.uid);
+        if (summary.conflicts > 0) {
+          toast(`${summary.conflicts} sync conflict${summary.conflicts === 1 ? '' : 's'} need review`);
+        }
+      } catch (error) {
+        console.log('Background Google Calendar sync failed:', error);
+      }
+    };
+
+    const initialSync = setTimeout(runBackgroundSync, 5000);
+    const interval = setInterval(runBackgroundSync, 5 * 60 * 1000);
+    return () => {
+      clearTimeout(initialSync);
+      clearInterval(interval);
+    };
+  }, [user]);
+
+  // Send Google Calendar writes queued in this or an earlier session
+  useEffect(() => {
+    if (!user) return;
+    syncOutboxService.start(user.uid);
+    return () => syncOutboxService.stop();
+  }, [user]);
+
+  // Keep in-app and browser reminders in step with the latest events
+  useEffect(() => {
+    reminderService.schedule(events);
+  }, [events]);
+
+  useEffect(() => {
+    return () => reminderService.stop();
+  }, []);
+
+  // Ctrl/Cmd+K opens the quick add bar from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowQuickAdd(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleEventSelect = (event: MyEvent) => {
+    // Feed events can't be edited
+    if (event.resource?.feedId) {
+      const feed = feeds.find(f => f.id === event.resource?.feedId);
+      toast(`"${event.title}" is from ${feed?.name || 'a subscribed feed'} and is read-only`);
+      return;
+    }
+
     setSelectedEvent(event);
-    setSelectedDate(null);
+    setSelectedSlot(null);
     setIsMobileEditorOpen(true);
   };
 
-  const handleSlotSelect = (date: Date) => {
-    setSelectedDate(date);
+  // Jump to a search result's date and open it in the editor
+  const handleSearchResultSelect = (item: MyEvent) => {
+    setCurrentDate(item.start);
+    handleEventSelect(item);
+  };
+
+  const handleSlotSelect = (slot: SelectedSlot) => {
+    setSelectedSlot(slot);
     setSelectedEvent(null);
     setIsMobileEditorOpen(true);
   };
 
-  const handleEventDelete = async (eventId: string, isNote: boolean) => {
+  const handleEventDelete = async (eventId: string, isNote: boolean, occurrenceStart?: Date) => {
+    // Find the event to get Google Calendar ID before deleting
+    const eventToDelete = events.find(e => e.id === eventId);
+
+    // Deleting an occurrence of a recurring event asks which part of the series to remove
+    if (!isNote && occurrenceStart && eventToDelete?.resource?.recurrence) {
+      setPendingOccurrenceDelete({ event: eventToDelete, occurrenceStart });
+      return;
+    }
+
     try {
-      // Find the event to get Google Calendar ID before deleting
-      const eventToDelete = events.find(e => e.id === eventId);
-      
       const collectionName = isNote ? 'notes' : 'events';
       await deleteDoc(doc(db, 'users', user.uid, collectionName, eventId));
       
-      // Delete from Google Calendar if it's an event with Google ID
-      if (!isNote && eventToDelete?.resource?.googleEventId) {
-        try {
-          await googleCalendarService.deleteEvent(eventToDelete.resource.googleEventId);
-          console.log('Deleted from Google Calendar:', eventToDelete.resource.googleEventId);
-        } catch (error) {
-          console.log('Google Calendar delete failed:', error);
-        }
+      // Queue the delete for Google Calendar, so it still goes through after being offline
+      if (!isNote) {
+        await syncOutboxService.enqueueDelete(
+          user.uid,
+          eventId,
+          eventToDelete?.resource?.googleEventId,
+          eventToDelete?.resource?.googleCalendarId
+        );
       }
       
       toast.success(`${isNote ? 'Note' : 'Event'} deleted successfully`);
@@ -129,22 +284,186 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
   };
 
+  const handleQuickAdd = async (quickAdd: QuickAddEvent) => {
+    try {
+      const docRef = await addDoc(collection(db, 'users', user.uid, 'events'), {
+        title: quickAdd.title,
+        start: Timestamp.fromDate(quickAdd.start),
+        end: Timestamp.fromDate(quickAdd.end),
+        allDay: quickAdd.allDay,
+        priority: quickAdd.priority,
+        reminders: [],
+        updatedAt: Timestamp.now()
+      });
+
+      await syncOutboxService.enqueueCreate(user.uid, {
+        id: docRef.id,
+        title: quickAdd.title,
+        start: quickAdd.start,
+        end: quickAdd.end,
+        allDay: quickAdd.allDay,
+        resource: { isNote: false, content: '', priority: quickAdd.priority, reminders: [] }
+      });
+
+      setCurrentDate(quickAdd.start);
+      toast.success(`Added "${quickAdd.title}" on ${format(quickAdd.start, 'MMM d')}`);
+    } catch (error) {
+      console.error('Error adding event:', error);
+      toast.error('Failed to add event');
+      throw error;
+    }
+  };
+
+  const handleAddFeed = async (feed: { name: string; url: string; color: string }) => {
+    try {
+      await feedService.addFeed(user.uid, feed);
+      toast.success('Feed added');
+    } catch (error) {
+      console.error('Error adding feed:', error);
+      toast.error('Failed to add feed');
+    }
+  };
+
+  const handleUpdateFeed = async (feed: CalendarFeed, changes: Partial<Pick<CalendarFeed, 'name' | 'color' | 'visible'>>) => {
+    try {
+      await feedService.updateFeed(user.uid, feed.id, changes);
+    } catch (error) {
+      console.error('Error updating feed:', error);
+      toast.error('Failed to update feed');
+    }
+  };
+
+  const handleRemoveFeed = async (feed: CalendarFeed) => {
+    try {
+      await feedService.removeFeed(user.uid, feed.id);
+      toast.success('Feed removed');
+    } catch (error) {
+      console.error('Error removing feed:', error);
+      toast.error('Failed to remove feed');
+    }
+  };
+
+  const handleCreateCalendar = async (calendar: Omit<UserCalendar, 'id'>) => {
+    try {
+      await calendarService.createCalendar(user.uid, calendar);
+      toast.success('Calendar created');
+    } catch (error) {
+      console.error('Error creating calendar:', error);
+      toast.error('Failed to create calendar');
+    }
+  };
+
+  const handleUpdateCalendar = async (calendar: UserCalendar, changes: Partial<Omit<UserCalendar, 'id'>>) => {
+    try {
+      // Events of a calendar mapped to another Google calendar are moved there on the next sync
+      await calendarService.updateCalendar(user.uid, calendar, changes);
+    } catch (error) {
+      console.error('Error updating calendar:', error);
+      toast.error('Failed to update calendar');
+    }
+  };
+
+  const handleDeleteCalendar = async (calendar: UserCalendar) => {
+    if (!window.confirm(`Delete "${calendar.name}"? Its events move to your default calendar.`)) return;
+    try {
+      await calendarService.deleteCalendar(user.uid, calendar.id, events);
+      toast.success('Calendar deleted');
+    } catch (error) {
+      console.error('Error deleting calendar:', error);
+      toast.error('Failed to delete calendar');
+    }
+  };
+
+  const handleCreateTemplate = async (template: Omit<AiPromptTemplate, 'id'>) => {
+    try {
+      await promptTemplateService.createTemplate(user.uid, template);
+      toast.success('Prompt created');
+    } catch (error) {
+      console.error('Error creating prompt template:', error);
+      toast.error('Failed to create prompt');
+    }
+  };
+
+  const handleUpdateTemplate = async (template: AiPromptTemplate, changes: Partial<Omit<AiPromptTemplate, 'id'>>) => {
+    try {
+      await promptTemplateService.updateTemplate(user.uid, template.id, changes);
+    } catch (error) {
+      console.error('Error updating prompt template:', error);
+      toast.error('Failed to update prompt');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: AiPromptTemplate) => {
+    if (!window.confirm(`Delete the prompt "${template.name}"?`)) return;
+    try {
+      await promptTemplateService.deleteTemplate(user.uid, template.id);
+      toast.success('Prompt deleted');
+    } catch (error) {
+      console.error('Error deleting prompt template:', error);
+      toast.error('Failed to delete prompt');
+    }
+  };
+
+  const handleOccurrenceDelete = async (scope: RecurrenceScope) => {
+    if (!pendingOccurrenceDelete) return;
+    const { event: series, occurrenceStart } = pendingOccurrenceDelete;
+    setPendingOccurrenceDelete(null);
+
+    const rule = parseRecurrence(series.resource?.recurrence);
+    if (scope === 'all' || !rule || (scope === 'following' && occurrenceStart <= series.start)) {
+      await handleEventDelete(series.id!, false);
+      return;
+    }
+
+    try {
+      const updatedRule = scope === 'this'
+        ? excludeOccurrence(rule, occurrenceStart)
+        : endSeriesBefore(rule, series.start, occurrenceStart);
+      const recurrence = formatRecurrence(updatedRule, !!series.allDay);
+      await updateDoc(doc(db, 'users', user.uid, 'events', series.id!), { recurrence, updatedAt: Timestamp.now() });
+
+      await syncOutboxService.enqueueUpdate(user.uid, { ...series, resource: { ...series.resource, recurrence } });
+
+      toast.success(scope === 'this' ? 'Occurrence deleted' : 'Following occurrences deleted');
+    } catch (error) {
+      console.error('Error deleting occurrence:', error);
+      toast.error('Failed to delete event');
+    }
+  };
+
+  const handleEventReschedule = async (event: MyEvent, start: Date, end: Date) => {
+    if (!event.id) return;
+    try {
+      await updateDoc(doc(db, 'users', user.uid, 'events', event.id), {
+        start: Timestamp.fromDate(start),
+        end: Timestamp.fromDate(end),
+        updatedAt: Timestamp.now()
+      });
+
+      // Keep the linked Google Calendar event in step
+      await syncOutboxService.enqueueUpdate(user.uid, { ...event, start, end });
+
+      toast.success('Event rescheduled');
+    } catch (error) {
+      console.error('Error rescheduling event:', error);
+      toast.error('Failed to reschedule event');
+    }
+  };
+
   const handleCloseEditor = () => {
     setSelectedEvent(null);
-    setSelectedDate(null);
+    setSelectedSlot(null);
     setIsMobileEditorOpen(false);
   };
 
   const handleSyncCalendar = async () => {
     console.log('=== Dashboard Sync Handler ===');
     try {
-      console.log('Events to sync:', events.filter(e => !e.resource?.isNote));
-      // Sync each event individually
-      const eventsToSync = events.filter(e => !e.resource?.isNote);
-      for (const event of eventsToSync) {
-        await googleCalendarService.syncEvent(event);
+      const summary = await googleSyncService.sync(user.uid);
+      console.log('Sync summary:', summary);
+      if (summary.conflicts > 0) {
+        toast(`${summary.conflicts} sync conflict${summary.conflicts === 1 ? '' : 's'} need review`);
       }
-      console.log('All events synced successfully');
       toast.success('Calendar synced successfully');
     } catch (error) {
       console.error('Dashboard sync failed:', error);
@@ -152,27 +471,81 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     }
   };
 
+  const handleResolveConflict = async (conflict: SyncConflict, choice: SyncConflict['resolvedWith']) => {
+    try {
+      await googleSyncService.resolveConflict(user.uid, conflict, choice);
+      toast.success('Conflict resolved');
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      toast.error('Failed to resolve conflict');
+    }
+  };
+
+  const handleExportCalendar = (options: IcsExportOptions) => {
+    try {
+      icsService.download(icsService.exportCalendar(events, options), options);
+      toast.success('Calendar exported');
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast.error('Failed to export calendar');
+    }
+  };
+
+  const handleImportCalendar = async (file: File) => {
+    try {
+      const summary = await icsService.importCalendar(user.uid, await file.text(), events);
+      toast.success(`Imported ${summary.created + summary.updated} item${summary.created + summary.updated === 1 ? '' : 's'}`);
+      return summary;
+    } catch (error) {
+      console.error('Error importing calendar:', error);
+      toast.error('Failed to import calendar');
+      return null;
+    }
+  };
+
   const handleViewChange = (view: string) => {
     setCurrentView(view as ViewType);
   };
 
   return (
     <div className="h-screen flex flex-col bg-gray-50">
-      <Header user={user} onSyncCalendar={handleSyncCalendar} />
+      <Header
+        user={user}
+        onSyncCalendar={handleSyncCalendar}
+        conflictCount={syncConflicts.length}
+        onShowConflicts={() => setShowSyncConflicts(true)}
+        onOpenImportExport={() => setShowIcsDialog(true)}
+        onOpenFeeds={() => setShowFeedSettings(true)}
+        onOpenAiSettings={() => setShowAiSettings(true)}
+        onOpenPromptTemplates={() => setShowPromptTemplates(true)}
+        onQuickAdd={() => setShowQuickAdd(true)}
+        searchItems={events}
+        onSearchResultSelect={handleSearchResultSelect}
+      />
       
       <div className="flex-1 flex overflow-hidden">
         <div className={`${
           isMobileEditorOpen ? 'hidden' : 'flex'
         } lg:flex flex-col w-full lg:w-1/2 xl:w-2/5 border-r border-gray-200 bg-white`}>
-          <CalendarPanel
-            events={events}
-            currentDate={currentDate}
-            view={currentView}
-            onDateChange={setCurrentDate}
-            onEventSelect={handleEventSelect}
-            onSlotSelect={handleSlotSelect}
-            onEventDelete={handleEventDelete}
-            onViewChange={setCurrentView}
+          <div className="flex-1 min-h-0">
+            <CalendarPanel
+              events={calendarEvents}
+              currentDate={currentDate}
+              view={currentView}
+              onDateChange={setCurrentDate}
+              onEventSelect={handleEventSelect}
+              onSlotSelect={handleSlotSelect}
+              onEventDelete={handleEventDelete}
+              onEventReschedule={handleEventReschedule}
+              onViewChange={setCurrentView}
+            />
+          </div>
+          <CalendarList
+            calendars={calendars}
+            feeds={feeds}
+            onToggleCalendar={(calendar) => handleUpdateCalendar(calendar, { visible: !calendar.visible })}
+            onToggleFeed={(feed) => handleUpdateFeed(feed, { visible: !feed.visible })}
+            onManage={() => setShowCalendarSettings(true)}
           />
         </div>
 
@@ -182,12 +555,82 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           <EditorPanel
             user={user}
             event={selectedEvent}
-            selectedDate={selectedDate}
+            selectedSlot={selectedSlot}
+            calendars={calendars}
+            promptTemplates={promptTemplates}
+            onManagePromptTemplates={() => setShowPromptTemplates(true)}
             onClose={handleCloseEditor}
             isMobile={isMobileEditorOpen}
           />
         </div>
       </div>
+
+      {showSyncConflicts && (
+        <SyncConflictsDialog
+          conflicts={syncConflicts}
+          onResolve={handleResolveConflict}
+          onClose={() => setShowSyncConflicts(false)}
+        />
+      )}
+
+      {showIcsDialog && (
+        <IcsDialog
+          currentDate={currentDate}
+          onExport={handleExportCalendar}
+          onImport={handleImportCalendar}
+          onClose={() => setShowIcsDialog(false)}
+        />
+      )}
+
+      {showFeedSettings && (
+        <FeedSettingsDialog
+          feeds={feeds}
+          onAdd={handleAddFeed}
+          onUpdate={handleUpdateFeed}
+          onRefresh={(feed) => feedService.refreshFeed(user.uid, feed.id, feed.url)}
+          onRemove={handleRemoveFeed}
+          onClose={() => setShowFeedSettings(false)}
+        />
+      )}
+
+      {showAiSettings && (
+        <AiSettingsDialog onClose={() => setShowAiSettings(false)} />
+      )}
+
+      {showPromptTemplates && (
+        <PromptTemplatesDialog
+          templates={promptTemplates}
+          onCreate={handleCreateTemplate}
+          onUpdate={handleUpdateTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setShowPromptTemplates(false)}
+        />
+      )}
+
+      {showCalendarSettings && (
+        <CalendarSettingsDialog
+          calendars={calendars}
+          onCreate={handleCreateCalendar}
+          onUpdate={handleUpdateCalendar}
+          onDelete={handleDeleteCalendar}
+          onClose={() => setShowCalendarSettings(false)}
+        />
+      )}
+
+      {showQuickAdd && (
+        <QuickAddBar
+          onSave={handleQuickAdd}
+          onClose={() => setShowQuickAdd(false)}
+        />
+      )}
+
+      {pendingOccurrenceDelete && (
+        <RecurrenceScopeDialog
+          action="delete"
+          onSelect={handleOccurrenceDelete}
+          onCancel={() => setPendingOccurrenceDelete(null)}
+        />
+      )}
     </div>
   );
 };
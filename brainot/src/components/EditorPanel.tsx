@@ -1,25 +1,100 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { format } from 'date-fns';
-import { collection, addDoc, updateDoc, doc, Timestamp } from 'firebase/firestore';
+import { format, addHours } from 'date-fns';
+import { collection, addDoc, updateDoc, doc, Timestamp, deleteField } from 'firebase/firestore';
 import { db } from '../firebase';
-import { MyEvent, User } from '../types';
-import { googleCalendarService } from '../services/googleCalendarService';
-import { geminiService } from '../services/geminiService';
-import { detectDatesInText, highlightDatesInHTML } from '../utils/dateDetection';
+import { AiPromptTemplate, MyEvent, SelectedSlot, User, UserCalendar } from '../types';
+import { syncOutboxService } from '../services/syncOutboxService';
+import { DEFAULT_CALENDAR_ID } from '../services/calendarService';
+import { aiService, AiAction } from '../services/aiService';
+import { reminderService, REMINDER_PRESETS, formatReminderOffset } from '../services/reminderService';
+import { preferencesService } from '../services/preferencesService';
+import { DetectedDate } from '../utils/dateDetection';
+import {
+  RichTextDocument,
+  DocSelection,
+  emptyDocument,
+  htmlToDocument,
+  documentToHtml,
+  documentToText,
+  documentToMarkdown,
+  markdownToDocument,
+  selectedDocument,
+  replaceSelection,
+  insertAfterSelection
+} from '../utils/richText';
+import { DocumentDiff, diffDocuments } from '../utils/documentDiff';
 import toast from 'react-hot-toast';
 import TypeSelector from './TypeSelector';
+import RichTextEditor from './RichTextEditor';
+import AiDiffDialog from './AiDiffDialog';
+import AiStreamPreview from './AiStreamPreview';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import {
+  RecurrenceRule,
+  RecurrenceScope,
+  RecurrenceFrequency,
+  parseRecurrence,
+  formatRecurrence,
+  describeRecurrence,
+  excludeOccurrence,
+  endSeriesBefore,
+  countOccurrencesBefore
+} from '../utils/recurrence';
 
 interface EditorPanelProps {
   user: User;
   event?: MyEvent | null;
-  selectedDate?: Date | null;
+  selectedSlot?: SelectedSlot | null;
+  calendars: UserCalendar[];
+  promptTemplates?: AiPromptTemplate[];
+  onManagePromptTemplates?: () => void;
   onClose: () => void;
   isMobile?: boolean;
 }
 
-const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, onClose, isMobile = false }) => {
+type SelectedDetectedDate = Pick<DetectedDate, 'start' | 'end' | 'hasTime'>;
+
+// An AI rewrite waiting for the user to review it against the note
+interface AiSuggestion {
+  title: string;
+  diff: DocumentDiff;
+}
+
+// What each action produces, for the streaming preview and review titles
+const AI_ACTION_RESULTS: Record<AiAction, string> = {
+  summarize: 'summary',
+  grammar: 'grammar fixes',
+  improve: 'improved writing',
+  expand: 'expanded text',
+  professional: 'professional rewrite'
+};
+
+// Run on a selection, these add their result after it instead of replacing it
+const INSERTING_AI_ACTIONS: AiAction[] = ['summarize'];
+
+// Accepted AI changes that can be undone, oldest dropped first
+const MAX_AI_UNDO = 20;
+
+// Prefill the event form with a detected time, falling back to 09:00–10:00
+const formDataForDetectedDate = (detected: SelectedDetectedDate) => {
+  if (!detected.hasTime) return { title: '', startTime: '09:00', endTime: '10:00' };
+  const end = detected.end || addHours(detected.start, 1);
+  return { title: '', startTime: format(detected.start, 'HH:mm'), endTime: format(end, 'HH:mm') };
+};
+
+const EditorPanel: React.FC<EditorPanelProps> = ({
+  user,
+  event,
+  selectedSlot,
+  calendars,
+  promptTemplates = [],
+  onManagePromptTemplates,
+  onClose,
+  isMobile = false
+}) => {
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [noteDocument, setNoteDocument] = useState<RichTextDocument>(emptyDocument);
   const [startDate, setStartDate] = useState('');
   const [startTime, setStartTime] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -27,39 +102,30 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
   const [allDay, setAllDay] = useState(false);
   const [isNote, setIsNote] = useState(false);
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium');
+  const [calendarId, setCalendarId] = useState(DEFAULT_CALENDAR_ID);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [reminders, setReminders] = useState<number[]>([]);
+  const [exceptionDate, setExceptionDate] = useState('');
+  const [showScopeDialog, setShowScopeDialog] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showTypeSelector, setShowTypeSelector] = useState(false);
-  const [showToolbar, setShowToolbar] = useState(false);
-  const [toolbarPosition, setToolbarPosition] = useState({ top: 0, left: 0 });
   const [showAiMenu, setShowAiMenu] = useState(false);
   const [aiLoading, setAiLoading] = useState(false);
+  const [aiSuggestion, setAiSuggestion] = useState<AiSuggestion | null>(null);
+  const [aiStream, setAiStream] = useState<{ title: string; text: string } | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const [aiUndoStack, setAiUndoStack] = useState<RichTextDocument[]>([]);
   const [showDatePopup, setShowDatePopup] = useState(false);
-  const [selectedDetectedDate, setSelectedDetectedDate] = useState<Date | null>(null);
+  const [selectedDetectedDate, setSelectedDetectedDate] = useState<SelectedDetectedDate | null>(null);
   const [popupPosition, setPopupPosition] = useState({ top: 0, left: 0 });
   const [showEventForm, setShowEventForm] = useState(false);
   const [eventFormData, setEventFormData] = useState({ title: '', startTime: '09:00', endTime: '10:00' });
-  const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const editorRef = useRef<HTMLDivElement>(null);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const isInitializing = useRef(false);
 
-  const hasContent = event || selectedDate;
+  const hasContent = event || selectedSlot;
   const isEditing = !!event;
 
-  // Cleanup function
-  useEffect(() => {
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-      // Hide toolbar on unmount
-      setShowToolbar(false);
-    };
-  }, []);
-
   useEffect(() => {
     if (event) {
-      isInitializing.current = true;
       // Editing existing item - determine type and lock it
       setTitle(event.title);
       const eventContent = event.resource?.content || '';
@@ -71,55 +137,38 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
       setAllDay(event.allDay || false);
       setIsNote(event.resource?.isNote || false);
       setPriority(event.resource?.priority || 'medium');
+      setCalendarId(event.resource?.calendarId || DEFAULT_CALENDAR_ID);
+      setRecurrence(parseRecurrence(event.resource?.recurrence));
+      setReminders(event.resource?.reminders || []);
+      // Notes saved before the structured editor only have HTML; they're converted here
+      // and stored as a document on the next save
+      setNoteDocument(event.resource?.document || htmlToDocument(event.resource?.isNote ? eventContent : ''));
+      setAiSuggestion(null);
+      setAiUndoStack([]);
       setShowTypeSelector(false);
-      setShowToolbar(false);
-      
-      // Set content directly when editing existing content
-      setTimeout(() => {
-        if (editorRef.current) {
-          editorRef.current.innerHTML = eventContent;
-          // Place cursor at the end of content
-          if (eventContent) {
-            editorRef.current.focus();
-            const range = document.createRange();
-            const selection = window.getSelection();
-            range.selectNodeContents(editorRef.current);
-            range.collapse(false); // false means collapse to end
-            selection?.removeAllRanges();
-            selection?.addRange(range);
-          }
-        }
-        isInitializing.current = false;
-      }, 0);
-    } else if (selectedDate) {
-      isInitializing.current = true;
-      // Creating new item - show type selector first
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-      setStartDate(dateStr);
-      setEndDate(dateStr);
-      setStartTime('09:00');
-      setEndTime('10:00');
+    } else if (selectedSlot) {
+      // Creating new item - a selected time range is always an event, otherwise show type selector first
+      const hasTimeRange = !!selectedSlot.end;
+      setStartDate(format(selectedSlot.start, 'yyyy-MM-dd'));
+      setEndDate(format(selectedSlot.end || selectedSlot.start, 'yyyy-MM-dd'));
+      setStartTime(hasTimeRange ? format(selectedSlot.start, 'HH:mm') : '09:00');
+      setEndTime(hasTimeRange ? format(selectedSlot.end!, 'HH:mm') : '10:00');
       setTitle('');
       setContent('');
+      setNoteDocument(emptyDocument());
+      setAiSuggestion(null);
+      setAiUndoStack([]);
       setAllDay(false);
       setIsNote(false);
       setPriority('medium');
-      setShowTypeSelector(true);
-      setShowToolbar(false);
-      
-      // Clear editor for new content
-      setTimeout(() => {
-        if (editorRef.current) {
-          editorRef.current.innerHTML = '';
-          editorRef.current.focus();
-        }
-        isInitializing.current = false;
-      }, 0);
+      setCalendarId(DEFAULT_CALENDAR_ID);
+      setRecurrence(null);
+      setReminders([]);
+      setShowTypeSelector(!hasTimeRange);
     } else {
       setShowTypeSelector(false);
-      setShowToolbar(false);
     }
-  }, [event, selectedDate]);
+  }, [event, selectedSlot]);
 
   const handleTypeSelect = (type: 'event' | 'note') => {
     setIsNote(type === 'note');
@@ -163,12 +212,20 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
       return;
     }
 
-    // Get current content from editor for notes
-    let currentContent = content;
-    if (isNote && editorRef.current) {
-      currentContent = editorRef.current.innerHTML || '';
+    // Editing one occurrence of a recurring event: ask which part of the series to change
+    if (!isNote && event?.resource?.occurrenceStart) {
+      setShowScopeDialog(true);
+      return;
     }
 
+    await saveItem('all');
+  };
+
+  const saveItem = async (scope: RecurrenceScope) => {
+    // Notes keep their HTML alongside the document, for search, previews and export
+    const currentContent = isNote ? documentToHtml(noteDocument) : content;
+    const hasNoteText = isNote && !!documentToText(noteDocument).trim();
+
     setIsLoading(true);
     try {
       let startDateTime, endDateTime;
@@ -189,42 +246,92 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           : new Date(endDate + 'T' + endTime);
       }
 
+      let recurrenceRule = isNote ? null : recurrence;
+      // Whether the edit splits off a new document from a recurring series
+      let splitFromSeries = false;
+      const occurrenceStart = !isNote ? event?.resource?.occurrenceStart : undefined;
+      const seriesStart = event?.resource?.seriesStart;
+      const seriesRule = parseRecurrence(event?.resource?.recurrence);
+
+      if (event?.id && occurrenceStart && seriesStart && seriesRule) {
+        if (scope === 'all' || (scope === 'following' && occurrenceStart <= seriesStart)) {
+          // Move the whole series by however much this occurrence was moved
+          const shift = startDateTime.getTime() - occurrenceStart.getTime();
+          const duration = endDateTime.getTime() - startDateTime.getTime();
+          startDateTime = new Date(seriesStart.getTime() + shift);
+          endDateTime = new Date(startDateTime.getTime() + duration);
+        } else {
+          const truncatedRule = scope === 'this'
+            ? excludeOccurrence(seriesRule, occurrenceStart)
+            : endSeriesBefore(seriesRule, seriesStart, occurrenceStart);
+          const seriesRecurrence = formatRecurrence(truncatedRule, !!event.allDay);
+          await updateDoc(doc(db, 'users', user.uid, 'events', event.id), { recurrence: seriesRecurrence, updatedAt: Timestamp.now() });
+
+          await syncOutboxService.enqueueUpdate(user.uid, {
+            ...event,
+            start: seriesStart,
+            end: new Date(seriesStart.getTime() + (event.end.getTime() - event.start.getTime())),
+            resource: { ...event.resource, occurrenceStart: undefined, seriesStart: undefined, recurrence: seriesRecurrence }
+          });
+
+          if (scope === 'this') {
+            recurrenceRule = null;
+          } else if (recurrenceRule?.count && recurrenceRule.count === seriesRule.count) {
+            // The new series continues where the old one stopped
+            const remaining = recurrenceRule.count - countOccurrencesBefore(seriesStart, seriesRule, occurrenceStart);
+            recurrenceRule = { ...recurrenceRule, count: Math.max(remaining, 1) };
+          }
+          splitFromSeries = true;
+        }
+      }
+
+      const recurrenceLines = recurrenceRule ? formatRecurrence(recurrenceRule, allDay) : null;
+      const isUpdate = !!event?.id && !splitFromSeries;
+      // Events of the default calendar don't store a calendarId
+      const eventCalendarId = calendarId !== DEFAULT_CALENDAR_ID ? calendarId : undefined;
+
       const eventData = {
         title: title.trim(),
         start: Timestamp.fromDate(startDateTime),
         end: Timestamp.fromDate(endDateTime),
-        ...(currentContent.trim() && { content: currentContent.trim() }),
+        ...(isNote
+          ? { content: hasNoteText ? currentContent : '', document: noteDocument }
+          : currentContent.trim() && { content: currentContent.trim() }),
         ...(isNote && { isNote: true }),
-        ...(!isNote && { allDay, priority }),
+        ...(!isNote && { allDay, priority, reminders }),
+        ...(!isNote && eventCalendarId && { calendarId: eventCalendarId }),
+        ...(recurrenceLines && { recurrence: recurrenceLines }),
+        updatedAt: Timestamp.now(),
+        ...(isUpdate && !recurrenceLines && event?.resource?.recurrence && { recurrence: deleteField() }),
+        ...(isUpdate && !eventCalendarId && event?.resource?.calendarId && { calendarId: deleteField() }),
         // Preserve Google Event ID for events
-        ...(!isNote && event?.resource?.googleEventId && { googleEventId: event.resource.googleEventId })
+        ...(isUpdate && !isNote && event?.resource?.googleEventId && { googleEventId: event.resource.googleEventId })
       };
 
-      if (event?.id) {
+      if (isUpdate && event?.id) {
         const collectionName = isNote ? 'notes' : 'events';
         await updateDoc(doc(db, 'users', user.uid, collectionName, event.id), eventData);
         
-        // Sync updates to Google Calendar for events
-        if (!isNote && event.resource?.googleEventId) {
-          try {
-            const updatedEvent: MyEvent = {
-              id: event.id!,
-              title: title.trim(),
-              start: startDateTime,
-              end: endDateTime,
-              allDay,
-              resource: { 
-                isNote: false,
-                content: currentContent.trim(), 
-                priority,
-                googleEventId: event.resource.googleEventId
-              }
-            };
-            await googleCalendarService.updateEvent(updatedEvent);
-            console.log('Google Calendar event updated successfully');
-          } catch (error) {
-            console.log('Google Calendar update failed:', error);
-          }
+        // Queue the update for Google Calendar; the outbox retries until it goes through
+        if (!isNote) {
+          const updatedEvent: MyEvent = {
+            id: event.id!,
+            title: title.trim(),
+            start: startDateTime,
+            end: endDateTime,
+            allDay,
+            resource: { 
+              isNote: false,
+              content: currentContent.trim(), 
+              priority,
+              reminders,
+              calendarId: eventCalendarId,
+              ...(event.resource?.googleEventId && { googleEventId: event.resource.googleEventId }),
+              ...(event.resource?.googleCalendarId && { googleCalendarId: event.resource.googleCalendarId }),
+              ...(recurrenceLines && { recurrence: recurrenceLines })
+            }
+          };
+          await syncOutboxService.enqueueUpdate(user.uid, updatedEvent);
         }
         
         toast.success(`${isNote ? 'Note' : 'Event'} updated successfully`);
@@ -232,46 +339,43 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
         const collectionName = isNote ? 'notes' : 'events';
         const docRef = await addDoc(collection(db, 'users', user.uid, collectionName), eventData);
         
-        // Try Google Calendar sync with captured access token
+        // Queue creation in Google Calendar; the outbox stores the Google event ID once created
         if (!isNote) {
-          try {
-            const googleEventId = await googleCalendarService.syncEvent({
-              id: docRef.id,
-              title: title.trim(),
-              start: startDateTime,
-              end: endDateTime,
-              allDay,
-              resource: { isNote: false, content: currentContent.trim(), priority }
-            });
-            
-            // Store the Google Calendar event ID in Firebase
-            if (googleEventId) {
-              await updateDoc(docRef, {
-                googleEventId: googleEventId
-              });
-              console.log('Stored Google Calendar ID:', googleEventId);
+          await syncOutboxService.enqueueCreate(user.uid, {
+            id: docRef.id,
+            title: title.trim(),
+            start: startDateTime,
+            end: endDateTime,
+            allDay,
+            resource: {
+              isNote: false,
+              content: currentContent.trim(),
+              priority,
+              reminders,
+              calendarId: eventCalendarId,
+              ...(recurrenceLines && { recurrence: recurrenceLines })
             }
-          } catch (error) {
-            console.log('Google Calendar sync failed:', error);
-          }
+          });
         }
         toast.success(`${isNote ? 'Note' : 'Event'} created successfully`);
       }
 
-      // Only close editor on mobile for events, keep open for notes and desktop
-      if (isMobile && !isNote) {
+      // Only close editor on mobile for events, keep open for notes and desktop.
+      // After splitting a series the selected occurrence is stale, so close then too.
+      if ((isMobile && !isNote) || splitFromSeries) {
         handleClear();
       } else {
         // Keep editor open but reset to empty state for new creation
         if (!event?.id) {
           setTitle('');
           setContent('');
-          if (editorRef.current) {
-            editorRef.current.innerHTML = '';
-          }
+          setNoteDocument(emptyDocument());
+          setAiUndoStack([]);
           if (!isNote) {
             setAllDay(false);
             setPriority('medium');
+            setRecurrence(null);
+            setReminders([]);
           }
         }
       }
@@ -289,18 +393,11 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
     setAllDay(false);
     setIsNote(false);
     setPriority('medium');
+    setCalendarId(DEFAULT_CALENDAR_ID);
     setShowTypeSelector(false);
-    setShowToolbar(false);
-    
-    // Clear editor content
-    if (editorRef.current) {
-      editorRef.current.innerHTML = '';
-    }
-    
-    // Clear any pending timeouts
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
+    setNoteDocument(emptyDocument());
+    setAiSuggestion(null);
+    setAiUndoStack([]);
     
     if (isMobile) {
       onClose();
@@ -313,154 +410,23 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
     handleClear();
   }, [handleClear]);
 
-  const handleTextSelection = useCallback(() => {
-    // Clear existing timeout
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-    
-    timeoutRef.current = setTimeout(() => {
-      const selection = window.getSelection();
-      if (!selection || selection.rangeCount === 0 || selection.toString().trim() === '') {
-        setShowToolbar(false);
-        return;
-      }
-
-      const range = selection.getRangeAt(0);
-      const rect = range.getBoundingClientRect();
-      
-      if (rect.width > 0 && rect.height > 0) {
-        // Calculate position relative to viewport
-        const viewportWidth = window.innerWidth;
-        const toolbarWidth = 200; // Approximate toolbar width
-        
-        let left = rect.left + (rect.width / 2) - (toolbarWidth / 2);
-        let top = rect.top - 60;
-        
-        // Keep toolbar within viewport bounds
-        if (left < 10) left = 10;
-        if (left + toolbarWidth > viewportWidth - 10) left = viewportWidth - toolbarWidth - 10;
-        if (top < 10) top = rect.bottom + 10;
-        
-        setToolbarPosition({ top, left });
-        setShowToolbar(true);
-      }
-    }, 10);
-  }, []);
-
-  const applyFormat = useCallback((format: string) => {
-    const selection = window.getSelection();
-    if (!selection || selection.rangeCount === 0) return;
-    
-    // Save current selection
-    const range = selection.getRangeAt(0);
-    const startContainer = range.startContainer;
-    const startOffset = range.startOffset;
-    const endContainer = range.endContainer;
-    const endOffset = range.endOffset;
-    
-    try {
-      // Apply formatting
-      document.execCommand(format, false, '');
-      
-      // Update content without resetting cursor
-      if (editorRef.current) {
-        setContent(editorRef.current.innerHTML);
-      }
-      
-      // Restore selection if possible
-      setTimeout(() => {
-        try {
-          const newRange = document.createRange();
-          newRange.setStart(startContainer, startOffset);
-          newRange.setEnd(endContainer, endOffset);
-          selection.removeAllRanges();
-          selection.addRange(newRange);
-        } catch (e) {
-          // If restoration fails, just focus the editor
-          editorRef.current?.focus();
-        }
-      }, 0);
-    } catch (error) {
-      console.warn('Format command failed:', error);
-    }
-    
-    setShowToolbar(false);
-  }, []);
-
-  const handleContentChange = useCallback((newContent: string) => {
-    if (isInitializing.current) return;
-    
-    // Clear existing debounce
-    if (debounceTimeoutRef.current) {
-      clearTimeout(debounceTimeoutRef.current);
-    }
-    
-    // Set content immediately for responsive typing
-    setContent(newContent);
-    
-    // Debounce date detection to avoid cursor issues
-    debounceTimeoutRef.current = setTimeout(() => {
-      const tempDiv = document.createElement('div');
-      tempDiv.innerHTML = newContent;
-      const plainText = tempDiv.innerText || tempDiv.textContent || '';
-      
-      const detectedDates = detectDatesInText(plainText);
-      
-      if (detectedDates.length > 0 && editorRef.current) {
-        const highlightedContent = highlightDatesInHTML(plainText, detectedDates);
-        
-        if (highlightedContent !== plainText) {
-          // Save current selection
-          const selection = window.getSelection();
-          let savedRange: Range | null = null;
-          if (selection && selection.rangeCount > 0) {
-            savedRange = selection.getRangeAt(0).cloneRange();
-          }
-          
-          editorRef.current.innerHTML = highlightedContent;
-          
-          // Restore selection after a brief delay
-          setTimeout(() => {
-            if (editorRef.current) {
-              // Always place cursor at the end of content
-              const range = document.createRange();
-              const sel = window.getSelection();
-              range.selectNodeContents(editorRef.current);
-              range.collapse(false); // false = collapse to end
-              sel?.removeAllRanges();
-              sel?.addRange(range);
-            }
-            
-            // Add click listeners
-            const dateElements = editorRef.current!.querySelectorAll('.detected-date');
-            dateElements.forEach(element => {
-              element.addEventListener('click', (e) => {
-                e.preventDefault();
-                const dateStr = (e.target as HTMLElement).getAttribute('data-date');
-                if (dateStr) {
-                  const date = new Date(dateStr);
-                  const rect = (e.target as HTMLElement).getBoundingClientRect();
-                  setPopupPosition({ top: rect.bottom + 5, left: rect.left });
-                  setSelectedDetectedDate(date);
-                  setShowDatePopup(true);
-                }
-              });
-            });
-          }, 10);
-          
-          setContent(highlightedContent);
-        }
-      }
-    }, 500); // 500ms debounce
+  const handleDateClick = useCallback((detected: SelectedDetectedDate, rect: DOMRect) => {
+    setPopupPosition({ top: rect.bottom + 5, left: rect.left });
+    setSelectedDetectedDate(detected);
+    setShowDatePopup(true);
   }, []);
 
   const handleCreateEventFromDate = useCallback(async () => {
     if (!selectedDetectedDate || !eventFormData.title.trim()) return;
     
     try {
-      const startDateTime = new Date(`${format(selectedDetectedDate, 'yyyy-MM-dd')}T${eventFormData.startTime}`);
-      const endDateTime = new Date(`${format(selectedDetectedDate, 'yyyy-MM-dd')}T${eventFormData.endTime}`);
+      const day = format(selectedDetectedDate.start, 'yyyy-MM-dd');
+      const startDateTime = new Date(`${day}T${eventFormData.startTime}`);
+      let endDateTime = new Date(`${day}T${eventFormData.endTime}`);
+      if (endDateTime <= startDateTime) {
+        // Ends after midnight
+        endDateTime = new Date(endDateTime.getTime() + 24 * 60 * 60 * 1000);
+      }
       
       const eventData = {
         title: eventFormData.title.trim(),
@@ -472,23 +438,15 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
       
       const docRef = await addDoc(collection(db, 'users', user.uid, 'events'), eventData);
       
-      // Sync with Google Calendar
-      try {
-        const googleEventId = await googleCalendarService.syncEvent({
-          id: docRef.id,
-          title: eventFormData.title.trim(),
-          start: startDateTime,
-          end: endDateTime,
-          allDay: false,
-          resource: { isNote: false, priority: 'medium' }
-        });
-        
-        if (googleEventId) {
-          await updateDoc(docRef, { googleEventId });
-        }
-      } catch (error) {
-        console.log('Google Calendar sync failed:', error);
-      }
+      // Queue creation in Google Calendar
+      await syncOutboxService.enqueueCreate(user.uid, {
+        id: docRef.id,
+        title: eventFormData.title.trim(),
+        start: startDateTime,
+        end: endDateTime,
+        allDay: false,
+        resource: { isNote: false, priority: 'medium' }
+      });
       
       toast.success('Event created successfully!');
       setShowEventForm(false);
@@ -501,11 +459,21 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
     }
   }, [selectedDetectedDate, eventFormData, user.uid]);
 
-  const handleAiAction = useCallback(async (action: string) => {
-    if (!editorRef.current || aiLoading) return;
+  const handleAiAction = useCallback(async (command: AiAction | AiPromptTemplate, selection?: DocSelection) => {
+    if (aiLoading) return;
+    if (!aiService.isConfigured()) {
+      toast.error('Choose an AI provider in AI settings first');
+      return;
+    }
     
-    const currentContent = editorRef.current.innerText || '';
-    if (!currentContent.trim()) {
+    // Sent as Markdown so headings, lists and emphasis survive the round trip. A selection
+    // is sent alone, with the paragraphs it's in as context.
+    const target = selection ? selectedDocument(noteDocument, selection) : noteDocument;
+    const currentContent = documentToMarkdown(target);
+    const surrounding = selection ? documentToMarkdown(selectedDocument(noteDocument, selection, true)) : '';
+    const context = surrounding !== currentContent ? surrounding : undefined;
+    // A user's prompt may not need the note's text, the built-in actions do
+    if (typeof command === 'string' && !documentToText(target).trim()) {
       toast.error('Please add some content first');
       return;
     }
@@ -513,48 +481,91 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
     setAiLoading(true);
     setShowAiMenu(false);
     
+    const resultName = typeof command === 'string' ? AI_ACTION_RESULTS[command] : `"${command.name}"`;
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    setAiStream({ title: `Writing ${resultName}...`, text: '' });
+    
     try {
+      const chunks = typeof command === 'string'
+        ? aiService.streamAction(command, currentContent, { context, signal: controller.signal })
+        : aiService.streamTemplate(command, {
+          selection: currentContent,
+          note: documentToMarkdown(noteDocument),
+          title: title.trim(),
+          date: format(startDate ? new Date(`${startDate}T00:00:00`) : new Date(), 'EEEE, MMMM d, yyyy')
+        }, controller.signal);
+
       let result = '';
-      
-      switch (action) {
-        case 'summarize':
-          result = await geminiService.summarize(currentContent);
-          break;
-        case 'grammar':
-          result = await geminiService.fixGrammar(currentContent);
-          break;
-        case 'improve':
-          result = await geminiService.improveWriting(currentContent);
-          break;
-        case 'expand':
-          result = await geminiService.expandText(currentContent);
-          break;
-        case 'professional':
-          result = await geminiService.makeItProfessional(currentContent);
-          break;
-        default:
-          throw new Error('Unknown AI action');
+      for await (const chunk of chunks) {
+        result += chunk;
+        setAiStream(stream => stream && { ...stream, text: result });
+      }
+      if (!result.trim()) throw new Error('Empty AI response');
+      const proposed = markdownToDocument(result);
+
+      if (typeof command !== 'string' && command.output === 'newNote') {
+        const now = Timestamp.now();
+        const noteTitle = `${command.name}: ${title.trim() || 'Untitled note'}`;
+        await addDoc(collection(db, 'users', user.uid, 'notes'), {
+          title: noteTitle,
+          start: now,
+          end: now,
+          content: documentToHtml(proposed),
+          document: proposed,
+          isNote: true,
+          updatedAt: now
+        });
+        toast.success(`Created note "${noteTitle}"`);
+        return;
       }
       
-      // Convert markdown formatting to HTML
-      const htmlResult = result
-        .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-        .replace(/\*(.*?)\*/g, '<em>$1</em>')
-        .replace(/_(.*?)_/g, '<u>$1</u>')
-        .replace(/\n/g, '<br>');
-      
-      // Update editor content
-      editorRef.current.innerHTML = htmlResult;
-      setContent(htmlResult);
-      toast.success('AI processing completed!');
+      // Shown as a diff for review instead of replacing the note. Without a selection,
+      // inserting appends to the note.
+      const inserting = typeof command === 'string'
+        ? !!selection && INSERTING_AI_ACTIONS.includes(command)
+        : command.output === 'insertBelow';
+      const end = { block: noteDocument.blocks.length - 1, offset: 0 };
+      const diff = diffDocuments(noteDocument, inserting
+        ? insertAfterSelection(noteDocument, selection || { from: end, to: end }, proposed)
+        : selection
+          ? replaceSelection(noteDocument, selection, proposed)
+          : proposed);
+      if (diff.hunks.length === 0) {
+        toast.success('AI suggested no changes');
+      } else {
+        setAiSuggestion({ title: `Review ${resultName}`, diff });
+      }
       
     } catch (error) {
-      console.error('AI processing failed:', error);
-      toast.error('AI processing failed. Please try again.');
+      if (controller.signal.aborted) {
+        toast('AI request cancelled');
+      } else {
+        console.error('AI processing failed:', error);
+        toast.error('AI processing failed. Please try again.');
+      }
     } finally {
+      aiAbortRef.current = null;
+      setAiStream(null);
       setAiLoading(false);
     }
-  }, [aiLoading]);
+  }, [aiLoading, noteDocument, title, startDate, user.uid]);
+
+  // Closing the editor mid-request shouldn't leave the response streaming in
+  useEffect(() => () => aiAbortRef.current?.abort(), []);
+
+  const handleApplyAiSuggestion = (document: RichTextDocument) => {
+    setAiUndoStack(stack => [...stack, noteDocument].slice(-MAX_AI_UNDO));
+    setNoteDocument(document);
+    setAiSuggestion(null);
+    toast.success('AI changes applied');
+  };
+
+  const handleUndoAiChange = () => {
+    if (aiUndoStack.length === 0) return;
+    setNoteDocument(aiUndoStack[aiUndoStack.length - 1]);
+    setAiUndoStack(stack => stack.slice(0, -1));
+  };
 
   const renderEmptyState = () => (
     <div className="h-full flex items-center justify-center p-8">
@@ -601,6 +612,19 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           </div>
           
           <div className="flex items-center space-x-2">
+            {aiUndoStack.length > 0 && (
+              <button
+                onClick={handleUndoAiChange}
+                title="Undo AI change"
+                className="p-2 rounded-xl hover:bg-purple-100 text-purple-600 transition-colors flex items-center space-x-1"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                </svg>
+                <span className="text-sm font-medium">Undo</span>
+              </button>
+            )}
+
             {/* AI Button */}
             <div className="relative">
               <button
@@ -667,6 +691,27 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
                     </svg>
                     <span>Make Professional</span>
                   </button>
+                  {promptTemplates.length > 0 && <div className="my-1 border-t border-gray-100" />}
+                  {promptTemplates.map(template => (
+                    <button
+                      key={template.id}
+                      onClick={() => handleAiAction(template)}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 truncate"
+                    >
+                      {template.name}
+                    </button>
+                  ))}
+                  {onManagePromptTemplates && (
+                    <button
+                      onClick={() => {
+                        setShowAiMenu(false);
+                        onManagePromptTemplates();
+                      }}
+                      className="w-full text-left px-4 py-2 text-xs text-purple-600 hover:bg-gray-50 border-t border-gray-100 mt-1"
+                    >
+                      Manage prompts...
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -684,18 +729,6 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
 
       {/* Modern Editor */}
       <div className="flex-1 flex flex-col p-6 space-y-6">
-        <style dangerouslySetInnerHTML={{__html: `
-          @keyframes slideInUp {
-            from {
-              opacity: 0;
-              transform: translateY(10px) scale(0.95);
-            }
-            to {
-              opacity: 1;
-              transform: translateY(0) scale(1);
-            }
-          }
-        `}} />
         {/* Title Input */}
         <div className="space-y-2">
           <input
@@ -710,30 +743,15 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
         </div>
 
         {/* Content Editor */}
-        <div className="flex-1 relative">
-          <div
-            ref={editorRef}
-            contentEditable
-            onInput={(e) => {
-              if (!isInitializing.current) {
-                const newContent = e.currentTarget.innerHTML;
-                handleContentChange(newContent);
-              }
-            }}
-            onMouseUp={handleTextSelection}
-            onKeyUp={handleTextSelection}
-            onBlur={() => {
-              // Hide toolbar when editor loses focus
-              setTimeout(() => setShowToolbar(false), 100);
-            }}
-            className="absolute inset-0 text-gray-700 border-none outline-none bg-transparent resize-none leading-relaxed focus:outline-none p-4 overflow-y-auto"
-            suppressContentEditableWarning={true}
+        <div className="flex-1 min-h-0">
+          <RichTextEditor
+            document={noteDocument}
+            onChange={setNoteDocument}
+            onDateClick={handleDateClick}
+            onAiAction={handleAiAction}
+            aiTemplates={promptTemplates}
+            placeholder="Start writing your note..."
           />
-          {(!content || content === '') && (
-            <div className="absolute top-4 left-4 text-gray-400 pointer-events-none select-none">
-              Start writing your note...
-            </div>
-          )}
         </div>
       </div>
 
@@ -743,7 +761,7 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           <div className="flex items-center space-x-4 text-sm text-gray-500">
             <span>{title.length} characters</span>
             <span>•</span>
-            <span>{content.split('\n').length} lines</span>
+            <span>{documentToText(noteDocument).split('\n').length} lines</span>
           </div>
           
           <div className="flex space-x-3">
@@ -774,8 +792,24 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
         </div>
       </div>
 
-      {renderInlineToolbar()}
       {renderDatePopup()}
+
+      {aiStream && (
+        <AiStreamPreview
+          title={aiStream.title}
+          text={aiStream.text}
+          onCancel={() => aiAbortRef.current?.abort()}
+        />
+      )}
+
+      {aiSuggestion && (
+        <AiDiffDialog
+          title={aiSuggestion.title}
+          diff={aiSuggestion.diff}
+          onApply={handleApplyAiSuggestion}
+          onClose={() => setAiSuggestion(null)}
+        />
+      )}
       {renderEventForm()}
     </div>
   );
@@ -796,7 +830,9 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           </div>
           <div>
             <p className="font-medium text-gray-900">Create Event</p>
-            <p className="text-sm text-gray-500">{format(selectedDetectedDate, 'MMM d, yyyy')}</p>
+            <p className="text-sm text-gray-500">
+              {format(selectedDetectedDate.start, selectedDetectedDate.hasTime ? 'MMM d, yyyy HH:mm' : 'MMM d, yyyy')}
+            </p>
           </div>
         </div>
         
@@ -813,7 +849,7 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           <button
             onClick={() => {
               setShowEventForm(true);
-              setEventFormData({ title: '', startTime: '09:00', endTime: '10:00' });
+              setEventFormData(formDataForDetectedDate(selectedDetectedDate));
             }}
             className="flex-1 px-3 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
           >
@@ -863,7 +899,7 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
               <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
               <input
                 type="text"
-                value={format(selectedDetectedDate, 'MMM d, yyyy')}
+                value={format(selectedDetectedDate.start, 'MMM d, yyyy')}
                 disabled
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-gray-600"
               />
@@ -915,49 +951,234 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
     );
   };
 
-  const renderInlineToolbar = () => {
-    if (!showToolbar) return null;
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    setRecurrence(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const handleFrequencyChange = (value: string) => {
+    if (!value) {
+      setRecurrence(null);
+      return;
+    }
+    const freq = value as RecurrenceFrequency;
+    const startWeekday = new Date(`${startDate}T00:00:00`).getDay();
+    setRecurrence(prev => ({
+      freq,
+      interval: prev?.interval || 1,
+      ...(freq === 'WEEKLY' && { byWeekday: prev?.byWeekday || [startWeekday] }),
+      ...(prev?.until && { until: prev.until }),
+      ...(prev?.count && { count: prev.count }),
+      exdates: prev?.exdates || []
+    }));
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!recurrence) return;
+    const current = recurrence.byWeekday || [];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    // A weekly rule needs at least one weekday
+    if (next.length > 0) updateRecurrence({ byWeekday: next });
+  };
+
+  const addException = () => {
+    if (!recurrence || !exceptionDate) return;
+    // Exceptions have to match the occurrence start exactly
+    const date = new Date(`${exceptionDate}T${allDay ? '00:00' : startTime}`);
+    updateRecurrence({ exdates: [...recurrence.exdates, date] });
+    setExceptionDate('');
+  };
+
+  const renderRecurrenceEditor = () => {
+    const unit = recurrence ? { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[recurrence.freq] : '';
+    const endMode = recurrence?.count ? 'count' : recurrence?.until ? 'until' : 'never';
 
     return (
-      <div 
-        className="fixed z-50 bg-white border border-gray-200 rounded-xl shadow-xl p-1 flex space-x-1 transform transition-all duration-200 ease-out scale-95 opacity-0 animate-in"
-        style={{ 
-          top: toolbarPosition.top, 
-          left: toolbarPosition.left,
-          animation: 'slideInUp 0.2s ease-out forwards'
-        }}
-      >
-        <button
-          onMouseDown={(e) => { e.preventDefault(); applyFormat('bold'); }}
-          className="p-2.5 hover:bg-purple-50 rounded-lg transition-colors group"
-          title="Bold"
-        >
-          <svg className="w-4 h-4 text-gray-600 group-hover:text-purple-600" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M3 4h4.5a3.5 3.5 0 013.5 3.5v0a3.5 3.5 0 01-3.5 3.5H3V4zM3 11h5a4 4 0 014 4v0a4 4 0 01-4 4H3v-8z" />
+      <div className="space-y-3">
+        <label className="text-sm font-medium text-gray-700 flex items-center space-x-2">
+          <svg className="w-4 h-4 text-purple-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
           </svg>
-        </button>
-        <button
-          onMouseDown={(e) => { e.preventDefault(); applyFormat('italic'); }}
-          className="p-2.5 hover:bg-purple-50 rounded-lg transition-colors group"
-          title="Italic"
+          <span>Repeat</span>
+        </label>
+        <select
+          value={recurrence?.freq || ''}
+          onChange={(e) => handleFrequencyChange(e.target.value)}
+          className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white/50"
         >
-          <svg className="w-4 h-4 text-gray-600 group-hover:text-purple-600" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M8 4h8v2h-2.5l-3 8H13v2H5v-2h2.5l3-8H8V4z" />
-          </svg>
-        </button>
-        <button
-          onMouseDown={(e) => { e.preventDefault(); applyFormat('underline'); }}
-          className="p-2.5 hover:bg-purple-50 rounded-lg transition-colors group"
-          title="Underline"
-        >
-          <svg className="w-4 h-4 text-gray-600 group-hover:text-purple-600" fill="currentColor" viewBox="0 0 20 20">
-            <path d="M4 18h12v2H4v-2zM6 4v6a4 4 0 008 0V4h2v6a6 6 0 01-12 0V4h2z" />
-          </svg>
-        </button>
+          <option value="">Does not repeat</option>
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="MONTHLY">Monthly</option>
+          <option value="YEARLY">Yearly</option>
+        </select>
+
+        {recurrence && (
+          <div className="p-4 bg-white/50 rounded-xl border border-gray-200 space-y-4">
+            <div className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Every</span>
+              <input
+                type="number"
+                min={1}
+                value={recurrence.interval}
+                onChange={(e) => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className="w-20 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span>{unit}{recurrence.interval > 1 ? 's' : ''}</span>
+            </div>
+
+            {recurrence.freq === 'WEEKLY' && (
+              <div className="flex space-x-1">
+                {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((label, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-9 h-9 rounded-full text-sm font-medium transition-colors ${
+                      recurrence.byWeekday?.includes(day)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2 text-sm text-gray-700">
+              <p className="font-medium">Ends</p>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={endMode === 'never'}
+                  onChange={() => updateRecurrence({ until: undefined, count: undefined })}
+                />
+                <span>Never</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={endMode === 'until'}
+                  onChange={() => updateRecurrence({ count: undefined, until: new Date(`${endDate}T00:00:00`) })}
+                />
+                <span>On</span>
+                <input
+                  type="date"
+                  value={recurrence.until ? format(recurrence.until, 'yyyy-MM-dd') : ''}
+                  disabled={endMode !== 'until'}
+                  onChange={(e) => e.target.value && updateRecurrence({ until: new Date(`${e.target.value}T00:00:00`) })}
+                  className="px-3 py-1.5 border border-gray-200 rounded-lg disabled:bg-gray-50 disabled:text-gray-400"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  checked={endMode === 'count'}
+                  onChange={() => updateRecurrence({ until: undefined, count: 10 })}
+                />
+                <span>After</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={recurrence.count || ''}
+                  disabled={endMode !== 'count'}
+                  onChange={(e) => updateRecurrence({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="w-20 px-3 py-1.5 border border-gray-200 rounded-lg disabled:bg-gray-50 disabled:text-gray-400"
+                />
+                <span>occurrences</span>
+              </label>
+            </div>
+
+            <div className="space-y-2 text-sm text-gray-700">
+              <p className="font-medium">Exceptions</p>
+              {recurrence.exdates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {recurrence.exdates.map((exdate, index) => (
+                    <span key={exdate.toISOString()} className="inline-flex items-center space-x-1 px-2 py-1 bg-gray-100 rounded-full text-xs">
+                      <span>{format(exdate, 'MMM d, yyyy')}</span>
+                      <button
+                        type="button"
+                        onClick={() => updateRecurrence({ exdates: recurrence.exdates.filter((_, i) => i !== index) })}
+                        className="text-gray-500 hover:text-red-600"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={exceptionDate}
+                  onChange={(e) => setExceptionDate(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-200 rounded-lg"
+                />
+                <button
+                  type="button"
+                  onClick={addException}
+                  disabled={!exceptionDate}
+                  className="px-3 py-1.5 text-blue-600 font-medium rounded-lg border border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+                >
+                  Skip date
+                </button>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">{describeRecurrence(recurrence)}</p>
+          </div>
+        )}
       </div>
     );
   };
 
+  const addReminder = (minutes: number) => {
+    if (reminders.includes(minutes)) return;
+    setReminders(prev => [...prev, minutes].sort((a, b) => a - b));
+    reminderService.requestPermission().then(granted => {
+      if (!granted) {
+        console.log('Browser notifications unavailable, reminders will only show in the app');
+      }
+    });
+  };
+
+  const renderReminderEditor = () => (
+    <div className="space-y-3">
+      <label className="text-sm font-medium text-gray-700 flex items-center space-x-2">
+        <svg className="w-4 h-4 text-yellow-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        <span>Reminders</span>
+      </label>
+      {reminders.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {reminders.map(minutes => (
+            <span key={minutes} className="inline-flex items-center space-x-1 px-3 py-1 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-full text-sm">
+              <span>{formatReminderOffset(minutes)}</span>
+              <button
+                type="button"
+                onClick={() => setReminders(prev => prev.filter(m => m !== minutes))}
+                className="text-yellow-600 hover:text-red-600"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <select
+        value=""
+        onChange={(e) => e.target.value && addReminder(Number(e.target.value))}
+        className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white/50"
+      >
+        <option value="">Add reminder...</option>
+        {REMINDER_PRESETS.filter(minutes => !reminders.includes(minutes)).map(minutes => (
+          <option key={minutes} value={minutes}>{formatReminderOffset(minutes)}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   const renderEventEditor = () => (
     <div className="h-full flex flex-col bg-gradient-to-br from-blue-50 to-white">
       {/* Modern Header */}
@@ -1122,6 +1343,34 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
             )}
           </div>
 
+          {/* Recurrence */}
+          {renderRecurrenceEditor()}
+
+          {/* Reminders */}
+          {renderReminderEditor()}
+
+          {/* Calendar Selector */}
+          {calendars.length > 1 && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium text-gray-700 flex items-center space-x-2">
+                <span
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: calendars.find(c => c.id === calendarId)?.color }}
+                />
+                <span>Calendar</span>
+              </label>
+              <select
+                value={calendarId}
+                onChange={(e) => setCalendarId(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 bg-white/50"
+              >
+                {calendars.map(calendar => (
+                  <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Priority Selector */}
           <div className="space-y-3">
             <label className="text-sm font-medium text-gray-700 flex items-center space-x-2">
@@ -1185,6 +1434,17 @@ const EditorPanel: React.FC<EditorPanelProps> = ({ user, event, selectedDate, on
           </div>
         </div>
       </form>
+
+      {showScopeDialog && (
+        <RecurrenceScopeDialog
+          action="edit"
+          onSelect={(scope) => {
+            setShowScopeDialog(false);
+            saveItem(scope);
+          }}
+          onCancel={() => setShowScopeDialog(false)}
+        />
+      )}
     </div>
   );
 
@@ -17,6 +17,12 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
   const buttonRef = useRef<HTMLButtonElement>(null);
   const isNote = event.resource?.isNote;
   const priority = event.resource?.priority || 'medium';
+  // Events are drawn in the color of their calendar or feed; feed events can't be edited or deleted
+  const isFeedEvent = !!event.resource?.feedId;
+  const color = event.resource?.color;
+  const colorStyle = color
+    ? { backgroundColor: `${color}1a`, borderColor: color, color: '#1f2937' }
+    : undefined;
   
   useEffect(() => {
     if (showMenu && buttonRef.current) {
@@ -38,6 +44,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
   };
 
   const getEventColor = () => {
+    if (color) return '';
     if (isNote) return 'border-purple-200 bg-purple-50 text-purple-700';
     return 'border-blue-200 bg-blue-50 text-blue-700';
   };
@@ -51,12 +58,16 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
           onClick();
         }}
         className={`group p-2 rounded text-xs cursor-pointer transition-all duration-200 border hover:shadow-sm relative ${
-          isNote ? getEventColor() : getPriorityColor()
+          isNote || color ? getEventColor() : getPriorityColor()
         }`}
+        style={colorStyle}
       >
         <div className="flex items-center justify-between">
           <span className="truncate flex-1 font-medium">{event.title}</span>
-          <div className="relative">
+          {!isNote && event.resource?.syncedToGoogle === false && (
+            <span className="ml-1 opacity-75" title="Waiting to be saved to Google Calendar">⏳</span>
+          )}
+          <div className={`relative ${isFeedEvent ? 'hidden' : ''}`}>
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -105,8 +116,9 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
     <div
       onClick={onClick}
       className={`group p-3 rounded-lg cursor-pointer transition-all duration-200 border shadow-sm hover:shadow-md relative ${
-        isNote ? getEventColor() : getPriorityColor()
+        isNote || color ? getEventColor() : getPriorityColor()
       }`}
+      style={colorStyle}
     >
       <div className="flex items-start justify-between">
         <div className="flex-1 min-w-0">
@@ -123,7 +135,12 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
               <span>{format(event.start, 'HH:mm')} - {format(event.end, 'HH:mm')}</span>
             )}
             {!isNote && event.allDay && <span>All day</span>}
-            {priority !== 'medium' && !isNote && (
+            {!isNote && event.resource?.recurrence && <span>↻ Repeats</span>}
+            {!isNote && event.resource?.syncedToGoogle === false && (
+              <span title="Waiting to be saved to Google Calendar">⏳ Sync pending</span>
+            )}
+            {isFeedEvent && <span>🔒 Read-only</span>}
+            {priority !== 'medium' && !isNote && !isFeedEvent && (
               <span className="capitalize">• {priority} priority</span>
             )}
             {isNote && (
@@ -132,7 +149,7 @@ const EventCard: React.FC<EventCardProps> = ({ event, onClick, onDelete, compact
           </div>
         </div>
         
-        <div className="relative">
+        <div className={`relative ${isFeedEvent ? 'hidden' : ''}`}>
           <button
             onClick={(e) => {
               e.stopPropagation();
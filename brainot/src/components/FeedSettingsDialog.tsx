@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CalendarFeed } from '../types';
+import { FEED_COLORS } from '../services/feedService';
+
+interface FeedSettingsDialogProps {
+  feeds: CalendarFeed[];
+  onAdd: (feed: { name: string; url: string; color: string }) => Promise<void>;
+  onUpdate: (feed: CalendarFeed, changes: Partial<Pick<CalendarFeed, 'name' | 'color' | 'visible'>>) => void;
+  onRefresh: (feed: CalendarFeed) => Promise<void>;
+  onRemove: (feed: CalendarFeed) => void;
+  onClose: () => void;
+}
+
+const FeedSettingsDialog: React.FC<FeedSettingsDialogProps> = ({ feeds, onAdd, onUpdate, onRefresh, onRemove, onClose }) => {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [color, setColor] = useState(FEED_COLORS[feeds.length % FEED_COLORS.length]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setIsAdding(true);
+    try {
+      await onAdd({ name: name.trim() || 'Subscribed calendar', url: url.trim(), color });
+      setName('');
+      setUrl('');
+      setColor(FEED_COLORS[(feeds.length + 1) % FEED_COLORS.length]);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRefresh = async (feed: CalendarFeed) => {
+    setRefreshingId(feed.id);
+    try {
+      await onRefresh(feed);
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const renderColorPicker = (selected: string, onChange: (color: string) => void) => (
+    <div className="flex space-x-1">
+      {FEED_COLORS.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={`w-5 h-5 rounded-full border-2 ${selected === option ? 'border-gray-900' : 'border-transparent'}`}
+          style={{ backgroundColor: option }}
+          title={option}
+        />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Calendar feeds</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Subscribed ICS feeds are shown read-only next to your own events and refreshed every hour.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {feeds.length === 0 && (
+            <p className="text-sm text-gray-500">No feeds yet.</p>
+          )}
+          {feeds.map(feed => (
+            <div key={feed.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 min-w-0">
+                  <input
+                    type="checkbox"
+                    checked={feed.visible}
+                    onChange={(e) => onUpdate(feed, { visible: e.target.checked })}
+                    className="rounded focus:ring-blue-500"
+                    style={{ accentColor: feed.color }}
+                    title="Show in calendar"
+                  />
+                  <span className="text-sm font-medium text-gray-900 truncate">{feed.name}</span>
+                </label>
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleRefresh(feed)}
+                    disabled={refreshingId === feed.id}
+                    className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    {refreshingId === feed.id ? 'Refreshing...' : 'Refresh'}
+                  </button>
+                  <button onClick={() => onRemove(feed)} className="text-xs text-red-600 hover:text-red-800">
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400 truncate mt-1">{feed.url}</p>
+              <div className="flex items-center justify-between mt-2">
+                {renderColorPicker(feed.color, color => onUpdate(feed, { color }))}
+                <span className={`text-xs ${feed.lastError ? 'text-red-600' : 'text-gray-500'}`}>
+                  {feed.lastError
+                    ? feed.lastError
+                    : feed.lastFetchedAt
+                      ? `${feed.events.length} events · updated ${formatDistanceToNow(feed.lastFetchedAt, { addSuffix: true })}`
+                      : 'Not loaded yet'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-2 mt-4 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-700">Add feed</h4>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Public holidays"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/calendar.ics"
+            pattern="(https?|webcal)://.+"
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex items-center justify-between">
+            {renderColorPicker(color, setColor)}
+            <button
+              type="submit"
+              disabled={isAdding || !url.trim()}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isAdding ? 'Adding...' : 'Subscribe'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default FeedSettingsDialog;
@@ -1,31 +1,54 @@
 import React, { useState, useEffect } from 'react';
 import { signOut } from 'firebase/auth';
 import { auth } from '../firebase';
-import { User } from '../types';
-import { googleCalendarService } from '../services/googleCalendarService';
+import { MyEvent, User } from '../types';
+import { googleTokenManager, GoogleConnectionState } from '../services/googleTokenManager';
+import { preferencesService } from '../services/preferencesService';
+import { DATE_LOCALES, DateLocaleId } from '../utils/dateLocales';
+import SearchBar from './SearchBar';
 import toast from 'react-hot-toast';
 
 interface HeaderProps {
   user: User;
   onSyncCalendar?: () => void;
+  conflictCount?: number;
+  onShowConflicts?: () => void;
+  onOpenImportExport?: () => void;
+  onOpenFeeds?: () => void;
+  onOpenAiSettings?: () => void;
+  onOpenPromptTemplates?: () => void;
+  onQuickAdd?: () => void;
+  searchItems?: MyEvent[];
+  onSearchResultSelect?: (item: MyEvent) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
+const Header: React.FC<HeaderProps> = ({
+  user,
+  onSyncCalendar,
+  conflictCount = 0,
+  onShowConflicts,
+  onOpenImportExport,
+  onOpenFeeds,
+  onOpenAiSettings,
+  onOpenPromptTemplates,
+  onQuickAdd,
+  searchItems,
+  onSearchResultSelect
+}) => {
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [hasCalendarAccess, setHasCalendarAccess] = useState(true); // Assume true initially
+  const [calendarAccess, setCalendarAccess] = useState<GoogleConnectionState>(googleTokenManager.getState());
+  const [dateLocale, setDateLocale] = useState<DateLocaleId>(preferencesService.getDateLocale());
 
-  // Check calendar permission on mount
+  // Show the connect button whenever the Google token is missing or has expired
   useEffect(() => {
-    const checkCalendarPermission = async () => {
-      // Hide sync button for now - Google OAuth needs proper setup
-      setHasCalendarAccess(true);
-    };
-    checkCalendarPermission();
+    setCalendarAccess(googleTokenManager.getState());
+    return googleTokenManager.subscribe(setCalendarAccess);
   }, []);
 
   const handleLogout = async () => {
     try {
+      googleTokenManager.disconnect();
       await signOut(auth);
       toast.success('Logged out successfully');
     } catch (error) {
@@ -34,13 +57,16 @@ const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
     }
   };
 
+  const handleDateLocaleChange = (locale: DateLocaleId) => {
+    preferencesService.setDateLocale(locale);
+    setDateLocale(locale);
+  };
+
   const handleGoogleCalendarSync = async () => {
     console.log('=== Working Google Calendar Sync Started ===');
     setIsSyncing(true);
     try {
-      // Check if user has Google Calendar access token
-      const hasToken = localStorage.getItem('googleAccessToken');
-      if (!hasToken) {
+      if (!googleTokenManager.isConnected() && !(await googleTokenManager.connect())) {
         throw new Error('Google Calendar not connected');
       }
       
@@ -52,7 +78,6 @@ const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
       
       console.log('=== Sync Success ===');
       toast.success('Calendar synced successfully');
-      setHasCalendarAccess(true);
     } catch (error: any) {
       console.error('=== Sync Error ===');
       console.error('Error:', error);
@@ -76,8 +101,39 @@ const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
             <h1 className="text-xl font-bold text-gray-900">BrainNot</h1>
           </div>
 
+          {searchItems && onSearchResultSelect && (
+            <SearchBar items={searchItems} onSelect={onSearchResultSelect} />
+          )}
+
           <div className="flex items-center space-x-4">
-            {!hasCalendarAccess && (
+            {onQuickAdd && (
+              <button
+                onClick={onQuickAdd}
+                title="Quick add (Ctrl+K)"
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 bg-primary-600 text-white hover:bg-primary-700"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                <span className="hidden sm:inline">Quick add</span>
+              </button>
+            )}
+
+            {conflictCount > 0 && (
+              <button
+                onClick={onShowConflicts}
+                className="flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                <span className="hidden sm:inline">
+                  {conflictCount} sync conflict{conflictCount === 1 ? '' : 's'}
+                </span>
+              </button>
+            )}
+
+            {calendarAccess !== 'connected' && (
               <button
                 onClick={handleGoogleCalendarSync}
                 disabled={isSyncing}
@@ -94,7 +150,7 @@ const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
                   </svg>
                 )}
                 <span className="hidden sm:inline">
-                  {isSyncing ? 'Syncing...' : 'Connect Google Calendar'}
+                  {isSyncing ? 'Syncing...' : calendarAccess === 'expired' ? 'Reconnect Google Calendar' : 'Connect Google Calendar'}
                 </span>
               </button>
             )}
@@ -119,11 +175,67 @@ const Header: React.FC<HeaderProps> = ({ user, onSyncCalendar }) => {
               </button>
 
               {isProfileOpen && (
-                <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50">
+                <div className="absolute right-0 mt-2 w-64 bg-white rounded-md shadow-lg border border-gray-200 py-1 z-50">
                   <div className="px-4 py-2 border-b border-gray-100">
                     <p className="text-sm font-medium text-gray-900">{user.displayName}</p>
                     <p className="text-xs text-gray-500">{user.email}</p>
                   </div>
+                  {onOpenFeeds && (
+                    <button
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        onOpenFeeds();
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                    >
+                      Calendar feeds
+                    </button>
+                  )}
+                  {onOpenImportExport && (
+                    <button
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        onOpenImportExport();
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                    >
+                      Import / export .ics
+                    </button>
+                  )}
+                  {onOpenAiSettings && (
+                    <button
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        onOpenAiSettings();
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                    >
+                      AI settings
+                    </button>
+                  )}
+                  {onOpenPromptTemplates && (
+                    <button
+                      onClick={() => {
+                        setIsProfileOpen(false);
+                        onOpenPromptTemplates();
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors duration-200"
+                    >
+                      AI prompts
+                    </button>
+                  )}
+                  <div className="px-4 py-2 border-t border-gray-100">
+                    <label className="block text-xs font-medium text-gray-500 mb-1">Date format</label>
+                    <select
+                      value={dateLocale}
+                      onChange={(e) => handleDateLocaleChange(e.target.value as DateLocaleId)}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {DATE_LOCALES.map(locale => (
+                        <option key={locale.id} value={locale.id}>{locale.label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <button
                     onClick={handleLogout}
                     className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors duration-200"
@@ -0,0 +1,135 @@
+import React, { useState, useRef } from 'react';
+import { format, startOfMonth, endOfMonth, startOfDay, endOfDay } from 'date-fns';
+import { IcsExportOptions, IcsImportSummary } from '../services/icsService';
+
+interface IcsDialogProps {
+  currentDate: Date;
+  onExport: (options: IcsExportOptions) => void;
+  onImport: (file: File) => Promise<IcsImportSummary | null>;
+  onClose: () => void;
+}
+
+const IcsDialog: React.FC<IcsDialogProps> = ({ currentDate, onExport, onImport, onClose }) => {
+  const [exportAll, setExportAll] = useState(true);
+  const [fromDate, setFromDate] = useState(format(startOfMonth(currentDate), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(endOfMonth(currentDate), 'yyyy-MM-dd'));
+  const [includeNotes, setIncludeNotes] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<IcsImportSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    onExport(exportAll
+      ? { includeNotes }
+      : {
+          from: startOfDay(new Date(`${fromDate}T00:00:00`)),
+          to: endOfDay(new Date(`${toDate}T00:00:00`)),
+          includeNotes
+        });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportSummary(null);
+    try {
+      setImportSummary(await onImport(file));
+    } finally {
+      setIsImporting(false);
+      e.target.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Import / export calendar</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-gray-700">Export to .ics</h4>
+          <div className="flex space-x-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" checked={exportAll} onChange={() => setExportAll(true)} className="text-blue-600 focus:ring-blue-500" />
+              <span>Everything</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="radio" checked={!exportAll} onChange={() => setExportAll(false)} className="text-blue-600 focus:ring-blue-500" />
+              <span>Date range</span>
+            </label>
+          </div>
+          {!exportAll && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="date"
+                value={toDate}
+                min={fromDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeNotes}
+              onChange={(e) => setIncludeNotes(e.target.checked)}
+              className="rounded text-blue-600 focus:ring-blue-500"
+            />
+            <span>Include notes (as journal entries)</span>
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={!exportAll && (!fromDate || !toDate || toDate < fromDate)}
+            className="w-full px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Download .ics
+          </button>
+        </div>
+
+        <div className="space-y-3 mt-6 pt-6 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-700">Import from .ics</h4>
+          <p className="text-xs text-gray-500">
+            Events and journal entries become events and notes. Items imported before are updated instead of duplicated.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="w-full px-4 py-2 text-gray-700 font-medium rounded-lg border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            {isImporting ? 'Importing...' : 'Choose .ics file'}
+          </button>
+          {importSummary && (
+            <p className="text-sm text-gray-600">
+              {importSummary.created} created · {importSummary.updated} updated · {importSummary.skipped} unchanged or skipped
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IcsDialog;
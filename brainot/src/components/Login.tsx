@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth';
 import { auth, googleProvider } from '../firebase';
+import { googleTokenManager } from '../services/googleTokenManager';
 import toast from 'react-hot-toast';
 
 const Login = () => {
@@ -17,7 +18,7 @@ const Login = () => {
       const accessToken = credential?.accessToken;
 
       if (accessToken) {
-        sessionStorage.setItem('google_access_token', accessToken);
+        googleTokenManager.setToken(accessToken);
         console.log('Google Access Token saved for Calendar sync');
       }
       
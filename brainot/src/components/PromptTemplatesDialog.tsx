@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { AiPromptTemplate, AiTemplateOutput } from '../types';
+import { TEMPLATE_OUTPUT_LABELS } from '../services/promptTemplateService';
+import { PROMPT_PLACEHOLDERS } from '../services/aiService';
+
+type TemplateChanges = Partial<Omit<AiPromptTemplate, 'id'>>;
+
+interface PromptTemplatesDialogProps {
+  templates: AiPromptTemplate[];
+  onCreate: (template: Omit<AiPromptTemplate, 'id'>) => Promise<void>;
+  onUpdate: (template: AiPromptTemplate, changes: TemplateChanges) => void;
+  onDelete: (template: AiPromptTemplate) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const OUTPUT_OPTIONS = Object.entries(TEMPLATE_OUTPUT_LABELS) as [AiTemplateOutput, string][];
+
+const PromptTemplatesDialog: React.FC<PromptTemplatesDialogProps> = ({ templates, onCreate, onUpdate, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [output, setOutput] = useState<AiTemplateOutput>('replace');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !prompt.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await onCreate({ name: name.trim(), prompt: prompt.trim(), output });
+      setName('');
+      setPrompt('');
+      setOutput('replace');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Text fields are saved when they lose focus, and only if they changed
+  const handleTextChange = (template: AiPromptTemplate, field: 'name' | 'prompt', value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed === template[field]) return;
+    onUpdate(template, { [field]: trimmed });
+  };
+
+  const renderOutputSelect = (value: AiTemplateOutput, onChange: (output: AiTemplateOutput) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as AiTemplateOutput)}
+      className={inputClassName}
+    >
+      {OUTPUT_OPTIONS.map(([option, label]) => (
+        <option key={option} value={option}>{label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">AI prompts</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Your prompts appear in the AI menus next to the built-in actions. Use{' '}
+          {PROMPT_PLACEHOLDERS.map((placeholder, index) => (
+            <React.Fragment key={placeholder}>
+              {index > 0 && ', '}
+              <code className="text-xs bg-gray-100 px-1 rounded">{`{{${placeholder}}}`}</code>
+            </React.Fragment>
+          ))}{' '}
+          to fill in the selected text, the whole note, its title and its date.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {templates.length === 0 && (
+            <p className="text-sm text-gray-500">No prompts yet.</p>
+          )}
+          {templates.map(template => (
+            <div key={template.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  defaultValue={template.name}
+                  onBlur={(e) => handleTextChange(template, 'name', e.target.value)}
+                  className={`${inputClassName} font-medium`}
+                />
+                <button
+                  onClick={() => onDelete(template)}
+                  className="text-xs text-red-600 hover:text-red-800 flex-shrink-0"
+                >
+                  Delete
+                </button>
+              </div>
+              <textarea
+                defaultValue={template.prompt}
+                onBlur={(e) => handleTextChange(template, 'prompt', e.target.value)}
+                rows={3}
+                className={`${inputClassName} resize-y`}
+              />
+              {renderOutputSelect(template.output, value => onUpdate(template, { output: value }))}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-2 mt-4 pt-4 border-t border-gray-200">
+          <h4 className="text-sm font-medium text-gray-700">New prompt</h4>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Action items"
+            required
+            className={inputClassName}
+          />
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={'List the action items in this note as a checklist:\n\n{{selection}}'}
+            rows={3}
+            required
+            className={`${inputClassName} resize-y`}
+          />
+          <div className="flex items-center space-x-2">
+            {renderOutputSelect(output, setOutput)}
+            <button
+              type="submit"
+              disabled={isCreating || !name.trim() || !prompt.trim()}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex-shrink-0"
+            >
+              {isCreating ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesDialog;
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { format, isSameDay } from 'date-fns';
+import { parseQuickAdd, QuickAddEvent } from '../utils/dateDetection';
+import { aiService } from '../services/aiService';
+import { preferencesService } from '../services/preferencesService';
+
+interface QuickAddBarProps {
+  onSave: (event: QuickAddEvent) => Promise<void>;
+  onClose: () => void;
+}
+
+// Pause in typing before an unsure parse is sent to the AI provider
+const AI_FALLBACK_DELAY_MS = 800;
+
+const priorityStyles = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-blue-100 text-blue-700',
+  low: 'bg-green-100 text-green-700'
+};
+
+const describeWhen = (event: QuickAddEvent) => {
+  if (event.allDay) return `${format(event.start, 'EEE, MMM d, yyyy')} · All day`;
+  const endFormat = isSameDay(event.start, event.end) ? 'HH:mm' : 'EEE, MMM d, HH:mm';
+  return `${format(event.start, 'EEE, MMM d, yyyy')} · ${format(event.start, 'HH:mm')} – ${format(event.end, endFormat)}`;
+};
+
+const QuickAddBar: React.FC<QuickAddBarProps> = ({ onSave, onClose }) => {
+  const [text, setText] = useState('');
+  const [aiResult, setAiResult] = useState<{ text: string; event: QuickAddEvent } | null>(null);
+  const [aiLoading, setAiLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const parsed = useMemo(
+    () => (text.trim() ? parseQuickAdd(text, { locale: preferencesService.getDateLocale() }) : null),
+    [text]
+  );
+  // The AI's answer only applies to the exact text it was asked about
+  const preview = aiResult && aiResult.text === text ? aiResult.event : parsed;
+  const fromAi = !!aiResult && aiResult.text === text;
+
+  // Ask the AI provider when the rules are unsure and the user stops typing
+  useEffect(() => {
+    if (!parsed || parsed.confident || !aiService.isConfigured()) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setAiLoading(true);
+      try {
+        const event = await aiService.parseEvent(text);
+        if (!cancelled && event) setAiResult({ text, event });
+      } catch (error) {
+        console.error('AI quick add fallback failed:', error);
+      } finally {
+        if (!cancelled) setAiLoading(false);
+      }
+    }, AI_FALLBACK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setAiLoading(false);
+    };
+  }, [text, parsed]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preview || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(preview);
+      onClose();
+    } catch {
+      // onSave already reported the error; stay open so the user can retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 pt-24"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl w-full max-w-xl mx-4 overflow-hidden">
+        <input
+          ref={inputRef}
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder='e.g. "Design review with Ana next Tuesday 3-4pm high priority"'
+          className="w-full px-5 py-4 text-base border-b border-gray-200 focus:outline-none"
+        />
+
+        <div className="px-5 py-4 min-h-[88px]">
+          {!preview ? (
+            <p className="text-sm text-gray-500">
+              Type an event with a date, time, duration or priority. Press Enter to add it.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between space-x-2">
+                <h4 className="text-base font-semibold text-gray-900 truncate">{preview.title}</h4>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full capitalize ${priorityStyles[preview.priority]}`}>
+                  {preview.priority}
+                </span>
+              </div>
+              <p className="text-sm text-gray-700">{describeWhen(preview)}</p>
+              <p className="text-xs text-gray-500">
+                {aiLoading
+                  ? 'Not sure about this one, asking AI...'
+                  : fromAi
+                    ? '✨ Parsed with AI'
+                    : preview.confident
+                      ? 'Press Enter to add'
+                      : 'Best guess, check the date and time before adding'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 px-5 py-3 bg-gray-50 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!preview || isSaving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Adding...' : 'Add event'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default QuickAddBar;
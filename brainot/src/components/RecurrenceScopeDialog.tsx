@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { RecurrenceScope } from '../utils/recurrence';
+
+interface RecurrenceScopeDialogProps {
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+const scopeOptions: { value: RecurrenceScope; label: string }[] = [
+  { value: 'this', label: 'This event' },
+  { value: 'following', label: 'This and following events' },
+  { value: 'all', label: 'All events' }
+];
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({ action, onSelect, onCancel }) => {
+  const [scope, setScope] = useState<RecurrenceScope>('this');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-sm mx-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          {action === 'edit' ? 'Edit recurring event' : 'Delete recurring event'}
+        </h3>
+
+        <div className="space-y-2">
+          {scopeOptions.map(option => (
+            <label key={option.value} className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+              <input
+                type="radio"
+                name="recurrence-scope"
+                value={option.value}
+                checked={scope === option.value}
+                onChange={() => setScope(option.value)}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">{option.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex space-x-3 mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors rounded-lg border border-gray-300 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(scope)}
+            className={`flex-1 px-4 py-2 text-white font-medium rounded-lg transition-colors ${
+              action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeDialog;
@@ -0,0 +1,411 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import toast from 'react-hot-toast';
+import {
+  RichTextDocument,
+  DocSelection,
+  BlockType,
+  MarkType,
+  documentToHtml,
+  documentToMarkdown,
+  readDocument,
+  domPointToPosition,
+  positionToDomPoint,
+  isCollapsed,
+  isEmptyDocument,
+  isBlockType,
+  selectionHasMark,
+  selectionLink,
+  toggleMark,
+  setLink,
+  safeHref,
+  setBlockType,
+  toggleChecked,
+  applyMarkdownShortcut
+} from '../utils/richText';
+import { decorateDates, readDateDecoration, DATE_DECORATION_CLASS } from '../utils/dateDecorations';
+import { DetectedDate } from '../utils/dateDetection';
+import { preferencesService } from '../services/preferencesService';
+import { AiAction } from '../services/aiService';
+import { AiPromptTemplate } from '../types';
+
+interface RichTextEditorProps {
+  document: RichTextDocument;
+  onChange: (document: RichTextDocument) => void;
+  onDateClick?: (date: Pick<DetectedDate, 'start' | 'end' | 'hasTime'>, rect: DOMRect) => void;
+  onAiAction?: (command: AiAction | AiPromptTemplate, selection: DocSelection) => void;   // adds AI actions to the selection toolbar
+  aiTemplates?: AiPromptTemplate[];   // the user's own prompts, listed after the built-in actions
+  placeholder?: string;
+}
+
+// Pause in typing before dates are looked for again
+const DATE_DECORATION_DELAY_MS = 500;
+
+const blockButtons: { label: string; title: string; type: BlockType; level?: 1 | 2 | 3 }[] = [
+  { label: 'H1', title: 'Heading 1', type: 'heading', level: 1 },
+  { label: 'H2', title: 'Heading 2', type: 'heading', level: 2 },
+  { label: 'H3', title: 'Heading 3', type: 'heading', level: 3 },
+  { label: '•', title: 'Bulleted list', type: 'bulletItem' },
+  { label: '1.', title: 'Numbered list', type: 'orderedItem' },
+  { label: '☑', title: 'Checklist', type: 'checkItem' },
+  { label: '❝', title: 'Quote', type: 'blockquote' },
+  { label: '</>', title: 'Code block', type: 'codeBlock' }
+];
+
+const markButtons: { label: React.ReactNode; title: string; type: Exclude<MarkType, 'link'> }[] = [
+  { label: <span className="font-bold">B</span>, title: 'Bold (Ctrl+B)', type: 'bold' },
+  { label: <span className="italic">I</span>, title: 'Italic (Ctrl+I)', type: 'italic' },
+  { label: <span className="underline">U</span>, title: 'Underline (Ctrl+U)', type: 'underline' },
+  { label: <span className="line-through">S</span>, title: 'Strikethrough', type: 'strike' },
+  { label: <span className="font-mono text-xs">{'<>'}</span>, title: 'Inline code', type: 'code' }
+];
+
+const aiActions: { action: AiAction; label: string }[] = [
+  { action: 'summarize', label: 'Summarize' },
+  { action: 'grammar', label: 'Fix Grammar' },
+  { action: 'improve', label: 'Improve Writing' },
+  { action: 'expand', label: 'Expand Text' },
+  { action: 'professional', label: 'Make Professional' }
+];
+
+const shortcutMarks: Record<string, Exclude<MarkType, 'link'>> = { b: 'bold', i: 'italic', u: 'underline' };
+
+// Blocks were added, removed or changed type, so the browser's markup needs normalizing
+const structureChanged = (a: RichTextDocument, b: RichTextDocument) =>
+  a.blocks.length !== b.blocks.length ||
+  a.blocks.some((block, index) =>
+    block.type !== b.blocks[index].type || block.level !== b.blocks[index].level || block.checked !== b.blocks[index].checked);
+
+/**
+ * Editor for note content. The document is the source of truth: formatting commands edit
+ * it and re-render, while plain typing is read back from the DOM without re-rendering,
+ * so the caret isn't disturbed. Dates in the text are decorated once typing pauses.
+ */
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ document, onChange, onDateClick, onAiAction, aiTemplates = [], placeholder }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // The document the DOM currently shows; a different `document` prop means an outside change
+  const renderedRef = useRef<RichTextDocument | null>(null);
+  const decorationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [selection, setSelection] = useState<DocSelection | null>(null);
+  const [toolbarPosition, setToolbarPosition] = useState<{ top: number; left: number } | null>(null);
+  const [showAiMenu, setShowAiMenu] = useState(false);
+
+  const decorate = useCallback(() => {
+    if (editorRef.current) decorateDates(editorRef.current, { locale: preferencesService.getDateLocale() });
+  }, []);
+
+  const readSelection = useCallback((): DocSelection | null => {
+    const editor = editorRef.current;
+    const domSelection = window.getSelection();
+    if (!editor || !domSelection || domSelection.rangeCount === 0) return null;
+    const range = domSelection.getRangeAt(0);
+    if (!editor.contains(range.startContainer) || !editor.contains(range.endContainer)) return null;
+
+    const parsed = readDocument(editor);
+    return {
+      from: domPointToPosition(parsed, range.startContainer, range.startOffset),
+      to: domPointToPosition(parsed, range.endContainer, range.endOffset)
+    };
+  }, []);
+
+  const render = useCallback((next: RichTextDocument, restore?: DocSelection | null) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.innerHTML = documentToHtml(next);
+    renderedRef.current = next;
+
+    if (restore) {
+      const parsed = readDocument(editor);
+      const start = positionToDomPoint(parsed, restore.from);
+      const end = positionToDomPoint(parsed, restore.to);
+      const domSelection = window.getSelection();
+      if (start && end && domSelection) {
+        const range = window.document.createRange();
+        range.setStart(start.node, start.offset);
+        range.setEnd(end.node, end.offset);
+        domSelection.removeAllRanges();
+        domSelection.addRange(range);
+      }
+    }
+    decorate();
+  }, [decorate]);
+
+  // Show documents set from outside: opening a note, AI rewrites, clearing after save
+  useEffect(() => {
+    if (document !== renderedRef.current) render(document);
+  }, [document, render]);
+
+  useEffect(() => () => {
+    if (decorationTimeoutRef.current) clearTimeout(decorationTimeoutRef.current);
+  }, []);
+
+  const commit = useCallback((next: RichTextDocument) => {
+    renderedRef.current = next;
+    onChange(next);
+  }, [onChange]);
+
+  const runCommand = useCallback((command: (current: RichTextDocument, selected: DocSelection) => RichTextDocument, saved?: DocSelection | null) => {
+    const selected = saved || readSelection();
+    if (!selected || !renderedRef.current) return;
+    const next = command(renderedRef.current, selected);
+    render(next, selected);
+    commit(next);
+    setSelection(selected);
+  }, [readSelection, render, commit]);
+
+  const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
+    if ((e.nativeEvent as InputEvent).isComposing) return;
+    const editor = e.currentTarget;
+    const parsed = readDocument(editor);
+    let next = parsed.document;
+    let caret = readSelection();
+
+    const shortcut = caret && isCollapsed(caret) ? applyMarkdownShortcut(next, caret.from) : null;
+    if (shortcut) {
+      next = shortcut.document;
+      caret = { from: shortcut.caret, to: shortcut.caret };
+    }
+    // Enter, Backspace across blocks and pasting leave browser-specific markup behind
+    if (shortcut || (renderedRef.current && structureChanged(renderedRef.current, next))) {
+      render(next, caret);
+    }
+    commit(next);
+
+    if (decorationTimeoutRef.current) clearTimeout(decorationTimeoutRef.current);
+    decorationTimeoutRef.current = setTimeout(decorate, DATE_DECORATION_DELAY_MS);
+  };
+
+  const updateToolbar = useCallback(() => {
+    const selected = readSelection();
+    setSelection(selected);
+    const domSelection = window.getSelection();
+    setShowAiMenu(false);
+    if (!selected || isCollapsed(selected) || !domSelection || domSelection.rangeCount === 0) {
+      setToolbarPosition(null);
+      return;
+    }
+    const rect = domSelection.getRangeAt(0).getBoundingClientRect();
+    const toolbarWidth = onAiAction ? 290 : 240;
+    const left = Math.min(Math.max(rect.left + rect.width / 2 - toolbarWidth / 2, 10), window.innerWidth - toolbarWidth - 10);
+    setToolbarPosition({ top: rect.top - 52 < 10 ? rect.bottom + 10 : rect.top - 52, left });
+  }, [readSelection, onAiAction]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const mark = shortcutMarks[e.key.toLowerCase()];
+    if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && mark) {
+      // Handled on the document instead of by the browser's own formatting
+      e.preventDefault();
+      runCommand((current, selected) => toggleMark(current, selected, mark));
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName !== 'INPUT' || !editorRef.current) return;
+    // Checklist boxes toggle the item in the document rather than the DOM
+    e.preventDefault();
+    const item = target.closest('li');
+    const index = item ? readDocument(editorRef.current).elements.indexOf(item) : -1;
+    if (index === -1 || !renderedRef.current) return;
+    const next = toggleChecked(renderedRef.current, index);
+    render(next, readSelection());
+    commit(next);
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const link = target.closest('a');
+    if (link && (e.ctrlKey || e.metaKey)) {
+      const href = safeHref(link.getAttribute('href') || '');
+      if (href) window.open(href, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    const decoration = target.closest<HTMLElement>(`.${DATE_DECORATION_CLASS}`);
+    const detected = decoration && readDateDecoration(decoration);
+    if (decoration && detected && onDateClick) {
+      e.preventDefault();
+      onDateClick(detected, decoration.getBoundingClientRect());
+    }
+  };
+
+  const handleLink = () => {
+    const saved = readSelection();
+    if (!saved || isCollapsed(saved) || !renderedRef.current) return;
+    const current = selectionLink(renderedRef.current, saved);
+    const input = window.prompt('Link address (leave empty to remove the link)', current || 'https://');
+    if (input === null) return;
+    const trimmed = input.trim();
+    const href = trimmed && trimmed !== 'https://' ? safeHref(trimmed) : null;
+    if (trimmed && trimmed !== 'https://' && !href) {
+      toast.error('Only web, email and relative links are allowed');
+      return;
+    }
+    runCommand((doc, selected) => setLink(doc, selected, href), saved);
+  };
+
+  const handleAiAction = (command: AiAction | AiPromptTemplate) => {
+    const saved = readSelection();
+    setShowAiMenu(false);
+    setToolbarPosition(null);
+    if (saved && !isCollapsed(saved) && onAiAction) onAiAction(command, saved);
+  };
+
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(documentToMarkdown(renderedRef.current || document));
+      toast.success('Copied as Markdown');
+    } catch (error) {
+      console.error('Copying Markdown failed:', error);
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  const activeBlock = selection && renderedRef.current ? renderedRef.current.blocks[selection.from.block] : undefined;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex flex-wrap items-center gap-1 pb-2 border-b border-purple-100">
+        {blockButtons.map(button => (
+          <button
+            key={button.title}
+            type="button"
+            title={button.title}
+            onMouseDown={(e) => {
+              e.preventDefault();
+              runCommand((current, selected) => setBlockType(current, selected, button.type, button.level));
+            }}
+            className={`min-w-[2rem] px-2 py-1 rounded-lg text-sm transition-colors ${
+              activeBlock && isBlockType(activeBlock, button.type, button.level)
+                ? 'bg-purple-100 text-purple-700'
+                : 'text-gray-600 hover:bg-purple-50 hover:text-purple-600'
+            }`}
+          >
+            {button.label}
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={handleCopyMarkdown}
+          className="px-2 py-1 rounded-lg text-xs text-gray-500 hover:bg-purple-50 hover:text-purple-600 transition-colors"
+        >
+          Copy Markdown
+        </button>
+      </div>
+
+      <div className="flex-1 relative">
+        <div
+          ref={editorRef}
+          contentEditable
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onMouseDown={handleMouseDown}
+          onClick={handleClick}
+          onMouseUp={updateToolbar}
+          onKeyUp={updateToolbar}
+          onBlur={() => {
+            // Hide toolbar when editor loses focus
+            setTimeout(() => setToolbarPosition(null), 100);
+          }}
+          className="rich-text absolute inset-0 text-gray-700 border-none outline-none bg-transparent leading-relaxed focus:outline-none p-4 overflow-y-auto"
+          suppressContentEditableWarning={true}
+        />
+        {isEmptyDocument(document) && placeholder && (
+          <div className="absolute top-4 left-4 text-gray-400 pointer-events-none select-none">
+            {placeholder}
+          </div>
+        )}
+      </div>
+
+      {toolbarPosition && selection && renderedRef.current && (
+        <div
+          className="fixed z-50 bg-white border border-gray-200 rounded-xl shadow-xl p-1 flex space-x-1"
+          style={{ top: toolbarPosition.top, left: toolbarPosition.left, animation: 'slideInUp 0.2s ease-out forwards' }}
+        >
+          {markButtons.map(button => (
+            <button
+              key={button.type}
+              type="button"
+              title={button.title}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                runCommand((current, selected) => toggleMark(current, selected, button.type));
+              }}
+              className={`w-8 h-8 rounded-lg text-sm transition-colors ${
+                selectionHasMark(renderedRef.current!, selection, button.type)
+                  ? 'bg-purple-100 text-purple-700'
+                  : 'text-gray-600 hover:bg-purple-50 hover:text-purple-600'
+              }`}
+            >
+              {button.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            title="Link"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              handleLink();
+            }}
+            className={`w-8 h-8 rounded-lg text-sm transition-colors ${
+              selectionLink(renderedRef.current, selection)
+                ? 'bg-purple-100 text-purple-700'
+                : 'text-gray-600 hover:bg-purple-50 hover:text-purple-600'
+            }`}
+          >
+            🔗
+          </button>
+          {onAiAction && (
+            <div className="relative">
+              <button
+                type="button"
+                title="AI actions on the selection"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  setShowAiMenu(!showAiMenu);
+                }}
+                className={`h-8 px-2 rounded-lg text-sm font-medium transition-colors ${
+                  showAiMenu ? 'bg-purple-100 text-purple-700' : 'text-purple-600 hover:bg-purple-50'
+                }`}
+              >
+                AI
+              </button>
+              {showAiMenu && (
+                <div className="absolute right-0 top-10 bg-white border border-gray-200 rounded-xl shadow-xl py-2 min-w-[170px]">
+                  {aiActions.map(item => (
+                    <button
+                      key={item.action}
+                      type="button"
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        handleAiAction(item.action);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      {item.label}
+                    </button>
+                  ))}
+                  {aiTemplates.length > 0 && <div className="my-1 border-t border-gray-100" />}
+                  {aiTemplates.map(template => (
+                    <button
+                      key={template.id}
+                      type="button"
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        handleAiAction(template);
+                      }}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 truncate"
+                    >
+                      {template.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RichTextEditor;
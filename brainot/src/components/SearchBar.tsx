@@ -0,0 +1,170 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { MyEvent } from '../types';
+import { buildSearchIndex, searchEntries, SearchFilters, TextSegment } from '../utils/search';
+
+interface SearchBarProps {
+  items: MyEvent[];
+  onSelect: (item: MyEvent) => void;
+}
+
+const defaultFilters: SearchFilters = { type: 'all', priority: 'all' };
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const renderSegments = (segments: TextSegment[]) =>
+  segments.map((segment, index) =>
+    segment.match
+      ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{segment.text}</mark>
+      : <React.Fragment key={index}>{segment.text}</React.Fragment>
+  );
+
+const SearchBar: React.FC<SearchBarProps> = ({ items, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(defaultFilters);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Stripping HTML is the expensive part, so it only happens when the items change
+  const index = useMemo(() => buildSearchIndex(items), [items]);
+
+  const results = useMemo(() => searchEntries(index, query, {
+    ...filters,
+    ...(fromDate && { from: startOfDay(new Date(`${fromDate}T00:00:00`)) }),
+    ...(toDate && { to: endOfDay(new Date(`${toDate}T00:00:00`)) })
+  }), [index, query, filters, fromDate, toDate]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [results]);
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleSelect = (item: MyEvent) => {
+    setIsOpen(false);
+    onSelect(item);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsOpen(false);
+      e.currentTarget.blur();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(current => Math.min(current + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(current => Math.max(current - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      handleSelect(results[activeIndex].item);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex-1 max-w-md mx-4">
+      <div className="relative">
+        <svg className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search events and notes"
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </div>
+
+      {isOpen && query.trim() && (
+        <div className="absolute left-0 right-0 mt-2 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex flex-wrap items-center gap-2 p-2 border-b border-gray-100">
+            <select
+              value={filters.type}
+              onChange={(e) => setFilters({ ...filters, type: e.target.value as SearchFilters['type'] })}
+              className={selectClassName}
+            >
+              <option value="all">Events &amp; notes</option>
+              <option value="event">Events</option>
+              <option value="note">Notes</option>
+            </select>
+            <select
+              value={filters.priority}
+              onChange={(e) => setFilters({ ...filters, priority: e.target.value as SearchFilters['priority'] })}
+              disabled={filters.type === 'note'}
+              className={selectClassName}
+            >
+              <option value="all">Any priority</option>
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={selectClassName}
+              title="From"
+            />
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className={selectClassName}
+              title="To"
+            />
+          </div>
+
+          <div className="max-h-96 overflow-y-auto py-1">
+            {results.length === 0 && (
+              <p className="px-4 py-3 text-sm text-gray-500">No matches</p>
+            )}
+            {results.map((result, resultIndex) => {
+              const isNote = !!result.item.resource?.isNote;
+              return (
+                <button
+                  key={result.item.id}
+                  onClick={() => handleSelect(result.item)}
+                  onMouseEnter={() => setActiveIndex(resultIndex)}
+                  className={`w-full text-left px-4 py-2 transition-colors duration-200 ${
+                    resultIndex === activeIndex ? 'bg-gray-100' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between space-x-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{renderSegments(result.title)}</span>
+                    <span className={`text-xs flex-shrink-0 ${isNote ? 'text-purple-600' : 'text-blue-600'}`}>
+                      {isNote ? 'Note' : 'Event'} · {format(result.item.start, 'MMM d, yyyy')}
+                    </span>
+                  </div>
+                  {result.snippet.length > 0 && (
+                    <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{renderSegments(result.snippet)}</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { EventSnapshot, SyncConflict } from '../types';
+
+interface SyncConflictsDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, choice: SyncConflict['resolvedWith']) => Promise<void>;
+  onClose: () => void;
+}
+
+const describeSnapshot = (snapshot: EventSnapshot) => {
+  const when = snapshot.allDay
+    ? `${format(snapshot.start, 'MMM d, yyyy')} (all day)`
+    : `${format(snapshot.start, 'MMM d, yyyy HH:mm')} - ${format(snapshot.end, 'HH:mm')}`;
+  return `${when} · ${snapshot.priority} priority`;
+};
+
+const SyncConflictsDialog: React.FC<SyncConflictsDialogProps> = ({ conflicts, onResolve, onClose }) => {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const handleResolve = async (conflict: SyncConflict, choice: SyncConflict['resolvedWith']) => {
+    setResolvingId(conflict.id || null);
+    try {
+      await onResolve(conflict, choice);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderVersion = (label: string, snapshot: EventSnapshot | null, applied: boolean) => (
+    <div className={`flex-1 p-3 rounded-lg border ${applied ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white'}`}>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</span>
+        {applied && <span className="text-xs text-blue-700 font-medium">Applied</span>}
+      </div>
+      {snapshot ? (
+        <>
+          <p className="text-sm font-medium text-gray-900 truncate">{snapshot.title}</p>
+          <p className="text-xs text-gray-600">{describeSnapshot(snapshot)}</p>
+          <p className="text-xs text-gray-400 mt-1">Modified {format(snapshot.updatedAt, 'MMM d, HH:mm')}</p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500 italic">Deleted</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-gray-900">Sync conflicts</h3>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          These events were changed both in BrainNot and in Google Calendar. The most recent change was applied; pick the other version to override it.
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {conflicts.length === 0 && (
+            <p className="text-sm text-gray-500">No conflicts to review.</p>
+          )}
+          {conflicts.map(conflict => (
+            <div key={conflict.id} className="p-4 border border-gray-200 rounded-xl">
+              <div className="flex space-x-3">
+                {renderVersion('BrainNot', conflict.local, conflict.resolvedWith === 'local')}
+                {renderVersion('Google Calendar', conflict.remote, conflict.resolvedWith === 'remote')}
+              </div>
+              <div className="flex justify-end space-x-2 mt-3">
+                <button
+                  onClick={() => handleResolve(conflict, 'local')}
+                  disabled={resolvingId === conflict.id}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Keep BrainNot version
+                </button>
+                <button
+                  onClick={() => handleResolve(conflict, 'remote')}
+                  disabled={resolvingId === conflict.id}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Keep Google version
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsDialog;
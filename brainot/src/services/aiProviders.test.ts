@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiProvider, AiSettings, createAiProvider } from './aiProviders';
+
+vi.mock('../firebase', () => ({ auth: { currentUser: null } }));
+
+const settings = (changes: Partial<AiSettings>): AiSettings => ({
+  provider: 'mock',
+  model: '',
+  baseUrl: '',
+  apiKey: '',
+  ...changes
+});
+
+const collect = async (provider: AiProvider, prompt: string, signal?: AbortSignal) => {
+  const chunks: string[] = [];
+  for await (const chunk of provider.stream(prompt, signal)) chunks.push(chunk);
+  return chunks;
+};
+
+describe('mock provider', () => {
+  const mock = createAiProvider(settings({ provider: 'mock' }));
+  const prompt = 'Fix the grammar.\n\nContext:\nA note\n\nExcerpt:\nthis are the text';
+
+  it('answers with the text the prompt works on', async () => {
+    await expect(mock.generate(prompt)).resolves.toBe('this are the text');
+    await expect(mock.generate('Summarize this.\n\nFirst paragraph.\n\nSecond paragraph.'))
+      .resolves.toBe('First paragraph.\n\nSecond paragraph.');
+  });
+
+  it('streams the same answer word by word', async () => {
+    const chunks = await collect(mock, prompt);
+    expect(chunks).toEqual(['this', ' are', ' the', ' text']);
+    expect(chunks.join('')).toBe(await mock.generate(prompt));
+  });
+
+  it('rejects with an AbortError when aborted before generating', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(mock.generate(prompt, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const reading = (async () => {
+      for await (const chunk of mock.stream(prompt, controller.signal)) {
+        chunks.push(chunk);
+        if (chunks.length === 2) controller.abort();
+      }
+    })();
+    await expect(reading).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['this', ' are']);
+  });
+});
+
+describe('gemini provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('is not configured without the user\'s key', () => {
+    expect(createAiProvider(settings({ provider: 'gemini' })).configured).toBe(false);
+    expect(createAiProvider(settings({ provider: 'gemini', apiKey: 'key' })).configured).toBe(true);
+  });
+
+  it('reads the text of streamed chunks', async () => {
+    const chunk = (text: string) => `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text }] } }] })}\n\n`;
+    const fetchMock = vi.fn(async () => new Response(chunk('Hello') + chunk(', world')));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const gemini = createAiProvider(settings({ provider: 'gemini', apiKey: 'key' }));
+    expect(await collect(gemini, 'Say hello')).toEqual(['Hello', ', world']);
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringContaining('/gemini-2.5-flash:streamGenerateContent?alt=sse'),
+      expect.objectContaining({ headers: expect.objectContaining({ 'x-goog-api-key': 'key' }) })
+    );
+  });
+});
+
+describe('proxy provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('is not configured without an endpoint', async () => {
+    // VITE_AI_PROXY_URL isn't set in tests
+    const proxy = createAiProvider(settings({ provider: 'proxy' }));
+    expect(proxy.configured).toBe(false);
+    await expect(proxy.generate('Say hello')).rejects.toThrow('No endpoint');
+    expect(createAiProvider(settings({ provider: 'proxy', baseUrl: 'https://example.com/ai' })).configured).toBe(true);
+  });
+
+  it('posts the prompt to the endpoint', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ text: 'Hello' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const proxy = createAiProvider(settings({ provider: 'proxy', baseUrl: 'https://example.com/ai' }));
+    await expect(proxy.generate('Say hello')).resolves.toBe('Hello');
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/ai', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ prompt: 'Say hello', stream: false })
+    }));
+  });
+});
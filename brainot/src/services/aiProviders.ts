@@ -0,0 +1,309 @@
+import { auth } from '../firebase';
+
+export type AiProviderId = 'gemini' | 'openai' | 'proxy' | 'mock';
+
+// The provider and model picked in AI settings
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;        // empty for the provider's default
+  baseUrl: string;      // OpenAI-compatible server or proxy endpoint
+  apiKey: string;       // Gemini or OpenAI-compatible key, entered by the user
+}
+
+/**
+ * A text-generation backend. `stream` yields the response a chunk at a time; aborting
+ * `signal` stops either call with an AbortError.
+ */
+export interface AiProvider {
+  readonly configured: boolean;   // false when a key or URL it needs is missing
+  generate(prompt: string, signal?: AbortSignal): Promise<string>;
+  stream(prompt: string, signal?: AbortSignal): AsyncGenerator<string>;
+}
+
+export interface AiProviderInfo {
+  id: AiProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  usesBaseUrl: boolean;
+  usesApiKey: boolean;
+}
+
+export const AI_PROVIDERS: AiProviderInfo[] = [
+  {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Calls the Gemini API from the browser with your API key.',
+    defaultModel: 'gemini-2.5-flash',
+    usesBaseUrl: false,
+    usesApiKey: true
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible server',
+    description: 'Any server with an OpenAI-style /chat/completions endpoint, such as Ollama or llama.cpp.',
+    defaultModel: 'llama3.1',
+    usesBaseUrl: true,
+    usesApiKey: true
+  },
+  {
+    id: 'proxy',
+    label: 'BrainNot backend',
+    description: 'Sends requests through your backend, signed in as you; no key is stored in the browser.',
+    defaultModel: '',
+    usesBaseUrl: true,
+    usesApiKey: false
+  },
+  {
+    id: 'mock',
+    label: 'Mock (offline)',
+    description: 'Answers instantly by echoing the text it was given. For testing without a model.',
+    defaultModel: 'echo',
+    usesBaseUrl: false,
+    usesApiKey: false
+  }
+];
+
+export const getAiProviderInfo = (id: AiProviderId) =>
+  AI_PROVIDERS.find(provider => provider.id === id) || AI_PROVIDERS[0];
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const DEFAULT_AI_PROXY_URL = import.meta.env.VITE_AI_PROXY_URL || '';
+
+// The parts of a Gemini response, or of one streamed chunk, that we read
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+// Likewise for OpenAI-style chat completions; streamed chunks carry `delta` instead of `message`
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string }; delta?: { content?: string } }[];
+}
+
+const ensureOk = async (response: Response, label: string) => {
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${label} API Error:`, response.status, errorText);
+    throw new Error(`${label} API Error: ${response.status}`);
+  }
+};
+
+// The response body as decoded text chunks
+async function* readText(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('The response has no body to stream');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      if (text) yield text;
+    }
+    const rest = decoder.decode();
+    if (rest) yield rest;
+  } finally {
+    // Also stops the download when the caller leaves the loop early
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+// The data of each server-sent event in the response
+async function* readEventData(response: Response): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const text of readText(response)) {
+    buffer += text;
+    // The last line may still be incomplete
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice('data:'.length).trim();
+    }
+  }
+  if (buffer.startsWith('data:')) yield buffer.slice('data:'.length).trim();
+}
+
+class GeminiProvider implements AiProvider {
+  constructor(private model: string, private apiKey: string) {}
+
+  get configured() {
+    return !!this.apiKey;
+  }
+
+  private async request(method: string, prompt: string, signal?: AbortSignal) {
+    if (!this.apiKey) {
+      throw new Error('Gemini API key is missing');
+    }
+    const response = await fetch(`${GEMINI_API_BASE}/${encodeURIComponent(this.model)}:${method}`, {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }]
+      }),
+      signal
+    });
+    await ensureOk(response, 'Gemini');
+    return response;
+  }
+
+  private static text(data: GeminiResponse): string {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || '').join('');
+  }
+
+  async generate(prompt: string, signal?: AbortSignal) {
+    const response = await this.request('generateContent', prompt, signal);
+    const data: GeminiResponse = await response.json();
+    return GeminiProvider.text(data) || 'No response generated';
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal) {
+    const response = await this.request('streamGenerateContent?alt=sse', prompt, signal);
+    for await (const data of readEventData(response)) {
+      const text = GeminiProvider.text(JSON.parse(data) as GeminiResponse);
+      if (text) yield text;
+    }
+  }
+}
+
+class OpenAiCompatibleProvider implements AiProvider {
+  constructor(private model: string, private baseUrl: string, private apiKey: string) {}
+
+  get configured() {
+    return !!this.baseUrl;
+  }
+
+  private async request(prompt: string, stream: boolean, signal?: AbortSignal) {
+    if (!this.baseUrl) {
+      throw new Error('No server URL is set for the OpenAI-compatible provider');
+    }
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream
+      }),
+      signal
+    });
+    await ensureOk(response, 'OpenAI-compatible');
+    return response;
+  }
+
+  async generate(prompt: string, signal?: AbortSignal) {
+    const response = await this.request(prompt, false, signal);
+    const data: ChatCompletionResponse = await response.json();
+    return data.choices?.[0]?.message?.content || 'No response generated';
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal) {
+    const response = await this.request(prompt, true, signal);
+    for await (const data of readEventData(response)) {
+      if (data === '[DONE]') break;
+      const text = (JSON.parse(data) as ChatCompletionResponse).choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+/**
+ * Sends prompts to our own backend, which holds the model credentials. The request is
+ * `POST {prompt, model, stream}` with the user's Firebase ID token; the backend answers
+ * `{text}`, or the plain text as a streamed body when `stream` is set.
+ */
+class ProxyProvider implements AiProvider {
+  constructor(private model: string, private url: string) {}
+
+  get configured() {
+    return !!this.url;
+  }
+
+  private async request(prompt: string, stream: boolean, signal?: AbortSignal) {
+    if (!this.url) {
+      throw new Error('No endpoint is set for the BrainNot backend');
+    }
+    const token = await auth.currentUser?.getIdToken();
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...(token && { Authorization: `Bearer ${token}` }),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ prompt, ...(this.model && { model: this.model }), stream }),
+      signal
+    });
+    await ensureOk(response, 'AI proxy');
+    return response;
+  }
+
+  async generate(prompt: string, signal?: AbortSignal) {
+    const response = await this.request(prompt, false, signal);
+    const data: { text?: string } = await response.json();
+    return data.text || 'No response generated';
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal) {
+    const response = await this.request(prompt, true, signal);
+    yield* readText(response);
+  }
+}
+
+/**
+ * Answers without a model: the reply is the text the prompt works on (its "Excerpt:"
+ * section, or everything after its first blank line), streamed word by word. The same prompt always
+ * gets the same answer.
+ */
+class MockProvider implements AiProvider {
+  readonly configured = true;
+
+  static reply(prompt: string) {
+    const excerpt = prompt.indexOf('\nExcerpt:\n');
+    if (excerpt !== -1) return prompt.slice(excerpt + '\nExcerpt:\n'.length);
+    const body = prompt.indexOf('\n\n');
+    return body === -1 ? prompt : prompt.slice(body + 2);
+  }
+
+  private static checkAborted(signal?: AbortSignal) {
+    if (signal?.aborted) throw new DOMException('The request was aborted', 'AbortError');
+  }
+
+  async generate(prompt: string, signal?: AbortSignal) {
+    MockProvider.checkAborted(signal);
+    return MockProvider.reply(prompt);
+  }
+
+  async *stream(prompt: string, signal?: AbortSignal) {
+    for (const word of MockProvider.reply(prompt).split(/(?=\s)/)) {
+      await Promise.resolve();
+      MockProvider.checkAborted(signal);
+      yield word;
+    }
+  }
+}
+
+export const createAiProvider = (settings: AiSettings): AiProvider => {
+  const model = settings.model.trim() || getAiProviderInfo(settings.provider).defaultModel;
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAiCompatibleProvider(model, settings.baseUrl.trim(), settings.apiKey.trim());
+    case 'proxy':
+      return new ProxyProvider(model, settings.baseUrl.trim() || DEFAULT_AI_PROXY_URL);
+    case 'mock':
+      return new MockProvider();
+    default:
+      return new GeminiProvider(model, settings.apiKey.trim());
+  }
+};
@@ -0,0 +1,118 @@
+import { format, isValid } from 'date-fns';
+import { QuickAddEvent } from '../utils/dateDetection';
+import { AiPromptTemplate } from '../types';
+import { AiProvider, createAiProvider } from './aiProviders';
+import { preferencesService } from './preferencesService';
+
+// The writing actions offered for a note or a selection in it
+export type AiAction = 'summarize' | 'grammar' | 'improve' | 'expand' | 'professional';
+
+const ACTION_INSTRUCTIONS: Record<AiAction, string> = {
+  summarize: 'Please provide a concise summary of the following text',
+  grammar: 'Please fix the grammar and spelling in the following text while maintaining its original meaning and tone',
+  improve: 'Please improve the clarity and flow of the following text while keeping the same meaning',
+  expand: 'Please expand on the following text with more details and examples',
+  professional: 'Please rewrite the following text in a more professional tone'
+};
+
+// With `context`, `text` is an excerpt and only the excerpt's rewrite is asked for
+const writingPrompt = (instruction: string, text: string, context?: string) => {
+  if (!context) return `${instruction}:\n\n${text}`;
+  return `${instruction}. The text is an excerpt from a longer note; the paragraph around it is included only as context. Reply with the result for the excerpt alone, in the same Markdown formatting, without repeating the context.
+
+Context:
+${context}
+
+Excerpt:
+${text}`;
+};
+
+// What the placeholders of a user's prompt template are filled with
+export interface PromptValues {
+  selection: string;   // selected text as Markdown, or the whole note without a selection
+  note: string;        // the whole note as Markdown
+  title: string;
+  date: string;        // the note's date
+}
+
+export const PROMPT_PLACEHOLDERS: (keyof PromptValues)[] = ['selection', 'note', 'title', 'date'];
+
+// Replace {{name}} placeholders; unknown ones are left as written
+export const fillPrompt = (prompt: string, values: PromptValues) =>
+  prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    (PROMPT_PLACEHOLDERS as string[]).includes(name) ? values[name as keyof PromptValues] : placeholder);
+
+/**
+ * Writing help and event parsing on top of the AI provider picked in settings
+ * (Gemini, an OpenAI-compatible server, the backend proxy or the offline mock).
+ */
+export class AiService {
+  private provider(): AiProvider {
+    return createAiProvider(preferencesService.getAiSettings());
+  }
+
+  // Whether the chosen provider has the key or URL it needs
+  isConfigured(): boolean {
+    return this.provider().configured;
+  }
+
+  private async makeRequest(prompt: string): Promise<string> {
+    return this.provider().generate(prompt);
+  }
+
+  // Stream the response to any prompt from the chosen provider; see AiProvider.stream
+  streamRequest(prompt: string, signal?: AbortSignal): AsyncGenerator<string> {
+    return this.provider().stream(prompt, signal);
+  }
+
+  // The result of a writing action, streamed
+  streamAction(action: AiAction, text: string, options: { context?: string; signal?: AbortSignal } = {}): AsyncGenerator<string> {
+    return this.streamRequest(writingPrompt(ACTION_INSTRUCTIONS[action], text, options.context), options.signal);
+  }
+
+  // The result of a user's prompt template, streamed
+  streamTemplate(template: AiPromptTemplate, values: PromptValues, signal?: AbortSignal): AsyncGenerator<string> {
+    return this.streamRequest(fillPrompt(template.prompt, values), signal);
+  }
+
+  /**
+   * Turn a quick-add line into an event, for text the rule-based parser isn't sure about.
+   * Returns null when the response isn't usable.
+   */
+  async parseEvent(text: string, now = new Date()): Promise<QuickAddEvent | null> {
+    const prompt = `Extract a calendar event from the text below. The current local date and time is ${format(now, "yyyy-MM-dd'T'HH:mm")} (${format(now, 'EEEE')}).
+Reply with JSON only, no explanation, in this shape:
+{"title": string, "start": "yyyy-MM-ddTHH:mm", "end": "yyyy-MM-ddTHH:mm", "allDay": boolean, "priority": "low" | "medium" | "high"}
+Use local times without a time zone. Leave dates, times and priority words out of the title. Default to one hour when no end or duration is given, and to "medium" priority.
+
+Text: ${text}`;
+
+    const response = await this.makeRequest(prompt);
+    try {
+      // Models sometimes wrap JSON in a Markdown code fence
+      const json = JSON.parse(response.replace(/^```(?:json)?\s*|\s*```$/g, '').trim());
+      const start = new Date(json.start);
+      const end = new Date(json.end);
+      if (typeof json.title !== 'string' || !isValid(start) || !isValid(end)) return null;
+
+      const allDay = !!json.allDay;
+      if (allDay) {
+        start.setHours(0, 0, 0, 0);
+        end.setHours(23, 59, 59, 0);
+      }
+      return {
+        title: json.title.trim() || text.trim(),
+        start,
+        end: end > start ? end : new Date(start.getTime() + 60 * 60 * 1000),
+        allDay,
+        priority: ['low', 'medium', 'high'].includes(json.priority) ? json.priority : 'medium',
+        confident: true
+      };
+    } catch (error) {
+      console.error('Could not parse AI event response:', response, error);
+      return null;
+    }
+  }
+}
+
+export const aiService = new AiService();
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { collection, addDoc, setDoc, deleteDoc, doc, onSnapshot, writeBatch, deleteField, WriteBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+import { MyEvent, UserCalendar } from '../types';
+
+// Events without a calendarId belong to this calendar; its settings doc is created on first edit
+export const DEFAULT_CALENDAR_ID = 'default';
+
+const FIRESTORE_BATCH_LIMIT = 500;
+
+export const CALENDAR_COLORS = ['#3b82f6', '#ef4444', '#22c55e', '#eab308', '#a855f7', '#f97316', '#06b6d4', '#6b7280'];
+
+const defaultCalendar: UserCalendar = {
+  id: DEFAULT_CALENDAR_ID,
+  name: 'My calendar',
+  color: CALENDAR_COLORS[0],
+  visible: true
+};
+
+export const calendarIdOf = (event: MyEvent) => event.resource?.calendarId || DEFAULT_CALENDAR_ID;
+
+class CalendarService {
+  private calendars: UserCalendar[] = [defaultCalendar];
+
+  /**
+   * Listen to the user's calendars. The latest list is also kept here, so services without
+   * access to React state (e.g. googleCalendarService) can resolve Google calendar IDs.
+   */
+  listen(uid: string, onChange: (calendars: UserCalendar[]) => void): () => void {
+    return onSnapshot(collection(db, 'users', uid, 'calendars'), (snapshot) => {
+      const stored = snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name || 'Untitled calendar',
+          color: data.color || CALENDAR_COLORS[0],
+          visible: data.visible !== false,
+          ...(data.googleCalendarId && { googleCalendarId: data.googleCalendarId })
+        } as UserCalendar;
+      });
+
+      this.calendars = [
+        stored.find(calendar => calendar.id === DEFAULT_CALENDAR_ID) || defaultCalendar,
+        ...stored.filter(calendar => calendar.id !== DEFAULT_CALENDAR_ID).sort((a, b) => a.name.localeCompare(b.name))
+      ];
+      onChange(this.calendars);
+    });
+  }
+
+  getCalendars(): UserCalendar[] {
+    return this.calendars;
+  }
+
+  getCalendar(calendarId?: string): UserCalendar {
+    return this.calendars.find(calendar => calendar.id === (calendarId || DEFAULT_CALENDAR_ID)) || defaultCalendar;
+  }
+
+  // The Google calendar that events of `calendarId` are written to
+  googleCalendarIdFor(calendarId?: string): string {
+    return this.getCalendar(calendarId).googleCalendarId || 'primary';
+  }
+
+  // The BrainNot calendar that events imported from `googleCalendarId` are filed under
+  calendarIdForGoogle(googleCalendarId: string): string | undefined {
+    const calendar = this.calendars.find(c => (c.googleCalendarId || 'primary') === googleCalendarId);
+    return calendar && calendar.id !== DEFAULT_CALENDAR_ID ? calendar.id : undefined;
+  }
+
+  // Distinct Google calendars to sync with; primary is always included
+  googleCalendarIds(): string[] {
+    return [...new Set(['primary', ...this.calendars.map(calendar => calendar.googleCalendarId || 'primary')])];
+  }
+
+  async createCalendar(uid: string, calendar: Omit<UserCalendar, 'id'>): Promise<string> {
+    const docRef = await addDoc(collection(db, 'users', uid, 'calendars'), {
+      name: calendar.name,
+      color: calendar.color,
+      visible: calendar.visible,
+      ...(calendar.googleCalendarId && { googleCalendarId: calendar.googleCalendarId })
+    });
+    return docRef.id;
+  }
+
+  async updateCalendar(uid: string, calendar: UserCalendar, changes: Partial<Omit<UserCalendar, 'id'>>): Promise<void> {
+    const updated = { ...calendar, ...changes };
+    // setDoc so the default calendar's settings doc is created on first change
+    await setDoc(doc(db, 'users', uid, 'calendars', calendar.id), {
+      name: updated.name,
+      color: updated.color,
+      visible: updated.visible,
+      googleCalendarId: updated.googleCalendarId || deleteField()
+    }, { merge: true });
+  }
+
+  // Delete a calendar; its events move to the default calendar. The calendar goes last, so
+  // a failure partway leaves it in place to delete again.
+  async deleteCalendar(uid: string, calendarId: string, events: MyEvent[]): Promise<void> {
+    if (calendarId === DEFAULT_CALENDAR_ID) return;
+
+    await this.commitInBatches([
+      ...events
+        .filter(event => !event.resource?.isNote && event.id && event.resource?.calendarId === calendarId)
+        .map(event => (batch: WriteBatch) => {
+          batch.update(doc(db, 'users', uid, 'events', event.id!), { calendarId: deleteField() });
+        }),
+      (batch: WriteBatch) => { batch.delete(doc(db, 'users', uid, 'calendars', calendarId)); }
+    ]);
+  }
+
+  // Firestore batches hold at most 500 writes
+  private async commitInBatches(writes: ((batch: WriteBatch) => void)[]): Promise<void> {
+    for (let index = 0; index < writes.length; index += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      writes.slice(index, index + FIRESTORE_BATCH_LIMIT).forEach(write => write(batch));
+      await batch.commit();
+    }
+  }
+}
+
+export const calendarService = new CalendarService();
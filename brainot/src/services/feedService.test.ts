@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import teamCalendar from './fixtures/team-calendar.ics?raw';
+
+interface FakeRef {
+  path: string;
+}
+
+// Every Firestore write the service makes, in order
+const firestore = vi.hoisted(() => ({
+  writes: [] as { op: 'set' | 'delete' | 'update'; path: string; data?: Record<string, unknown> }[],
+  cachedEventIds: [] as string[]
+}));
+
+vi.mock('../firebase', () => ({
+  db: {},
+  auth: { currentUser: { getIdToken: async () => 'id-token' } }
+}));
+
+vi.mock('firebase/firestore', () => ({
+  collection: (_db: unknown, ...path: string[]) => ({ path: path.join('/') }),
+  doc: (parent: Partial<FakeRef>, ...path: string[]) => ({ path: [parent.path, ...path].filter(Boolean).join('/') }),
+  getDocs: async (ref: FakeRef) => ({
+    docs: firestore.cachedEventIds.map(id => ({ id, ref: { path: `${ref.path}/${id}` } }))
+  }),
+  writeBatch: () => ({
+    set: (ref: FakeRef, data: Record<string, unknown>) => firestore.writes.push({ op: 'set', path: ref.path, data }),
+    delete: (ref: FakeRef) => firestore.writes.push({ op: 'delete', path: ref.path }),
+    commit: async () => undefined
+  }),
+  updateDoc: async (ref: FakeRef, data: Record<string, unknown>) => {
+    firestore.writes.push({ op: 'update', path: ref.path, data });
+  },
+  Timestamp: {
+    fromDate: (date: Date) => ({ toDate: () => date }),
+    now: () => ({ toDate: () => new Date() })
+  }
+}));
+
+const EVENTS_PATH = 'users/u1/feeds/f1/events';
+
+const writesTo = (op: 'set' | 'delete' | 'update') =>
+  firestore.writes.filter(write => write.op === op);
+
+const dateOf = (value: unknown) => (value as { toDate: () => Date }).toDate();
+
+describe('feedService.refreshFeed', () => {
+  const fetchMock = vi.fn(async () => new Response(teamCalendar));
+
+  beforeEach(() => {
+    firestore.writes = [];
+    firestore.cachedEventIds = ['holiday%2Feaster-monday', 'removed@example.com'];
+    fetchMock.mockClear();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('caches the feed events in the events subcollection', async () => {
+    const { feedService } = await import('./feedService');
+    await feedService.refreshFeed('u1', 'f1', 'webcal://example.com/team.ics');
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/team.ics');
+
+    const sets = writesTo('set');
+    expect(sets.map(write => write.path).sort()).toEqual([
+      `${EVENTS_PATH}/holiday%2Feaster-monday`,
+      `${EVENTS_PATH}/standup%40example%2Ecom`,
+      `${EVENTS_PATH}/standup%40example%2Ecom%2F${new Date(2026, 2, 9, 9, 0).getTime()}`
+    ]);
+
+    const holiday = sets.find(write => write.data?.uid === 'holiday/easter-monday')!.data!;
+    expect(holiday).toMatchObject({ title: 'Easter Monday', allDay: true, content: 'Office closed' });
+    expect(dateOf(holiday.start)).toEqual(new Date(2026, 3, 6));
+
+    // The moved instance is taken out of the series
+    const standup = sets.find(write => write.data?.uid === 'standup@example.com')!.data!;
+    expect(standup.recurrence).toEqual(expect.arrayContaining([
+      'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      expect.stringMatching(/^EXDATE.*20260309T090000/)
+    ]));
+    const moved = sets.find(write => write.data?.title === 'Standup (moved)')!.data!;
+    expect(dateOf(moved.start)).toEqual(new Date(2026, 2, 9, 10, 0));
+    expect(moved.recurrence).toBeUndefined();
+
+    // Cancelled events aren't cached, and events gone from the feed are removed
+    expect(sets.some(write => write.data?.title === 'Team lunch')).toBe(false);
+    expect(writesTo('delete').map(write => write.path)).toEqual([`${EVENTS_PATH}/removed@example.com`]);
+
+    expect(writesTo('update')).toEqual([
+      { op: 'update', path: 'users/u1/feeds/f1', data: expect.objectContaining({ lastError: null }) }
+    ]);
+  });
+
+  it('downloads through the feed proxy when one is configured', async () => {
+    vi.stubEnv('VITE_FEED_PROXY_URL', 'https://backend.example.com/api/feed');
+    const { feedService } = await import('./feedService');
+    await feedService.refreshFeed('u1', 'f1', 'webcal://example.com/team.ics');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://backend.example.com/api/feed?url=https%3A%2F%2Fexample.com%2Fteam.ics',
+      { headers: { Authorization: 'Bearer id-token' } }
+    );
+    expect(writesTo('set')).toHaveLength(3);
+  });
+
+  it('keeps the cache and records the error when the download fails', async () => {
+    fetchMock.mockImplementationOnce(async () => new Response('Not found', { status: 404 }));
+    const { feedService } = await import('./feedService');
+    await feedService.refreshFeed('u1', 'f1', 'https://example.com/team.ics');
+
+    expect(writesTo('set')).toEqual([]);
+    expect(writesTo('delete')).toEqual([]);
+    expect(writesTo('update')).toEqual([
+      { op: 'update', path: 'users/u1/feeds/f1', data: expect.objectContaining({ lastError: 'Feed request failed: 404' }) }
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  writeBatch,
+  Timestamp,
+  DocumentData,
+  WriteBatch
+} from 'firebase/firestore';
+import { auth, db } from '../firebase';
+import { CalendarFeed, MyEvent } from '../types';
+import { parseICalendar } from '../utils/ical';
+import { parseRecurrence, formatRecurrence, excludeOccurrence } from '../utils/recurrence';
+
+// Feeds are re-fetched when their cache is older than this
+export const FEED_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+const FIRESTORE_BATCH_LIMIT = 500;
+
+export const FEED_COLORS = ['#0ea5e9', '#8b5cf6', '#f97316', '#14b8a6', '#ec4899', '#64748b'];
+
+// Backend endpoint that fetches feeds for us; most feed servers don't allow browser requests
+const FEED_PROXY_URL = import.meta.env.VITE_FEED_PROXY_URL;
+
+// Document IDs can't contain "/" or be "." or "..", and feed UIDs are free text
+const eventDocId = (uid: string) => encodeURIComponent(uid).replace(/\./g, '%2E');
+
+// Turn a cached feed event into a read-only event in the feed's color
+const feedEventFromFirestore = (feedId: string, color: string, data: DocumentData): MyEvent => ({
+  id: `feed:${feedId}:${data.uid}`,
+  title: typeof data.title === 'string' ? data.title : 'Untitled Event',
+  start: data.start.toDate(),
+  end: data.end.toDate(),
+  allDay: !!data.allDay,
+  resource: {
+    isNote: false,
+    content: typeof data.content === 'string' ? data.content : '',
+    color,
+    feedId,
+    ...(Array.isArray(data.recurrence) && { recurrence: data.recurrence })
+  }
+});
+
+/**
+ * Turn a Firestore feed document and its cached events (documents of its `events`
+ * subcollection) into a CalendarFeed.
+ */
+export const feedFromFirestore = (id: string, data: DocumentData, events: DocumentData[]): CalendarFeed => {
+  const color = typeof data.color === 'string' ? data.color : FEED_COLORS[0];
+  return {
+    id,
+    name: typeof data.name === 'string' ? data.name : 'Untitled feed',
+    url: typeof data.url === 'string' ? data.url : '',
+    color,
+    visible: data.visible !== false,
+    events: events
+      .filter(item => item.start?.toDate && item.end?.toDate)
+      .map(item => feedEventFromFirestore(id, color, item)),
+    ...(data.lastFetchedAt && { lastFetchedAt: data.lastFetchedAt.toDate() }),
+    ...(typeof data.lastError === 'string' && data.lastError && { lastError: data.lastError })
+  };
+};
+
+class FeedService {
+  private refreshing = new Set<string>();
+
+  private feedsCollection(uid: string) {
+    return collection(db, 'users', uid, 'feeds');
+  }
+
+  private eventsCollection(uid: string, feedId: string) {
+    return collection(db, 'users', uid, 'feeds', feedId, 'events');
+  }
+
+  // Listen to the user's feeds together with their cached events
+  listen(uid: string, onChange: (feeds: CalendarFeed[]) => void): () => void {
+    let feedDocs: { id: string; data: DocumentData }[] = [];
+    const eventDocs = new Map<string, DocumentData[]>();
+    const eventListeners = new Map<string, () => void>();
+    const emit = () => onChange(feedDocs.map(feed => feedFromFirestore(feed.id, feed.data, eventDocs.get(feed.id) || [])));
+
+    const unsubscribeFeeds = onSnapshot(this.feedsCollection(uid), (snapshot) => {
+      feedDocs = snapshot.docs.map(feedDoc => ({ id: feedDoc.id, data: feedDoc.data() }));
+      const ids = new Set(feedDocs.map(feed => feed.id));
+      eventListeners.forEach((unsubscribe, feedId) => {
+        if (ids.has(feedId)) return;
+        unsubscribe();
+        eventListeners.delete(feedId);
+        eventDocs.delete(feedId);
+      });
+      ids.forEach(feedId => {
+        if (eventListeners.has(feedId)) return;
+        eventListeners.set(feedId, onSnapshot(this.eventsCollection(uid, feedId), (events) => {
+          eventDocs.set(feedId, events.docs.map(eventDoc => eventDoc.data()));
+          emit();
+        }));
+      });
+      emit();
+    });
+
+    return () => {
+      unsubscribeFeeds();
+      eventListeners.forEach(unsubscribe => unsubscribe());
+      eventListeners.clear();
+    };
+  }
+
+  async addFeed(uid: string, feed: { name: string; url: string; color: string }): Promise<void> {
+    const docRef = await addDoc(this.feedsCollection(uid), {
+      name: feed.name,
+      url: feed.url,
+      color: feed.color,
+      visible: true
+    });
+    await this.refreshFeed(uid, docRef.id, feed.url);
+  }
+
+  async updateFeed(uid: string, feedId: string, changes: Partial<Pick<CalendarFeed, 'name' | 'color' | 'visible'>>): Promise<void> {
+    await updateDoc(doc(db, 'users', uid, 'feeds', feedId), changes);
+  }
+
+  async removeFeed(uid: string, feedId: string): Promise<void> {
+    const cached = await getDocs(this.eventsCollection(uid, feedId));
+    await this.commitInBatches(cached.docs.map(eventDoc => (batch: WriteBatch) => { batch.delete(eventDoc.ref); }));
+    await deleteDoc(doc(db, 'users', uid, 'feeds', feedId));
+  }
+
+  // Firestore batches hold at most 500 writes
+  private async commitInBatches(writes: ((batch: WriteBatch) => void)[]): Promise<void> {
+    for (let index = 0; index < writes.length; index += FIRESTORE_BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      writes.slice(index, index + FIRESTORE_BATCH_LIMIT).forEach(write => write(batch));
+      await batch.commit();
+    }
+  }
+
+  // The feed's text, through the feed proxy when one is configured
+  private async download(url: string): Promise<string> {
+    // webcal:// is the same feed over HTTP(S)
+    const feedUrl = url.replace(/^webcal:\/\//i, 'https://');
+    let response: Response;
+    if (FEED_PROXY_URL) {
+      const token = await auth.currentUser?.getIdToken();
+      const separator = FEED_PROXY_URL.includes('?') ? '&' : '?';
+      response = await fetch(`${FEED_PROXY_URL}${separator}url=${encodeURIComponent(feedUrl)}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      });
+    } else {
+      response = await fetch(feedUrl);
+    }
+    if (!response.ok) {
+      throw new Error(`Feed request failed: ${response.status}`);
+    }
+    return response.text();
+  }
+
+  /**
+   * Download and parse a feed, replacing its cached events under `feeds/{id}/events`.
+   * Failures are stored on the feed as `lastError` and the previous cache is kept.
+   */
+  async refreshFeed(uid: string, feedId: string, url: string): Promise<void> {
+    if (this.refreshing.has(feedId)) return;
+    this.refreshing.add(feedId);
+
+    const feedRef = doc(db, 'users', uid, 'feeds', feedId);
+    try {
+      const items = parseICalendar(await this.download(url)).filter(item => item.kind === 'event');
+
+      // Modified instances of a recurring event replace that occurrence of the series
+      const series = new Map(items.filter(item => !item.recurrenceId).map(item => [item.uid, item]));
+      items.filter(item => item.recurrenceId).forEach(instance => {
+        const master = series.get(instance.uid);
+        const rule = parseRecurrence(master?.recurrence);
+        if (master && rule) {
+          master.recurrence = formatRecurrence(excludeOccurrence(rule, instance.recurrenceId!), master.allDay);
+        }
+      });
+
+      const events = items
+        .filter(item => !item.cancelled)
+        .map(item => ({
+          uid: item.recurrenceId ? `${item.uid}/${item.recurrenceId.getTime()}` : item.uid,
+          title: item.title,
+          start: Timestamp.fromDate(item.start),
+          end: Timestamp.fromDate(item.end),
+          allDay: item.allDay,
+          content: item.content,
+          ...(item.recurrence && !item.recurrenceId && { recurrence: item.recurrence })
+        }));
+
+      // Rewrite the cache, dropping events that left the feed
+      const eventsCollection = this.eventsCollection(uid, feedId);
+      const kept = new Set(events.map(event => eventDocId(event.uid)));
+      const cached = await getDocs(eventsCollection);
+      await this.commitInBatches([
+        ...events.map(event => (batch: WriteBatch) => { batch.set(doc(eventsCollection, eventDocId(event.uid)), event); }),
+        ...cached.docs
+          .filter(eventDoc => !kept.has(eventDoc.id))
+          .map(eventDoc => (batch: WriteBatch) => { batch.delete(eventDoc.ref); })
+      ]);
+
+      await updateDoc(feedRef, { lastFetchedAt: Timestamp.now(), lastError: null });
+    } catch (error) {
+      console.log('Feed refresh failed:', url, error);
+      await updateDoc(feedRef, {
+        lastFetchedAt: Timestamp.now(),
+        lastError: error instanceof Error ? error.message : 'Feed refresh failed'
+      }).catch(() => undefined);
+    } finally {
+      this.refreshing.delete(feedId);
+    }
+  }
+
+  // Refresh every feed whose cache is older than FEED_REFRESH_INTERVAL_MS
+  async refreshStaleFeeds(uid: string, feeds: CalendarFeed[]): Promise<void> {
+    const now = Date.now();
+    for (const feed of feeds) {
+      if (!feed.lastFetchedAt || now - feed.lastFetchedAt.getTime() >= FEED_REFRESH_INTERVAL_MS) {
+        await this.refreshFeed(uid, feed.id, feed.url);
+      }
+    }
+  }
+}
+
+export const feedService = new FeedService();
@@ -1,104 +1,51 @@
-import { auth, googleProvider } from '../firebase';
-import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth';
 import { MyEvent } from '../types';
+import { googleTokenManager } from './googleTokenManager';
+import { calendarService } from './calendarService';
 
-class GoogleCalendarService {
-  private async ensureValidToken(): Promise<boolean> {
-    try {
-      let token = localStorage.getItem('googleAccessToken');
-      const refreshToken = localStorage.getItem('googleRefreshToken');
-      
-      if (!token && !refreshToken) {
-        // No tokens at all, need fresh auth
-        return await this.requestNewTokens();
-      }
-      
-      if (token) {
-        // Test if current token is valid
-        const testResponse = await fetch('https://www.googleapis.com/calendar/v3/calendars/primary', {
-          headers: { 'Authorization': `Bearer ${token}` }
-        });
-        
-        if (testResponse.ok) {
-          return true;
-        }
-      }
-      
-      // Token invalid/expired, try refresh
-      if (refreshToken) {
-        return await this.refreshAccessToken(refreshToken);
-      }
-      
-      // No refresh token, need fresh auth
-      return await this.requestNewTokens();
-    } catch (error) {
-      console.error('Token validation failed:', error);
-      return false;
-    }
-  }
-  
-  private async refreshAccessToken(refreshToken: string): Promise<boolean> {
-    try {
-      const response = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          client_id: import.meta.env.VITE_FIREBASE_API_KEY,
-          refresh_token: refreshToken,
-          grant_type: 'refresh_token'
-        })
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        localStorage.setItem('googleAccessToken', data.access_token);
-        console.log('✅ Google token refreshed automatically');
-        return true;
-      }
-    } catch (error) {
-      console.error('Token refresh failed:', error);
-    }
-    
-    // Refresh failed, clear tokens and request new ones
-    localStorage.removeItem('googleAccessToken');
-    localStorage.removeItem('googleRefreshToken');
-    return await this.requestNewTokens();
+export class GoogleCalendarApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GoogleCalendarApiError';
   }
-  
-  private async requestNewTokens(): Promise<boolean> {
-    try {
-      const user = auth.currentUser;
-      if (!user) return false;
-      
-      const result = await signInWithPopup(auth, googleProvider);
-      const credential = GoogleAuthProvider.credentialFromResult(result);
-      
-      if (credential?.accessToken) {
-        localStorage.setItem('googleAccessToken', credential.accessToken);
-        // Note: Firebase doesn't provide refresh tokens directly
-        // In production, you'd implement server-side token management
-        console.log('✅ New Google tokens obtained');
-        return true;
-      }
-    } catch (error) {
-      console.error('New token request failed:', error);
-    }
-    
-    return false;
+}
+
+// Subset of the Calendar API event resource that BrainNot reads back
+export interface GoogleCalendarEvent {
+  id: string;
+  status?: 'confirmed' | 'tentative' | 'cancelled';
+  summary?: string;
+  description?: string;
+  colorId?: string;
+  start?: { date?: string; dateTime?: string; timeZone?: string };
+  end?: { date?: string; dateTime?: string; timeZone?: string };
+  recurrence?: string[];
+  recurringEventId?: string;
+  originalStartTime?: { date?: string; dateTime?: string };
+  reminders?: { useDefault: boolean; overrides?: { method: string; minutes: number }[] };
+  updated?: string;
+}
+
+export interface GoogleEventsPage {
+  items: GoogleCalendarEvent[];
+  nextPageToken?: string;
+  nextSyncToken?: string;
+}
+
+const eventsUrl = (googleCalendarId: string) =>
+  `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(googleCalendarId)}/events`;
+
+class GoogleCalendarService {
+  isConnected(): boolean {
+    return googleTokenManager.isConnected();
   }
-  private async getAccessToken(): Promise<string> {
-    // Check both storage locations
-    let token = localStorage.getItem('googleAccessToken') || sessionStorage.getItem('google_access_token');
-    
-    if (!token) {
-      throw new Error('Google Access Token missing. Please re-login for Calendar sync.');
-    }
 
-    return token;
+  // The Google calendar an event should live in, from the mapping of its BrainNot calendar
+  targetCalendarFor(event: MyEvent): string {
+    return calendarService.googleCalendarIdFor(event.resource?.calendarId);
   }
 
   private async makeRequest(url: string, options: RequestInit = {}): Promise<any> {
-    const token = await this.getAccessToken();
+    const token = await googleTokenManager.getAccessToken();
     
     const response = await fetch(url, {
       ...options,
@@ -111,15 +58,19 @@ class GoogleCalendarService {
 
     if (!response.ok) {
       if (response.status === 401) {
-        // Token expired, clear both storage locations
-        localStorage.removeItem('googleAccessToken');
-        sessionStorage.removeItem('google_access_token');
-        throw new Error('Google Calendar access expired. Please re-login.');
+        // Token revoked or expired early; the next call refreshes or asks to reconnect
+        googleTokenManager.invalidate();
+        throw new Error('Google Calendar access expired. Please reconnect Google Calendar.');
       }
       
       const errorText = await response.text();
       console.error('Google Calendar API Error:', response.status, errorText);
-      throw new Error(`Google Calendar API Error: ${response.status}`);
+      throw new GoogleCalendarApiError(response.status, `Google Calendar API Error: ${response.status}`);
+    }
+
+    // DELETE responds with an empty body
+    if (response.status === 204) {
+      return null;
     }
 
     return response.json();
@@ -135,7 +86,16 @@ class GoogleCalendarService {
     const googleEvent: any = {
       summary: event.title,
       description: event.resource?.content || '',
-      colorId: colorMap[event.resource?.priority || 'medium']
+      colorId: colorMap[event.resource?.priority || 'medium'],
+      // RRULE/EXDATE lines; an empty list clears the recurrence on PATCH
+      recurrence: event.resource?.recurrence || [],
+      // Google allows at most 5 reminder overrides
+      reminders: event.resource?.reminders
+        ? {
+            useDefault: false,
+            overrides: event.resource.reminders.slice(0, 5).map(minutes => ({ method: 'popup', minutes }))
+          }
+        : { useDefault: true }
     };
 
     if (event.allDay) {
@@ -166,11 +126,43 @@ class GoogleCalendarService {
     return googleEvent;
   }
 
+  /**
+   * Fetch one page of events. Pass the `nextSyncToken` of a previous full listing as
+   * `syncToken` to only get changes (including deletions) since then; an expired token
+   * fails with a 410 GoogleCalendarApiError and requires a new full listing.
+   */
+  async listEvents(options: { googleCalendarId?: string; syncToken?: string; pageToken?: string } = {}): Promise<GoogleEventsPage> {
+    if (!(await googleTokenManager.ensureToken())) {
+      throw new Error('Google Calendar not connected');
+    }
+
+    const params = new URLSearchParams({ maxResults: '250' });
+    if (options.syncToken) {
+      params.set('syncToken', options.syncToken);
+    } else {
+      // Full listings skip deleted events; incremental ones always include them
+      params.set('showDeleted', 'false');
+    }
+    if (options.pageToken) {
+      params.set('pageToken', options.pageToken);
+    }
+
+    const result = await this.makeRequest(
+      `${eventsUrl(options.googleCalendarId || 'primary')}?${params.toString()}`
+    );
+
+    return {
+      items: result.items || [],
+      nextPageToken: result.nextPageToken,
+      nextSyncToken: result.nextSyncToken
+    };
+  }
+
   async createEvent(event: MyEvent): Promise<string> {
     const googleEvent = this.convertToGoogleEvent(event);
     
     const result = await this.makeRequest(
-      'https://www.googleapis.com/calendar/v3/calendars/primary/events',
+      eventsUrl(this.targetCalendarFor(event)),
       {
         method: 'POST',
         body: JSON.stringify(googleEvent)
@@ -180,14 +172,14 @@ class GoogleCalendarService {
     return result.id;
   }
 
-  async deleteEvent(googleEventId: string): Promise<void> {
-    if (!(await this.ensureValidToken())) {
+  async deleteEvent(googleEventId: string, googleCalendarId = 'primary'): Promise<void> {
+    if (!(await googleTokenManager.ensureToken())) {
       console.error('❌ Google Calendar delete failed: Not connected');
       throw new Error('Google Calendar not connected');
     }
     try {
       await this.makeRequest(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events/${googleEventId}`,
+        `${eventsUrl(googleCalendarId)}/${googleEventId}`,
         {
           method: 'DELETE'
         }
@@ -200,7 +192,7 @@ class GoogleCalendarService {
   }
 
   async updateEvent(event: MyEvent): Promise<void> {
-    if (!(await this.ensureValidToken())) {
+    if (!(await googleTokenManager.ensureToken())) {
       console.error('❌ Google Calendar update failed: Not connected');
       throw new Error('Google Calendar not connected');
     }
@@ -211,9 +203,19 @@ class GoogleCalendarService {
     }
 
     try {
+      const source = event.resource?.googleCalendarId || 'primary';
+      const target = this.targetCalendarFor(event);
+      if (source !== target) {
+        // The event was moved to a calendar that syncs with a different Google calendar
+        await this.makeRequest(
+          `${eventsUrl(source)}/${googleEventId}/move?destination=${encodeURIComponent(target)}`,
+          { method: 'POST' }
+        );
+      }
+
       const googleEvent = this.convertToGoogleEvent(event);
       await this.makeRequest(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events/${googleEventId}`,
+        `${eventsUrl(target)}/${googleEventId}`,
         {
           method: 'PATCH',
           body: JSON.stringify(googleEvent)
@@ -227,7 +229,7 @@ class GoogleCalendarService {
   }
 
   async syncEvent(event: MyEvent): Promise<string | null> {
-    if (!(await this.ensureValidToken())) {
+    if (!(await googleTokenManager.ensureToken())) {
       console.error('❌ Google Calendar sync failed: Not connected');
       throw new Error('Google Calendar not connected');
     }
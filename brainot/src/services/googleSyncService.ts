@@ -0,0 +1,480 @@
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  setDoc,
+  getDoc,
+  getDocs,
+  doc,
+  Timestamp,
+  deleteField,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { EventSnapshot, MyEvent, SyncConflict } from '../types';
+import {
+  googleCalendarService,
+  GoogleCalendarApiError,
+  GoogleCalendarEvent
+} from './googleCalendarService';
+import { syncOutboxService } from './syncOutboxService';
+import { calendarService } from './calendarService';
+import { parseRecurrence, formatRecurrence, excludeOccurrence } from '../utils/recurrence';
+
+export interface SyncSummary {
+  imported: number;
+  updated: number;
+  deleted: number;
+  pushed: number;
+  conflicts: number;
+}
+
+interface SyncState {
+  syncTokens: Record<string, string>;   // per Google calendar ID
+  lastSyncedAt?: Date;
+}
+
+const priorityByColor: Record<string, EventSnapshot['priority']> = {
+  '2': 'low',
+  '9': 'medium',
+  '11': 'high'
+};
+
+const parseGoogleDate = (value: { date?: string; dateTime?: string } | undefined): Date | null => {
+  if (value?.dateTime) return new Date(value.dateTime);
+  if (value?.date) return new Date(`${value.date}T00:00:00`);
+  return null;
+};
+
+// Map a Google event back to the shape BrainNot stores, mirroring convertToGoogleEvent
+export const snapshotFromGoogleEvent = (item: GoogleCalendarEvent): EventSnapshot | null => {
+  const start = parseGoogleDate(item.start);
+  let end = parseGoogleDate(item.end);
+  if (!start || !end) return null;
+
+  const allDay = !!item.start?.date;
+  if (allDay) {
+    // Google's all-day end date is exclusive; BrainNot ends all-day events at 23:59:59 on the last day
+    end = new Date(end.getTime() - 1000);
+  }
+
+  return {
+    title: item.summary || 'Untitled Event',
+    start,
+    end,
+    allDay,
+    content: item.description || '',
+    priority: priorityByColor[item.colorId || ''] || 'medium',
+    ...(item.recurrence && item.recurrence.length > 0 && { recurrence: item.recurrence }),
+    ...(item.reminders && !item.reminders.useDefault && {
+      reminders: (item.reminders.overrides || []).map(override => override.minutes)
+    }),
+    updatedAt: item.updated ? new Date(item.updated) : new Date()
+  };
+};
+
+export const snapshotFromEvent = (event: MyEvent): EventSnapshot => ({
+  title: event.title,
+  start: event.start,
+  end: event.end,
+  allDay: !!event.allDay,
+  content: event.resource?.content || '',
+  priority: event.resource?.priority || 'medium',
+  ...(event.resource?.recurrence && { recurrence: event.resource.recurrence }),
+  ...(event.resource?.reminders && { reminders: event.resource.reminders }),
+  updatedAt: event.resource?.updatedAt || new Date(0)
+});
+
+// Whether two versions carry the same synced content, ignoring modification times
+const sameContent = (a: EventSnapshot, b: EventSnapshot) =>
+  a.title === b.title &&
+  a.start.getTime() === b.start.getTime() &&
+  a.end.getTime() === b.end.getTime() &&
+  a.allDay === b.allDay &&
+  a.content === b.content &&
+  a.priority === b.priority &&
+  (a.recurrence || []).join('\n') === (b.recurrence || []).join('\n') &&
+  (a.reminders || []).join(',') === (b.reminders || []).join(',');
+
+const snapshotToFirestore = (snapshot: EventSnapshot) => ({
+  title: snapshot.title,
+  start: Timestamp.fromDate(snapshot.start),
+  end: Timestamp.fromDate(snapshot.end),
+  allDay: snapshot.allDay,
+  content: snapshot.content,
+  priority: snapshot.priority,
+  ...(snapshot.recurrence && { recurrence: snapshot.recurrence }),
+  ...(snapshot.reminders && { reminders: snapshot.reminders }),
+  updatedAt: Timestamp.fromDate(snapshot.updatedAt)
+});
+
+const PRIORITIES: EventSnapshot['priority'][] = ['low', 'medium', 'high'];
+
+export const snapshotFromFirestore = (data: DocumentData): EventSnapshot => ({
+  title: typeof data.title === 'string' ? data.title : 'Untitled Event',
+  start: data.start.toDate(),
+  end: data.end.toDate(),
+  allDay: !!data.allDay,
+  content: typeof data.content === 'string' ? data.content : '',
+  priority: PRIORITIES.includes(data.priority) ? data.priority : 'medium',
+  ...(Array.isArray(data.recurrence) && { recurrence: data.recurrence }),
+  ...(Array.isArray(data.reminders) && { reminders: data.reminders }),
+  updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date(0)
+});
+
+// An event as stored under `users/{uid}/events`
+export const eventFromFirestore = (id: string, data: DocumentData): MyEvent => ({
+  id,
+  title: data.title || 'Untitled Event',
+  start: data.start.toDate(),
+  end: data.end.toDate(),
+  allDay: data.allDay || false,
+  resource: {
+    isNote: false,
+    content: data.content || '',
+    priority: data.priority || 'medium',
+    ...(data.calendarId && { calendarId: data.calendarId }),
+    ...(data.googleEventId && { googleEventId: data.googleEventId }),
+    ...(data.googleCalendarId && { googleCalendarId: data.googleCalendarId }),
+    ...(data.syncedToGoogle !== undefined && { syncedToGoogle: data.syncedToGoogle }),
+    ...(data.reminders && { reminders: data.reminders }),
+    ...(data.recurrence && { recurrence: data.recurrence }),
+    ...(data.updatedAt && { updatedAt: data.updatedAt.toDate() }),
+    ...(data.icalUid && { icalUid: data.icalUid }),
+    ...(data.recurringEventId && data.originalStart?.toDate && {
+      recurringEventId: data.recurringEventId,
+      originalStart: data.originalStart.toDate()
+    })
+  }
+});
+
+// Whether an event document has the timestamps eventFromFirestore needs
+export const isStoredEvent = (data: DocumentData) =>
+  !!(data.start?.toDate && data.end?.toDate);
+
+const snapshotToEvent = (id: string, snapshot: EventSnapshot, googleCalendarId: string, googleEventId?: string): MyEvent => ({
+  id,
+  title: snapshot.title,
+  start: snapshot.start,
+  end: snapshot.end,
+  allDay: snapshot.allDay,
+  resource: {
+    isNote: false,
+    content: snapshot.content,
+    priority: snapshot.priority,
+    calendarId: calendarService.calendarIdForGoogle(googleCalendarId),
+    googleCalendarId,
+    ...(googleEventId && { googleEventId }),
+    ...(snapshot.recurrence && { recurrence: snapshot.recurrence }),
+    ...(snapshot.reminders && { reminders: snapshot.reminders })
+  }
+});
+
+class GoogleSyncService {
+  private syncing = false;
+
+  private stateRef(uid: string) {
+    return doc(db, 'users', uid, 'sync', 'google');
+  }
+
+  private eventRef(uid: string, eventId: string) {
+    return doc(db, 'users', uid, 'events', eventId);
+  }
+
+  private async loadEvents(uid: string): Promise<MyEvent[]> {
+    const snapshot = await getDocs(collection(db, 'users', uid, 'events'));
+    return snapshot.docs
+      .filter(eventDoc => isStoredEvent(eventDoc.data()))
+      .map(eventDoc => eventFromFirestore(eventDoc.id, eventDoc.data()));
+  }
+
+  private async loadState(uid: string): Promise<SyncState> {
+    const snapshot = await getDoc(this.stateRef(uid));
+    const data = snapshot.data();
+    return {
+      // Before multiple calendars, a single token was stored for the primary calendar
+      syncTokens: data?.syncTokens || (data?.syncToken ? { primary: data.syncToken } : {}),
+      lastSyncedAt: data?.lastSyncedAt?.toDate()
+    };
+  }
+
+  // All changed events of a Google calendar since the stored sync token, or every event when there is none
+  private async fetchChanges(googleCalendarId: string, syncToken?: string): Promise<{ items: GoogleCalendarEvent[]; nextSyncToken?: string; full: boolean }> {
+    const items: GoogleCalendarEvent[] = [];
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const page = await googleCalendarService.listEvents({ googleCalendarId, syncToken, pageToken });
+        items.push(...page.items);
+        pageToken = page.nextPageToken;
+        if (!pageToken) {
+          return { items, nextSyncToken: page.nextSyncToken, full: !syncToken };
+        }
+      } while (pageToken);
+    } catch (error) {
+      if (syncToken && error instanceof GoogleCalendarApiError && error.status === 410) {
+        // Sync token expired: start over with a full listing
+        console.log('Google sync token expired, running a full sync of', googleCalendarId);
+        return this.fetchChanges(googleCalendarId, undefined);
+      }
+      throw error;
+    }
+
+    return { items, full: !syncToken };
+  }
+
+  /**
+   * Two-way sync with Google Calendar: pull remote changes of every mapped Google calendar
+   * (incrementally via syncToken), then push local events that are new or changed since the
+   * last sync, or whose calendar now maps to a different Google calendar.
+   *
+   * When an event changed on both sides since the last sync, the most recently modified
+   * version wins and the conflict is recorded under `users/{uid}/syncConflicts` for review.
+   *
+   * Local events are read from Firestore after the outbox is flushed, so events the flush
+   * just created in Google are already linked and neither pushed nor imported a second time.
+   */
+  async sync(uid: string): Promise<SyncSummary> {
+    if (this.syncing) {
+      return { imported: 0, updated: 0, deleted: 0, pushed: 0, conflicts: 0 };
+    }
+    this.syncing = true;
+
+    try {
+      const summary: SyncSummary = { imported: 0, updated: 0, deleted: 0, pushed: 0, conflicts: 0 };
+      // Send queued writes first; events that still have one pending are left out of this sync
+      await syncOutboxService.process();
+      const localEvents = await this.loadEvents(uid);
+      const pending = await syncOutboxService.getPending(uid);
+      const pendingEventIds = new Set(pending.map(entry => entry.eventId));
+      // Google IDs of those events, whose remote copies are skipped as well
+      const pendingGoogleIds = new Set([
+        ...pending.map(entry => entry.googleEventId),
+        ...localEvents.filter(e => pendingEventIds.has(e.id!)).map(e => e.resource?.googleEventId)
+      ].filter((id): id is string => !!id));
+
+      const state = await this.loadState(uid);
+      const syncTokens: Record<string, string> = {};
+
+      const byGoogleId = new Map<string, MyEvent>();
+      localEvents
+        .filter(e => !e.resource?.isNote && e.resource?.googleEventId && !pendingEventIds.has(e.id!))
+        .forEach(e => byGoogleId.set(e.resource!.googleEventId!, { ...e, resource: { ...e.resource } }));
+      // Events already reconciled during the pull, so the push step leaves them alone
+      const handled = new Set<string>();
+      // Local events that still have to be created in Google
+      const needsCreate = new Set(
+        localEvents
+          .filter(e => !e.resource?.isNote && e.id && !e.resource?.googleEventId && !pendingEventIds.has(e.id))
+          .map(e => e.id!)
+      );
+
+      const changedLocally = (event: MyEvent) =>
+        !!event.resource?.updatedAt && (!state.lastSyncedAt || event.resource.updatedAt > state.lastSyncedAt);
+      const storedCalendarOf = (event: MyEvent) => event.resource?.googleCalendarId || 'primary';
+      // The event's calendar was mapped to another Google calendar since it was last written there
+      const movedCalendar = (event: MyEvent) =>
+        googleCalendarService.targetCalendarFor(event) !== storedCalendarOf(event);
+
+      const push = async (local: MyEvent) => {
+        await googleCalendarService.updateEvent(local);
+        if (movedCalendar(local)) {
+          const googleCalendarId = googleCalendarService.targetCalendarFor(local);
+          await updateDoc(this.eventRef(uid, local.id!), { googleCalendarId });
+          local.resource!.googleCalendarId = googleCalendarId;
+        }
+        summary.pushed++;
+      };
+
+      const recordConflict = async (local: MyEvent, remote: EventSnapshot | null, resolvedWith: SyncConflict['resolvedWith']) => {
+        summary.conflicts++;
+        await addDoc(collection(db, 'users', uid, 'syncConflicts'), {
+          eventId: local.id,
+          googleEventId: local.resource?.googleEventId,
+          googleCalendarId: storedCalendarOf(local),
+          local: snapshotToFirestore(snapshotFromEvent(local)),
+          remote: remote ? snapshotToFirestore(remote) : null,
+          resolvedWith,
+          detectedAt: Timestamp.now()
+        });
+      };
+
+      const handleRemoteDeletion = async (local: MyEvent, deletedAt: Date) => {
+        handled.add(local.id!);
+        if (changedLocally(local) && local.resource!.updatedAt! > deletedAt) {
+          // Local edit is newer: keep it and let the push step recreate it in Google
+          await updateDoc(this.eventRef(uid, local.id!), { googleEventId: deleteField() });
+          needsCreate.add(local.id!);
+          if (state.lastSyncedAt) await recordConflict(local, null, 'local');
+          return;
+        }
+        if (changedLocally(local) && state.lastSyncedAt) {
+          await recordConflict(local, null, 'remote');
+        }
+        await deleteDoc(this.eventRef(uid, local.id!));
+        summary.deleted++;
+      };
+
+      for (const googleCalendarId of calendarService.googleCalendarIds()) {
+        const { items, nextSyncToken, full } = await this.fetchChanges(googleCalendarId, state.syncTokens[googleCalendarId]);
+        if (nextSyncToken) syncTokens[googleCalendarId] = nextSyncToken;
+
+        for (const item of items) {
+          if (pendingGoogleIds.has(item.id)) continue;
+
+          // A cancelled instance of a recurring series becomes an EXDATE on the series (and removes
+          // the instance if it was modified before). Modified instances aren't excluded from the
+          // series, which would delete them in Google on the next push; they're linked to it instead.
+          const originalStart = item.recurringEventId ? parseGoogleDate(item.originalStartTime) : null;
+          if (item.recurringEventId && item.status === 'cancelled') {
+            const master = byGoogleId.get(item.recurringEventId);
+            const rule = parseRecurrence(master?.resource?.recurrence);
+            if (master && originalStart && rule &&
+                !rule.exdates.some(exdate => exdate.getTime() === originalStart.getTime())) {
+              const recurrence = formatRecurrence(excludeOccurrence(rule, originalStart), !!master.allDay);
+              await updateDoc(this.eventRef(uid, master.id!), { recurrence });
+              master.resource!.recurrence = recurrence;
+            }
+          }
+          const seriesLink = item.recurringEventId && originalStart
+            ? { recurringEventId: item.recurringEventId, originalStart: Timestamp.fromDate(originalStart) }
+            : {};
+
+          const local = byGoogleId.get(item.id);
+
+          if (item.status === 'cancelled') {
+            if (local) {
+              await handleRemoteDeletion(local, item.updated ? new Date(item.updated) : new Date());
+            }
+            continue;
+          }
+
+          const remote = snapshotFromGoogleEvent(item);
+          if (!remote) continue;
+
+          if (!local) {
+            const calendarId = calendarService.calendarIdForGoogle(googleCalendarId);
+            await addDoc(collection(db, 'users', uid, 'events'), {
+              ...snapshotToFirestore(remote),
+              ...seriesLink,
+              ...(calendarId && { calendarId }),
+              googleEventId: item.id,
+              googleCalendarId,
+              syncedToGoogle: true
+            });
+            summary.imported++;
+            continue;
+          }
+
+          handled.add(local.id!);
+          const remoteChanged = !state.lastSyncedAt || remote.updatedAt > state.lastSyncedAt;
+          const localChanged = changedLocally(local);
+          // Our own pushes come back as remote changes; nothing to do when both sides agree
+          if (!remoteChanged || sameContent(snapshotFromEvent(local), remote)) continue;
+
+          const localWins = localChanged && local.resource!.updatedAt! > remote.updatedAt;
+          if (localChanged && state.lastSyncedAt) {
+            await recordConflict(local, remote, localWins ? 'local' : 'remote');
+          }
+
+          if (localWins) {
+            await push(local);
+          } else {
+            await updateDoc(this.eventRef(uid, local.id!), {
+              ...snapshotToFirestore(remote),
+              ...seriesLink,
+              ...(!remote.recurrence && local.resource?.recurrence && { recurrence: deleteField() }),
+              ...(!remote.reminders && local.resource?.reminders && { reminders: deleteField() })
+            });
+            summary.updated++;
+          }
+        }
+
+        // A full listing contains every remote event, so anything missing was deleted in Google
+        if (full) {
+          const remoteIds = new Set(items.map(item => item.id));
+          for (const [googleEventId, local] of byGoogleId) {
+            if (storedCalendarOf(local) === googleCalendarId && !remoteIds.has(googleEventId) && !handled.has(local.id!)) {
+              await handleRemoteDeletion(local, state.lastSyncedAt || new Date(0));
+            }
+          }
+        }
+      }
+
+      // Push local events that are new or changed since the last sync
+      for (const local of byGoogleId.values()) {
+        if (handled.has(local.id!) || !(changedLocally(local) || movedCalendar(local))) continue;
+        await push(local);
+      }
+      for (const local of localEvents.filter(e => needsCreate.has(e.id!))) {
+        const googleEventId = await googleCalendarService.syncEvent({
+          ...local,
+          resource: { ...local.resource, googleEventId: undefined }
+        });
+        if (googleEventId) {
+          await updateDoc(this.eventRef(uid, local.id!), {
+            googleEventId,
+            googleCalendarId: googleCalendarService.targetCalendarFor(local)
+          });
+          summary.pushed++;
+        }
+      }
+
+      await setDoc(this.stateRef(uid), {
+        syncTokens,
+        lastSyncedAt: Timestamp.now()
+      });
+
+      return summary;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  // Apply the chosen side of a conflict (if it isn't the one already applied) and clear it
+  async resolveConflict(uid: string, conflict: SyncConflict, choice: SyncConflict['resolvedWith']): Promise<void> {
+    if (choice !== conflict.resolvedWith) {
+      if (choice === 'remote') {
+        if (conflict.remote) {
+          const calendarId = calendarService.calendarIdForGoogle(conflict.googleCalendarId || 'primary');
+          await setDoc(this.eventRef(uid, conflict.eventId), {
+            ...snapshotToFirestore(conflict.remote),
+            ...(calendarId && { calendarId }),
+            googleEventId: conflict.googleEventId,
+            googleCalendarId: conflict.googleCalendarId || 'primary'
+          });
+        } else {
+          await deleteDoc(this.eventRef(uid, conflict.eventId));
+          if (conflict.googleEventId) {
+            // The local copy was pushed back when it won; remove it from Google again
+            await googleCalendarService.deleteEvent(conflict.googleEventId, conflict.googleCalendarId).catch(() => undefined);
+          }
+        }
+      } else {
+        const local = { ...conflict.local, updatedAt: new Date() };
+        const googleCalendarId = conflict.googleCalendarId || 'primary';
+        let googleEventId: string | null = conflict.googleEventId;
+        if (conflict.remote) {
+          await googleCalendarService.updateEvent(snapshotToEvent(conflict.eventId, local, googleCalendarId, googleEventId));
+        } else {
+          // Deleted in Google: recreate it there
+          googleEventId = await googleCalendarService.syncEvent(snapshotToEvent(conflict.eventId, local, googleCalendarId));
+        }
+        const calendarId = calendarService.calendarIdForGoogle(googleCalendarId);
+        await setDoc(this.eventRef(uid, conflict.eventId), {
+          ...snapshotToFirestore(local),
+          ...(calendarId && { calendarId }),
+          ...(googleEventId && { googleEventId, googleCalendarId })
+        });
+      }
+    }
+
+    if (conflict.id) {
+      await deleteDoc(doc(db, 'users', uid, 'syncConflicts', conflict.id));
+    }
+  }
+}
+
+export const googleSyncService = new GoogleSyncService();
@@ -0,0 +1,305 @@
+import { auth, googleProvider } from '../firebase';
+import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth';
+
+// 'expired': access was granted but the token ran out and couldn't be renewed silently; the next connect() renews it
+export type GoogleConnectionState = 'connected' | 'expired' | 'disconnected';
+
+interface StoredToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Minimal typings for the Google Identity Services token client
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number | string;
+  error?: string;
+}
+
+interface TokenClient {
+  requestAccessToken(overrides?: { prompt?: string; login_hint?: string }): void;
+}
+
+declare global {
+  interface Window {
+    google?: {
+      accounts: {
+        oauth2: {
+          initTokenClient(config: {
+            client_id: string;
+            scope: string;
+            callback: (response: TokenResponse) => void;
+            error_callback?: (error: { type: string }) => void;
+          }): TokenClient;
+          revoke(token: string, done?: () => void): void;
+        };
+      };
+    };
+  }
+}
+
+const STORAGE_KEY = 'googleCalendarToken';
+// Keys used before the token manager; cleared on load
+const LEGACY_KEYS = ['googleAccessToken', 'googleRefreshToken'];
+const LEGACY_SESSION_KEY = 'google_access_token';
+
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar';
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+// Google access tokens live for an hour; Firebase doesn't report the actual lifetime
+const DEFAULT_LIFETIME_SECONDS = 3600;
+// Treat the token as expired this long before it is, so requests never go out with a stale token
+const EXPIRY_MARGIN_MS = 60 * 1000;
+// Renew the token this long before it's treated as expired
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+// Optional backend that hands out fresh access tokens from a refresh token it keeps
+const TOKEN_REFRESH_URL = import.meta.env.VITE_GOOGLE_TOKEN_URL;
+
+/**
+ * Owns the Google OAuth access token used for Calendar API calls.
+ *
+ * Tokens come from the Firebase Google sign-in (Login) or from Google Identity Services when
+ * `VITE_GOOGLE_CLIENT_ID` is set. Shortly before a token expires it's renewed in the background:
+ * from the `VITE_GOOGLE_TOKEN_URL` backend when there is one, otherwise silently through GIS.
+ * If that fails (e.g. the browser blocks GIS outside a click), the state turns 'expired' and
+ * the next connect() from a click renews it.
+ */
+class GoogleTokenManager {
+  private token: StoredToken | null = null;
+  private listeners = new Set<(state: GoogleConnectionState) => void>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private pendingRequest: Promise<boolean> | null = null;
+  private gisLoader: Promise<void> | null = null;
+
+  constructor() {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    sessionStorage.removeItem(LEGACY_SESSION_KEY);
+
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.token = stored ? JSON.parse(stored) : null;
+    } catch {
+      this.token = null;
+    }
+
+    if (this.token) {
+      this.scheduleRefresh();
+      // Loaded ahead of time, so a later connect() can open the popup while the click still counts
+      if (import.meta.env.VITE_GOOGLE_CLIENT_ID) this.loadGis().catch(() => undefined);
+    }
+  }
+
+  getState(): GoogleConnectionState {
+    if (!this.token) return 'disconnected';
+    return this.token.expiresAt - EXPIRY_MARGIN_MS > Date.now() ? 'connected' : 'expired';
+  }
+
+  isConnected(): boolean {
+    return this.getState() === 'connected';
+  }
+
+  subscribe(listener: (state: GoogleConnectionState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Store a freshly obtained token, e.g. from the Firebase sign-in popup
+  setToken(accessToken: string, expiresInSeconds = DEFAULT_LIFETIME_SECONDS): void {
+    this.token = { accessToken, expiresAt: Date.now() + expiresInSeconds * 1000 };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.token));
+    this.scheduleRefresh();
+    this.notify();
+  }
+
+  // The current token; renewal happens ahead of expiry, not here
+  async getAccessToken(): Promise<string> {
+    const state = this.getState();
+    if (state === 'expired') {
+      throw new Error('Google Calendar access expired. Click "Reconnect Google Calendar" to renew it.');
+    }
+    if (state === 'disconnected') {
+      throw new Error('Google Calendar not connected. Please reconnect Google Calendar.');
+    }
+    return this.token!.accessToken;
+  }
+
+  async ensureToken(): Promise<boolean> {
+    try {
+      await this.getAccessToken();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The API rejected the token (401): treat it as expired and try to renew it right away
+  invalidate(): void {
+    if (!this.token || this.getState() === 'expired') return;
+    this.token = { ...this.token, expiresAt: 0 };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.token));
+    this.notify();
+    this.scheduleRefresh();
+  }
+
+  /**
+   * Interactive connect, to be called from a click handler so the popup isn't blocked.
+   * Also renews an expired token; with GIS that skips the consent screen when access
+   * was granted before.
+   */
+  async connect(): Promise<boolean> {
+    if (import.meta.env.VITE_GOOGLE_CLIENT_ID) {
+      return this.requestFromGis(this.token ? '' : 'consent');
+    }
+
+    try {
+      const result = await signInWithPopup(auth, googleProvider);
+      const credential = GoogleAuthProvider.credentialFromResult(result);
+      if (credential?.accessToken) {
+        this.setToken(credential.accessToken);
+        return true;
+      }
+    } catch (error) {
+      console.error('Google Calendar connect failed:', error);
+    }
+    return false;
+  }
+
+  disconnect(): void {
+    const accessToken = this.token?.accessToken;
+    this.clear();
+    if (accessToken && window.google) {
+      window.google.accounts.oauth2.revoke(accessToken);
+    }
+  }
+
+  private clear(): void {
+    const hadToken = !!this.token;
+    this.token = null;
+    localStorage.removeItem(STORAGE_KEY);
+    this.clearTimer();
+    if (hadToken) {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private expiresIn(): number {
+    return this.token ? Math.max(this.token.expiresAt - EXPIRY_MARGIN_MS - Date.now(), 0) : 0;
+  }
+
+  // Renew the token shortly before it expires (right away when it already has). When that
+  // fails, report the change to 'expired' once the token runs out.
+  private scheduleRefresh(): void {
+    this.clearTimer();
+    if (!this.token) return;
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      // On success setToken() schedules the next refresh
+      if (await this.refreshSilently()) return;
+      if (!this.token || this.timer) return;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.notify();
+      }, this.expiresIn());
+    }, Math.max(this.expiresIn() - REFRESH_LEAD_MS, 0));
+  }
+
+  // A new token without user interaction: from the refresh backend, or from GIS without a prompt
+  private async refreshSilently(): Promise<boolean> {
+    if (TOKEN_REFRESH_URL) {
+      try {
+        const idToken = await auth.currentUser?.getIdToken();
+        const response = await fetch(TOKEN_REFRESH_URL, {
+          headers: idToken ? { Authorization: `Bearer ${idToken}` } : {}
+        });
+        if (!response.ok) throw new Error(`Token refresh failed: ${response.status}`);
+        const data: TokenResponse = await response.json();
+        if (!data.access_token) throw new Error(data.error || 'Token refresh returned no token');
+        this.setToken(data.access_token, Number(data.expires_in) || DEFAULT_LIFETIME_SECONDS);
+        return true;
+      } catch (error) {
+        console.error('Google token refresh failed:', error);
+        return false;
+      }
+    }
+    return import.meta.env.VITE_GOOGLE_CLIENT_ID ? this.requestFromGis('') : false;
+  }
+
+  private loadGis(): Promise<void> {
+    if (window.google?.accounts?.oauth2) return Promise.resolve();
+    if (!this.gisLoader) {
+      this.gisLoader = new Promise((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = GIS_SCRIPT_URL;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => {
+          this.gisLoader = null;
+          reject(new Error('Failed to load Google Identity Services'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+    return this.gisLoader;
+  }
+
+  // An empty prompt only shows the consent screen if access hasn't been granted yet.
+  // Concurrent requests (a click during a background refresh) share one popup.
+  private requestFromGis(prompt: '' | 'consent'): Promise<boolean> {
+    if (!this.pendingRequest) {
+      this.pendingRequest = this.requestTokenFromGis(prompt).finally(() => {
+        this.pendingRequest = null;
+      });
+    }
+    return this.pendingRequest;
+  }
+
+  private async requestTokenFromGis(prompt: '' | 'consent'): Promise<boolean> {
+    const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+    if (!clientId) return false;
+
+    try {
+      await this.loadGis();
+    } catch (error) {
+      console.error('Google token request failed:', error);
+      return false;
+    }
+
+    return new Promise(resolve => {
+      const client = window.google!.accounts.oauth2.initTokenClient({
+        client_id: clientId,
+        scope: CALENDAR_SCOPE,
+        callback: (response) => {
+          if (response.access_token) {
+            this.setToken(response.access_token, Number(response.expires_in) || DEFAULT_LIFETIME_SECONDS);
+            console.log('✅ Google token obtained');
+            resolve(true);
+          } else {
+            console.error('Google token request failed:', response.error);
+            resolve(false);
+          }
+        },
+        error_callback: (error) => {
+          console.error('Google token request failed:', error.type);
+          resolve(false);
+        }
+      });
+      client.requestAccessToken({ prompt, login_hint: auth.currentUser?.email || undefined });
+    });
+  }
+}
+
+export const googleTokenManager = new GoogleTokenManager();
@@ -0,0 +1,177 @@
+import { collection, addDoc, updateDoc, doc, Timestamp, deleteField } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { db } from '../firebase';
+import { MyEvent } from '../types';
+import { buildICalendar, parseICalendar, icalUidFor, ICalItem } from '../utils/ical';
+import { htmlToDocument, documentToHtml } from '../utils/richText';
+import { expandOccurrences, parseRecurrence, formatRecurrence, excludeOccurrence, formatICalDate } from '../utils/recurrence';
+import { syncOutboxService } from './syncOutboxService';
+
+export interface IcsExportOptions {
+  from?: Date;          // both unset exports everything
+  to?: Date;
+  includeNotes: boolean;
+}
+
+export interface IcsImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+const inRange = (item: MyEvent, from: Date, to: Date) => {
+  if (item.resource?.recurrence) {
+    return expandOccurrences(item, from, to).length > 0;
+  }
+  return item.start <= to && item.end >= from;
+};
+
+// Whether importing `item` would change anything about `existing`
+const differs = (existing: MyEvent, item: ICalItem) =>
+  existing.title !== item.title ||
+  existing.start.getTime() !== item.start.getTime() ||
+  existing.end.getTime() !== item.end.getTime() ||
+  (existing.resource?.content || '') !== item.content ||
+  (item.kind === 'event' && (
+    !!existing.allDay !== item.allDay ||
+    (existing.resource?.priority || 'medium') !== (item.priority || 'medium') ||
+    (existing.resource?.recurrence || []).join('\n') !== (item.recurrence || []).join('\n') ||
+    (existing.resource?.reminders || []).join(',') !== (item.reminders || []).join(',')
+  ));
+
+class IcsService {
+  // Series are exported as a whole when any of their occurrences falls in the range
+  exportCalendar(items: MyEvent[], options: IcsExportOptions): string {
+    const selected = items.filter(item => {
+      if (item.resource?.isNote && !options.includeNotes) return false;
+      if (options.from && options.to) return inRange(item, options.from, options.to);
+      return true;
+    });
+    return buildICalendar(selected);
+  }
+
+  download(content: string, options: IcsExportOptions): void {
+    const name = options.from && options.to
+      ? `brainot-${format(options.from, 'yyyy-MM-dd')}-to-${format(options.to, 'yyyy-MM-dd')}.ics`
+      : 'brainot.ics';
+    const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Create events and notes from an .ics file. Items whose UID is already known (from an
+   * earlier import, or a BrainNot export) update the existing entry instead of duplicating it.
+   */
+  async importCalendar(uid: string, text: string, existingItems: MyEvent[]): Promise<IcsImportSummary> {
+    const summary: IcsImportSummary = { created: 0, updated: 0, skipped: 0 };
+    const items = parseICalendar(text);
+
+    const byUid = new Map<string, MyEvent>();
+    existingItems.forEach(item => byUid.set(icalUidFor(item), { ...item, resource: { ...item.resource } }));
+
+    // Masters first, so modified instances can exclude themselves from their series
+    const ordered = [...items].sort((a, b) => Number(!!a.recurrenceId) - Number(!!b.recurrenceId));
+
+    for (const parsed of ordered) {
+      // Notes are shown from their document, so it's written along with the HTML derived from it
+      const noteDocument = parsed.kind === 'note' ? htmlToDocument(parsed.content) : null;
+      const item = noteDocument ? { ...parsed, content: documentToHtml(noteDocument) } : parsed;
+      let itemUid = item.uid;
+
+      if (item.recurrenceId) {
+        const master = byUid.get(item.uid);
+        const rule = parseRecurrence(master?.resource?.recurrence);
+        if (master && rule && !rule.exdates.some(exdate => exdate.getTime() === item.recurrenceId!.getTime())) {
+          const recurrence = formatRecurrence(excludeOccurrence(rule, item.recurrenceId), !!master.allDay);
+          await updateDoc(doc(db, 'users', uid, 'events', master.id!), { recurrence, updatedAt: Timestamp.now() });
+          master.resource!.recurrence = recurrence;
+          await syncOutboxService.enqueueUpdate(uid, master);
+        }
+        // The modified instance becomes a standalone event
+        itemUid = `${item.uid}/${formatICalDate(item.recurrenceId, item.allDay)}`;
+      }
+
+      if (item.cancelled) {
+        summary.skipped++;
+        continue;
+      }
+
+      const existing = byUid.get(itemUid);
+      const collectionName = item.kind === 'note' ? 'notes' : 'events';
+      const data = {
+        title: item.title,
+        start: Timestamp.fromDate(item.start),
+        end: Timestamp.fromDate(item.end),
+        content: item.content,
+        ...(noteDocument && { isNote: true, document: noteDocument }),
+        ...(item.kind === 'event' && {
+          allDay: item.allDay,
+          priority: item.priority || 'medium',
+          ...(item.reminders && { reminders: item.reminders }),
+          ...(item.recurrence && { recurrence: item.recurrence })
+        }),
+        icalUid: itemUid,
+        updatedAt: Timestamp.now()
+      };
+
+      if (existing) {
+        if (!!existing.resource?.isNote !== (item.kind === 'note') || !differs(existing, item)) {
+          summary.skipped++;
+          continue;
+        }
+        await updateDoc(doc(db, 'users', uid, collectionName, existing.id!), {
+          ...data,
+          ...(!item.recurrence && existing.resource?.recurrence && { recurrence: deleteField() }),
+          ...(!item.reminders && existing.resource?.reminders && { reminders: deleteField() })
+        });
+        if (item.kind === 'event') {
+          const updated = this.toEvent(existing.id!, item);
+          await syncOutboxService.enqueueUpdate(uid, {
+            ...updated,
+            resource: {
+              ...updated.resource,
+              calendarId: existing.resource?.calendarId,
+              googleEventId: existing.resource?.googleEventId || undefined,
+              googleCalendarId: existing.resource?.googleCalendarId
+            }
+          });
+        }
+        summary.updated++;
+        continue;
+      }
+
+      const docRef = await addDoc(collection(db, 'users', uid, collectionName), data);
+      const created = this.toEvent(docRef.id, item);
+      byUid.set(itemUid, { ...created, resource: { ...created.resource, icalUid: itemUid } });
+      if (item.kind === 'event') {
+        await syncOutboxService.enqueueCreate(uid, created);
+      }
+      summary.created++;
+    }
+
+    return summary;
+  }
+
+  private toEvent(id: string, item: ICalItem): MyEvent {
+    return {
+      id,
+      title: item.title,
+      start: item.start,
+      end: item.end,
+      allDay: item.allDay,
+      resource: {
+        isNote: item.kind === 'note',
+        content: item.content,
+        ...(item.kind === 'event' && { priority: item.priority || 'medium' }),
+        ...(item.reminders && { reminders: item.reminders }),
+        ...(item.recurrence && { recurrence: item.recurrence })
+      }
+    };
+  }
+}
+
+export const icsService = new IcsService();
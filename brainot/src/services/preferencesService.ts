@@ -0,0 +1,54 @@
+import { DateLocaleId, DATE_LOCALES, guessDateLocale } from '../utils/dateLocales';
+import { AI_PROVIDERS, AiSettings } from './aiProviders';
+
+const DATE_LOCALE_KEY = 'brainotDateLocale';
+const AI_SETTINGS_KEY = 'brainotAiSettings';
+
+// The backend proxy keeps model keys out of the browser; users can pick another provider with their own key
+const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'proxy',
+  model: '',
+  baseUrl: '',
+  apiKey: ''
+};
+
+/**
+ * Per-device display preferences, kept in localStorage.
+ *
+ * The date locale decides how date detection reads numeric dates (05/03 as May 3 or 5 March)
+ * and which month and weekday names it understands. Until the user picks one it follows
+ * the browser language.
+ *
+ * The AI settings pick the provider and model behind the note AI actions and quick add.
+ */
+class PreferencesService {
+  getDateLocale(): DateLocaleId {
+    const stored = localStorage.getItem(DATE_LOCALE_KEY);
+    if (stored && DATE_LOCALES.some(locale => locale.id === stored)) {
+      return stored as DateLocaleId;
+    }
+    return guessDateLocale(navigator.language);
+  }
+
+  setDateLocale(locale: DateLocaleId): void {
+    localStorage.setItem(DATE_LOCALE_KEY, locale);
+  }
+
+  getAiSettings(): AiSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || 'null');
+      if (stored && AI_PROVIDERS.some(provider => provider.id === stored.provider)) {
+        return { ...DEFAULT_AI_SETTINGS, ...stored };
+      }
+    } catch (error) {
+      console.error('Error reading AI settings:', error);
+    }
+    return DEFAULT_AI_SETTINGS;
+  }
+
+  setAiSettings(settings: AiSettings): void {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+  }
+}
+
+export const preferencesService = new PreferencesService();
@@ -0,0 +1,52 @@
+import { collection, addDoc, updateDoc, deleteDoc, doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase';
+import { AiPromptTemplate, AiTemplateOutput } from '../types';
+
+const OUTPUTS: AiTemplateOutput[] = ['replace', 'insertBelow', 'newNote'];
+
+export const TEMPLATE_OUTPUT_LABELS: Record<AiTemplateOutput, string> = {
+  replace: 'Replace the selection or note',
+  insertBelow: 'Insert below',
+  newNote: 'Create a new note'
+};
+
+class PromptTemplateService {
+  private templatesCollection(uid: string) {
+    return collection(db, 'users', uid, 'promptTemplates');
+  }
+
+  // Listen to the user's AI prompt templates, sorted by name
+  listen(uid: string, onChange: (templates: AiPromptTemplate[]) => void): () => void {
+    return onSnapshot(this.templatesCollection(uid), (snapshot) => {
+      const templates = snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          name: data.name || 'Untitled prompt',
+          prompt: data.prompt || '',
+          output: OUTPUTS.includes(data.output) ? data.output : 'replace'
+        } as AiPromptTemplate;
+      });
+      onChange(templates.sort((a, b) => a.name.localeCompare(b.name)));
+    });
+  }
+
+  async createTemplate(uid: string, template: Omit<AiPromptTemplate, 'id'>): Promise<string> {
+    const docRef = await addDoc(this.templatesCollection(uid), {
+      name: template.name,
+      prompt: template.prompt,
+      output: template.output
+    });
+    return docRef.id;
+  }
+
+  async updateTemplate(uid: string, templateId: string, changes: Partial<Omit<AiPromptTemplate, 'id'>>): Promise<void> {
+    await updateDoc(doc(db, 'users', uid, 'promptTemplates', templateId), changes);
+  }
+
+  async deleteTemplate(uid: string, templateId: string): Promise<void> {
+    await deleteDoc(doc(db, 'users', uid, 'promptTemplates', templateId));
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
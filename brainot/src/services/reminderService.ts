@@ -0,0 +1,101 @@
+import { addHours, format, formatDistanceToNow } from 'date-fns';
+import toast from 'react-hot-toast';
+import { MyEvent } from '../types';
+import { expandRecurringEvents } from '../utils/recurrence';
+
+// Reminders further out than this are picked up by a later reschedule
+const SCHEDULE_WINDOW_HOURS = 24;
+const RESCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+export const REMINDER_PRESETS = [0, 5, 10, 15, 30, 60, 120, 1440, 10080];
+
+export const formatReminderOffset = (minutes: number): string => {
+  if (minutes === 0) return 'At start time';
+  if (minutes % 10080 === 0) return `${minutes / 10080} week${minutes === 10080 ? '' : 's'} before`;
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'} before`;
+  return `${minutes} minutes before`;
+};
+
+class ReminderService {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private fired = new Set<string>();
+  private rescheduleTimer: ReturnType<typeof setInterval> | null = null;
+  private events: MyEvent[] = [];
+
+  async requestPermission(): Promise<boolean> {
+    if (!('Notification' in window)) return false;
+    if (Notification.permission === 'granted') return true;
+    if (Notification.permission === 'denied') return false;
+    return (await Notification.requestPermission()) === 'granted';
+  }
+
+  // Replace all pending reminders with the ones for `events`
+  schedule(events: MyEvent[]): void {
+    this.events = events;
+    this.clearTimers();
+
+    const now = new Date();
+    const windowEnd = addHours(now, SCHEDULE_WINDOW_HOURS);
+    // Occurrences that start up to a week after the window can still have reminders inside it.
+    // All events are expanded, so modified instances can replace their series' occurrences.
+    const occurrences = expandRecurringEvents(
+      events.filter(e => !e.resource?.isNote),
+      now,
+      addHours(windowEnd, 24 * 7)
+    ).filter(e => e.resource?.reminders?.length);
+
+    occurrences.forEach(event => {
+      event.resource?.reminders?.forEach(minutes => {
+        const fireAt = new Date(event.start.getTime() - minutes * 60000);
+        if (fireAt < now || fireAt > windowEnd) return;
+
+        const key = `${event.id}:${event.start.getTime()}:${minutes}`;
+        if (this.fired.has(key)) return;
+
+        this.timers.set(key, setTimeout(() => {
+          this.timers.delete(key);
+          this.fired.add(key);
+          this.notify(event);
+        }, fireAt.getTime() - now.getTime()));
+      });
+    });
+
+    if (!this.rescheduleTimer) {
+      this.rescheduleTimer = setInterval(() => this.schedule(this.events), RESCHEDULE_INTERVAL_MS);
+    }
+  }
+
+  stop(): void {
+    this.clearTimers();
+    if (this.rescheduleTimer) {
+      clearInterval(this.rescheduleTimer);
+      this.rescheduleTimer = null;
+    }
+    this.events = [];
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private notify(event: MyEvent): void {
+    const when = event.start <= new Date()
+      ? 'Starting now'
+      : `Starts ${formatDistanceToNow(event.start, { addSuffix: true })}`;
+    const body = event.allDay ? `${when} (all day)` : `${when} · ${format(event.start, 'HH:mm')}`;
+
+    toast(`⏰ ${event.title}\n${body}`, { duration: 10000 });
+
+    if ('Notification' in window && Notification.permission === 'granted') {
+      try {
+        new Notification(event.title, { body, tag: `${event.id}:${event.start.getTime()}` });
+      } catch (error) {
+        console.log('Browser notification failed:', error);
+      }
+    }
+  }
+}
+
+export const reminderService = new ReminderService();
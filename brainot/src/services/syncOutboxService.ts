@@ -0,0 +1,314 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { MyEvent } from '../types';
+import { googleCalendarService, GoogleCalendarApiError } from './googleCalendarService';
+import { googleTokenManager } from './googleTokenManager';
+
+export type OutboxOperationType = 'create' | 'update' | 'delete';
+
+// One pending Google Calendar write. Later writes for the same event are merged into it.
+export interface OutboxEntry {
+  key: string;                // `${uid}:${eventId}`
+  uid: string;
+  eventId: string;
+  type: OutboxOperationType;
+  event?: MyEvent;            // latest local version, for create/update
+  googleEventId?: string;
+  googleCalendarId?: string;  // Google calendar the linked event currently lives in
+  revision: number;           // bumped on every merge, so a finished attempt can tell it went stale
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'brainot-sync';
+const STORE_NAME = 'outbox';
+
+const BASE_RETRY_MS = 5000;
+const MAX_RETRY_MS = 30 * 60 * 1000;
+// How often to look again while Google Calendar is not connected or the browser is offline
+const IDLE_RETRY_MS = 60 * 1000;
+
+// Statuses that won't succeed on retry; anything else (network errors, 401, 429, 5xx) is retried
+const PERMANENT_FAILURES = [400, 403, 404, 410];
+
+class SyncOutboxService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private uid: string | null = null;
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeToken: (() => void) | null = null;
+  // Keys whose operation is currently being sent to Google
+  private inFlight = new Set<string>();
+
+  private handleOnline = () => {
+    this.process();
+  };
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('uid', 'uid');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.openDb();
+    return new Promise((resolve, reject) => {
+      const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getEntry(key: string): Promise<OutboxEntry | undefined> {
+    return this.withStore('readonly', store => store.get(key));
+  }
+
+  private async putEntry(entry: OutboxEntry): Promise<void> {
+    await this.withStore('readwrite', store => store.put(entry));
+  }
+
+  private async removeEntry(key: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(key));
+  }
+
+  getPending(uid: string): Promise<OutboxEntry[]> {
+    return this.withStore('readonly', store => store.index('uid').getAll(uid));
+  }
+
+  private async markSynced(uid: string, eventId: string, fields: Record<string, unknown>): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'users', uid, 'events', eventId), fields);
+    } catch (error) {
+      // The event may have been deleted locally in the meantime
+      console.log('Could not update sync state for event:', eventId, error);
+    }
+  }
+
+  private async merge(
+    uid: string,
+    eventId: string,
+    change: Pick<OutboxEntry, 'type' | 'event' | 'googleEventId' | 'googleCalendarId'>
+  ): Promise<void> {
+    const key = `${uid}:${eventId}`;
+    const existing = await this.getEntry(key);
+    const googleEventId = change.googleEventId || existing?.googleEventId;
+    const googleCalendarId = change.googleCalendarId || existing?.googleCalendarId;
+
+    if (change.type === 'delete' && !googleEventId && !this.inFlight.has(key)) {
+      // Never reached Google, so there is nothing to delete there
+      if (existing) await this.removeEntry(key);
+      return;
+    }
+
+    await this.putEntry({
+      key,
+      uid,
+      eventId,
+      // A pending create absorbs later edits until it has a Google ID
+      type: change.type === 'delete' ? 'delete' : googleEventId ? 'update' : 'create',
+      ...(change.type !== 'delete' && { event: change.event }),
+      ...(googleEventId && { googleEventId }),
+      ...(googleCalendarId && { googleCalendarId }),
+      revision: (existing?.revision || 0) + 1,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: existing?.createdAt || Date.now()
+    });
+
+    if (change.type !== 'delete') {
+      await this.markSynced(uid, eventId, { syncedToGoogle: false });
+    }
+    this.process();
+  }
+
+  // Queue creating a new local event in Google Calendar
+  enqueueCreate(uid: string, event: MyEvent): Promise<void> {
+    return this.merge(uid, event.id!, { type: 'create', event });
+  }
+
+  // Queue pushing an edited event; a no-op for events that are neither linked nor queued for Google
+  async enqueueUpdate(uid: string, event: MyEvent): Promise<void> {
+    if (!event.resource?.googleEventId && !(await this.getEntry(`${uid}:${event.id}`))) return;
+    await this.merge(uid, event.id!, {
+      type: 'update',
+      event,
+      googleEventId: event.resource?.googleEventId,
+      googleCalendarId: event.resource?.googleCalendarId
+    });
+  }
+
+  enqueueDelete(uid: string, eventId: string, googleEventId?: string, googleCalendarId?: string): Promise<void> {
+    return this.merge(uid, eventId, { type: 'delete', googleEventId, googleCalendarId });
+  }
+
+  // Start sending queued operations for `uid`, including ones left over from earlier sessions
+  start(uid: string): void {
+    this.uid = uid;
+    window.addEventListener('online', this.handleOnline);
+    // Pick the queue up again as soon as Google Calendar is reconnected
+    this.unsubscribeToken = googleTokenManager.subscribe(state => {
+      if (state === 'connected') this.process();
+    });
+    this.process();
+  }
+
+  stop(): void {
+    this.uid = null;
+    window.removeEventListener('online', this.handleOnline);
+    this.unsubscribeToken?.();
+    this.unsubscribeToken = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  // Send every operation that is due; resolves once the queue has been worked through
+  process(): Promise<void> {
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+    this.running = this.drain()
+      .catch(error => console.log('Sync outbox processing failed:', error))
+      .finally(() => {
+        this.running = null;
+        this.scheduleNext();
+      });
+    return this.running;
+  }
+
+  private async drain(): Promise<void> {
+    do {
+      this.rerun = false;
+      const uid = this.uid;
+      if (!uid || !navigator.onLine || !googleCalendarService.isConnected()) return;
+
+      const due = (await this.getPending(uid))
+        .filter(entry => entry.nextAttemptAt <= Date.now())
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      for (const entry of due) {
+        await this.send(entry);
+      }
+    } while (this.rerun);
+  }
+
+  private async send(entry: OutboxEntry): Promise<void> {
+    this.inFlight.add(entry.key);
+    try {
+      let googleEventId = entry.googleEventId;
+      // Where the Google copy lives once this operation is done
+      const googleCalendarId = entry.type === 'delete'
+        ? entry.googleCalendarId
+        : googleCalendarService.targetCalendarFor(entry.event!);
+
+      if (entry.type === 'create') {
+        // Called directly so a rejection keeps its GoogleCalendarApiError status for fail()
+        googleEventId = await googleCalendarService.createEvent({
+          ...entry.event!,
+          resource: { ...entry.event!.resource, googleEventId: undefined }
+        });
+      } else if (entry.type === 'update') {
+        await googleCalendarService.updateEvent({
+          ...entry.event!,
+          resource: { ...entry.event!.resource, googleEventId, googleCalendarId: entry.googleCalendarId }
+        });
+      } else if (googleEventId) {
+        await googleCalendarService.deleteEvent(googleEventId, entry.googleCalendarId);
+      }
+
+      await this.complete(entry, googleEventId, googleCalendarId);
+    } catch (error) {
+      await this.fail(entry, error);
+    } finally {
+      this.inFlight.delete(entry.key);
+    }
+  }
+
+  private async complete(entry: OutboxEntry, googleEventId?: string, googleCalendarId?: string): Promise<void> {
+    const current = await this.getEntry(entry.key);
+
+    if (current && current.revision !== entry.revision) {
+      // Changed while this attempt was running; the newer operation still has to go out
+      if (googleEventId && entry.type !== 'delete') {
+        await this.putEntry({
+          ...current,
+          googleEventId,
+          ...(googleCalendarId && { googleCalendarId }),
+          type: current.type === 'create' ? 'update' : current.type
+        });
+        if (current.type !== 'delete') {
+          await this.markSynced(entry.uid, entry.eventId, { googleEventId, ...(googleCalendarId && { googleCalendarId }) });
+        }
+      }
+      this.rerun = true;
+      return;
+    }
+
+    if (current) await this.removeEntry(entry.key);
+    if (entry.type !== 'delete') {
+      await this.markSynced(entry.uid, entry.eventId, {
+        ...(googleEventId && { googleEventId }),
+        ...(googleCalendarId && { googleCalendarId }),
+        syncedToGoogle: true
+      });
+    }
+  }
+
+  private async fail(entry: OutboxEntry, error: unknown): Promise<void> {
+    const current = await this.getEntry(entry.key);
+    if (!current || current.revision !== entry.revision) return;
+
+    if (error instanceof GoogleCalendarApiError && PERMANENT_FAILURES.includes(error.status)) {
+      if (entry.type === 'delete' && (error.status === 404 || error.status === 410)) {
+        // Already gone from Google
+        await this.removeEntry(entry.key);
+        return;
+      }
+      console.log(`Dropping Google Calendar ${entry.type} for event ${entry.eventId}:`, error.message);
+      await this.removeEntry(entry.key);
+      return;
+    }
+
+    const attempts = entry.attempts + 1;
+    await this.putEntry({
+      ...current,
+      attempts,
+      nextAttemptAt: Date.now() + Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS),
+      lastError: error instanceof Error ? error.message : String(error)
+    });
+    console.log(`Google Calendar ${entry.type} failed (attempt ${attempts}), will retry:`, error);
+  }
+
+  private async scheduleNext(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    const uid = this.uid;
+    if (!uid) return;
+
+    const pending = await this.getPending(uid).catch(() => []);
+    if (pending.length === 0 || this.uid !== uid) return;
+
+    const delay = navigator.onLine && googleCalendarService.isConnected()
+      ? Math.max(Math.min(...pending.map(entry => entry.nextAttemptAt)) - Date.now(), 1000)
+      : IDLE_RETRY_MS;
+    this.retryTimer = setTimeout(() => this.process(), delay);
+  }
+}
+
+export const syncOutboxService = new SyncOutboxService();
@@ -1,3 +1,5 @@
+import { RichTextDocument } from './utils/richText';
+
 export interface MyEvent {
     id?: string;
     title: string;
@@ -6,14 +8,84 @@ export interface MyEvent {
     allDay?: boolean;
     resource?: {
         isNote?: boolean;
-        content?: string;
-        color?: string;
+        content?: string;           // HTML; for notes it's derived from `document`
+        document?: RichTextDocument; // structured note content
+        color?: string;             // display color, taken from the event's calendar (or feed)
+        calendarId?: string;        // BrainNot calendar; unset means the default calendar
         priority?: 'low' | 'medium' | 'high';
         googleEventId?: string;
+        googleCalendarId?: string;  // Google calendar the linked event lives in; unset means primary
         syncedToGoogle?: boolean;
+        reminders?: number[];       // minutes before start
+        recurrence?: string[];      // RRULE/EXDATE lines, as used by Google Calendar
+        occurrenceStart?: Date;     // set on expanded occurrences of a recurring series
+        seriesStart?: Date;
+        recurringEventId?: string;  // Google ID of the series a modified instance belongs to
+        originalStart?: Date;       // occurrence of that series the instance replaces
+        updatedAt?: Date;           // last local modification, used for sync conflict detection
+        icalUid?: string;           // UID of the .ics item this was imported from
+        feedId?: string;            // set on read-only events from a subscribed ICS feed
     };
 }
 
+// The synced fields of an event, as compared when both sides changed
+export interface EventSnapshot {
+    title: string;
+    start: Date;
+    end: Date;
+    allDay: boolean;
+    content: string;
+    priority: 'low' | 'medium' | 'high';
+    recurrence?: string[];
+    reminders?: number[];
+    updatedAt: Date;
+}
+
+// An event that was changed both locally and in Google Calendar between two syncs.
+// The newer side is applied automatically; the conflict stays listed for manual review.
+export interface SyncConflict {
+    id?: string;
+    eventId: string;
+    googleEventId: string;
+    googleCalendarId?: string;
+    local: EventSnapshot;
+    remote: EventSnapshot | null;   // null when the event was deleted in Google Calendar
+    resolvedWith: 'local' | 'remote';
+    detectedAt: Date;
+}
+
+// A named calendar that events belong to
+export interface UserCalendar {
+    id: string;
+    name: string;
+    color: string;                  // hex, e.g. #3b82f6
+    visible: boolean;
+    googleCalendarId?: string;      // Google calendar to sync with; unset means primary
+}
+
+// Where the result of a user's AI prompt goes
+export type AiTemplateOutput = 'replace' | 'insertBelow' | 'newNote';
+
+// A user-defined AI action, shown in the AI menus next to the built-in ones
+export interface AiPromptTemplate {
+    id: string;
+    name: string;
+    prompt: string;                 // with {{selection}}, {{note}}, {{title}} and {{date}} placeholders
+    output: AiTemplateOutput;
+}
+
+// A subscribed, read-only ICS feed with its cached events
+export interface CalendarFeed {
+    id: string;
+    name: string;
+    url: string;
+    color: string;                  // hex, e.g. #0ea5e9
+    visible: boolean;
+    events: MyEvent[];
+    lastFetchedAt?: Date;
+    lastError?: string;
+}
+
 export interface User {
     uid: string;
     displayName: string | null;
@@ -21,4 +93,10 @@ export interface User {
     photoURL: string | null;
 }
 
+// A slot picked in the calendar. `end` is only set when a time range was selected.
+export interface SelectedSlot {
+    start: Date;
+    end?: Date;
+}
+
 export type ViewType = 'day' | 'week' | 'month' | 'agenda';
@@ -0,0 +1,184 @@
+import { detectDatesInText, DetectedDate, DetectionOptions } from './dateDetection';
+
+export const DATE_DECORATION_CLASS = 'detected-date';
+
+// A text node and where its text sits in the editor's flattened text
+interface TextPiece {
+  node: Text;
+  start: number;
+  end: number;
+  decoration: HTMLElement | null;   // the date span containing the node, if any
+}
+
+// Elements that start a new line, so a date can't be detected across them
+const LINE_BREAKING = /^(?:BR|DIV|P|LI|UL|OL|H[1-6]|BLOCKQUOTE|PRE)$/;
+
+const decorationOf = (node: Node, root: HTMLElement) => {
+  const element = node.parentElement?.closest<HTMLElement>(`.${DATE_DECORATION_CLASS}`);
+  return element && root.contains(element) ? element : null;
+};
+
+// The editor's text, as detection sees it, with the text node behind each character
+const readText = (root: HTMLElement): { text: string; pieces: TextPiece[] } => {
+  let text = '';
+  const pieces: TextPiece[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const data = (node as Text).data;
+      pieces.push({ node: node as Text, start: text.length, end: text.length + data.length, decoration: decorationOf(node, root) });
+      text += data;
+    } else if (LINE_BREAKING.test(node.nodeName) && text && !text.endsWith('\n')) {
+      text += '\n';
+    }
+  }
+  return { text, pieces };
+};
+
+const decorationAttributes = (detected: DetectedDate): Record<string, string> => {
+  // Dates that could be read another way get a dashed amber underline and a hint
+  const ambiguous = detected.confidence < 1;
+  return {
+    'data-date': detected.start.toISOString(),
+    ...(detected.end && { 'data-end': detected.end.toISOString() }),
+    'data-has-time': String(detected.hasTime),
+    'data-confidence': String(detected.confidence),
+    ...(ambiguous && { title: 'Ambiguous date, check it before creating an event' }),
+    style: ambiguous
+      ? 'text-decoration: underline dashed; text-decoration-color: #f59e0b; cursor: pointer;'
+      : 'text-decoration: underline; text-decoration-color: #3b82f6; cursor: pointer;'
+  };
+};
+
+const hasAttributes = (element: HTMLElement, attributes: Record<string, string>) =>
+  Object.entries(attributes).every(([name, value]) => element.getAttribute(name) === value) &&
+  ['data-end', 'title'].every(name => name in attributes || !element.hasAttribute(name));
+
+// The spans that already decorate exactly `detected`, or null when it needs (re)wrapping
+const existingDecorations = (pieces: TextPiece[], detected: DetectedDate) => {
+  const covered = pieces.filter(piece => piece.start < detected.endIndex && piece.end > detected.startIndex);
+  const spans = new Set(covered.map(piece => piece.decoration));
+  if (covered.length === 0 || spans.has(null)) return null;
+
+  // The spans must hold the date's text and nothing else
+  const spanPieces = pieces.filter(piece => piece.decoration && spans.has(piece.decoration) && piece.end > piece.start);
+  const attributes = decorationAttributes(detected);
+  const exact = spanPieces.every(piece => piece.start >= detected.startIndex && piece.end <= detected.endIndex) &&
+    [...spans].every(span => hasAttributes(span!, attributes));
+  return exact ? spans as Set<HTMLElement> : null;
+};
+
+const unwrap = (element: HTMLElement) => {
+  const parent = element.parentNode!;
+  while (element.firstChild) parent.insertBefore(element.firstChild, element);
+  parent.removeChild(element);
+};
+
+// Wrap characters [start, end) of `piece`'s text node in a date span, leaving formatting around it alone
+const wrapPiece = (piece: TextPiece, start: number, end: number, attributes: Record<string, string>) => {
+  let node = piece.node;
+  if (start > piece.start) node = node.splitText(start - piece.start);
+  if (end < piece.end) node.splitText(end - Math.max(start, piece.start));
+
+  const span = document.createElement('span');
+  span.className = DATE_DECORATION_CLASS;
+  Object.entries(attributes).forEach(([name, value]) => span.setAttribute(name, value));
+  node.parentNode!.insertBefore(span, node);
+  span.appendChild(node);
+};
+
+// Caret and selection as offsets into the flattened text, so they survive DOM changes
+const pointToOffset = (pieces: TextPiece[], textLength: number, container: Node, offset: number) => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const piece = pieces.find(candidate => candidate.node === container);
+    if (piece) return piece.start + offset;
+  }
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const next = pieces.find(piece => point.comparePoint(piece.node, 0) >= 0);
+  return next ? next.start : textLength;
+};
+
+const childIndex = (node: Node) => Array.prototype.indexOf.call(node.parentNode!.childNodes, node);
+
+const offsetToPoint = (pieces: TextPiece[], offset: number): { node: Node; offset: number } | null => {
+  // At a boundary, plain text wins over a date span, so typing next to a date doesn't extend it
+  const touching = pieces.filter(piece => piece.start <= offset && offset <= piece.end);
+  const piece = touching.find(candidate => !candidate.decoration) || touching[0];
+  if (!piece) return null;
+
+  const span = piece.decoration;
+  if (span && offset === piece.start && span.firstChild === piece.node) {
+    return { node: span.parentNode!, offset: childIndex(span) };
+  }
+  if (span && offset === piece.end && span.lastChild === piece.node) {
+    return { node: span.parentNode!, offset: childIndex(span) + 1 };
+  }
+  return { node: piece.node, offset: offset - piece.start };
+};
+
+/**
+ * Underline the dates found in `root`'s text by wrapping just those characters in
+ * `.detected-date` spans. Bold, italics and other markup around the dates stay as they are;
+ * spans that still match their date are left untouched, stale ones are unwrapped, and the
+ * caret keeps its place in the text. Returns whether the DOM changed.
+ */
+export const decorateDates = (root: HTMLElement, options: DetectionOptions = {}): boolean => {
+  const before = readText(root);
+  const detections = detectDatesInText(before.text, options);
+
+  const kept = new Set<HTMLElement>();
+  const pending: DetectedDate[] = [];
+  detections.forEach(detected => {
+    const spans = existingDecorations(before.pieces, detected);
+    if (spans) spans.forEach(span => kept.add(span));
+    else pending.push(detected);
+  });
+  const stale = Array.from(root.querySelectorAll<HTMLElement>(`.${DATE_DECORATION_CLASS}`)).filter(span => !kept.has(span));
+  if (pending.length === 0 && stale.length === 0) return false;
+
+  const selection = window.getSelection();
+  const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+  const saved = range && root.contains(range.startContainer) && root.contains(range.endContainer)
+    ? {
+      start: pointToOffset(before.pieces, before.text.length, range.startContainer, range.startOffset),
+      end: pointToOffset(before.pieces, before.text.length, range.endContainer, range.endOffset)
+    }
+    : null;
+
+  stale.forEach(unwrap);
+  // Later dates first, so splitting text nodes doesn't move the earlier ones
+  [...pending].reverse().forEach(detected => {
+    const attributes = decorationAttributes(detected);
+    readText(root).pieces
+      .filter(piece => piece.start < detected.endIndex && piece.end > detected.startIndex)
+      .reverse()
+      .forEach(piece => wrapPiece(piece, Math.max(piece.start, detected.startIndex), Math.min(piece.end, detected.endIndex), attributes));
+  });
+
+  if (saved && selection) {
+    const { pieces } = readText(root);
+    const start = offsetToPoint(pieces, saved.start);
+    const end = offsetToPoint(pieces, saved.end);
+    if (start && end) {
+      const restored = document.createRange();
+      restored.setStart(start.node, start.offset);
+      restored.setEnd(end.node, end.offset);
+      selection.removeAllRanges();
+      selection.addRange(restored);
+    }
+  }
+  return true;
+};
+
+// The date a clicked decoration stands for, as written by decorateDates
+export const readDateDecoration = (element: HTMLElement): Pick<DetectedDate, 'start' | 'end' | 'hasTime'> | null => {
+  const start = element.getAttribute('data-date');
+  if (!start) return null;
+  const end = element.getAttribute('data-end');
+  return {
+    start: new Date(start),
+    ...(end && { end: new Date(end) }),
+    hasTime: element.getAttribute('data-has-time') === 'true'
+  };
+};
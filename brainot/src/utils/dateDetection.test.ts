@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import { detectDatesInText, parseQuickAdd } from './dateDetection';
+import { DateLocaleId } from './dateLocales';
+
+// Wednesday, March 4 2026, 10:00
+const referenceDate = new Date(2026, 2, 4, 10, 0);
+
+const show = (date?: Date) => (date ? format(date, 'yyyy-MM-dd HH:mm') : undefined);
+
+interface DetectionCase {
+  locale: DateLocaleId;
+  text: string;
+  expected: { text: string; start: string; end?: string; hasTime: boolean; confidence: number }[];
+}
+
+const detectionCases: DetectionCase[] = [
+  // English (US)
+  { locale: 'en-US', text: 'Buy milk', expected: [] },
+  { locale: 'en-US', text: 'Lunch tomorrow at noon', expected: [
+    { text: 'tomorrow at noon', start: '2026-03-05 12:00', hasTime: true, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Review on 05/03/2026', expected: [
+    { text: '05/03/2026', start: '2026-05-03 00:00', hasTime: false, confidence: 0.5 }
+  ] },
+  { locale: 'en-US', text: 'Due 12/12/2026', expected: [
+    { text: '12/12/2026', start: '2026-12-12 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Due 25/12/2026', expected: [
+    { text: '25/12/2026', start: '2026-12-25 00:00', hasTime: false, confidence: 0.6 }
+  ] },
+  { locale: 'en-US', text: 'Trip Jan 3–5, 2027', expected: [
+    { text: 'Jan 3–5, 2027', start: '2027-01-03 00:00', end: '2027-01-05 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Call next Tuesday 3-4pm', expected: [
+    { text: 'next Tuesday 3-4pm', start: '2026-03-10 15:00', end: '2026-03-10 16:00', hasTime: true, confidence: 0.8 }
+  ] },
+  { locale: 'en-US', text: 'Party Friday 10pm-1am', expected: [
+    { text: 'Friday 10pm-1am', start: '2026-03-06 22:00', end: '2026-03-07 01:00', hasTime: true, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Standup 14:30', expected: [
+    { text: '14:30', start: '2026-03-04 14:30', hasTime: true, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Ship it in 3 days', expected: [
+    { text: 'in 3 days', start: '2026-03-07 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Ping me in 2 hours', expected: [
+    { text: 'in 2 hours', start: '2026-03-04 12:00', hasTime: true, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Vacation next week', expected: [
+    { text: 'next week', start: '2026-03-09 00:00', end: '2026-03-15 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'en-US', text: 'Invoices end of month', expected: [
+    { text: 'end of month', start: '2026-03-31 00:00', hasTime: false, confidence: 1 }
+  ] },
+
+  // English (UK)
+  { locale: 'en-GB', text: 'Review on 05/03/2026', expected: [
+    { text: '05/03/2026', start: '2026-03-05 00:00', hasTime: false, confidence: 0.5 }
+  ] },
+  { locale: 'en-GB', text: 'Party on 1st Jan 2027', expected: [
+    { text: '1st Jan 2027', start: '2027-01-01 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'en-GB', text: 'Dinner 3rd March at 7:30 pm', expected: [
+    { text: '3rd March at 7:30 pm', start: '2026-03-03 19:30', hasTime: true, confidence: 1 }
+  ] },
+
+  // German
+  { locale: 'de-DE', text: 'Termin am 5.3. um 15 Uhr', expected: [
+    { text: '5.3. um 15 Uhr', start: '2026-03-05 15:00', hasTime: true, confidence: 0.9 }
+  ] },
+  { locale: 'de-DE', text: 'Zahnarzt morgen 14:30', expected: [
+    { text: 'morgen 14:30', start: '2026-03-05 14:30', hasTime: true, confidence: 1 }
+  ] },
+  { locale: 'de-DE', text: 'Guten Morgen zusammen', expected: [] },
+  { locale: 'de-DE', text: 'Joggen am Morgen', expected: [] },
+  { locale: 'de-DE', text: 'Morgen ist Feiertag', expected: [] },
+  { locale: 'de-DE', text: 'Sprint nächsten Montag', expected: [
+    { text: 'nächsten Montag', start: '2026-03-09 00:00', hasTime: false, confidence: 0.8 }
+  ] },
+  { locale: 'de-DE', text: 'Urlaub 3. März 2027', expected: [
+    { text: '3. März 2027', start: '2027-03-03 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'de-DE', text: 'Abgabe 05.03.2026', expected: [
+    { text: '05.03.2026', start: '2026-03-05 00:00', hasTime: false, confidence: 0.5 }
+  ] },
+
+  // French
+  { locale: 'fr-FR', text: 'Réunion lundi prochain à 9h', expected: [
+    { text: 'lundi prochain à 9h', start: '2026-03-09 09:00', hasTime: true, confidence: 0.8 }
+  ] },
+  { locale: 'fr-FR', text: 'Loyer le 1er avril', expected: [
+    { text: '1er avril', start: '2026-04-01 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'fr-FR', text: 'Appeler demain', expected: [
+    { text: 'demain', start: '2026-03-05 00:00', hasTime: false, confidence: 1 }
+  ] },
+
+  // Spanish
+  { locale: 'es-ES', text: 'Cita el próximo martes a las 15h', expected: [
+    { text: 'próximo martes a las 15h', start: '2026-03-10 15:00', hasTime: true, confidence: 0.8 }
+  ] },
+  { locale: 'es-ES', text: 'Boda el 3 de marzo de 2027', expected: [
+    { text: '3 de marzo de 2027', start: '2027-03-03 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'es-ES', text: 'Llamar mañana', expected: [
+    { text: 'mañana', start: '2026-03-05 00:00', hasTime: false, confidence: 1 }
+  ] },
+  { locale: 'es-ES', text: 'Clase martes que viene', expected: [
+    { text: 'martes que viene', start: '2026-03-10 00:00', hasTime: false, confidence: 0.8 }
+  ] }
+];
+
+interface QuickAddCase {
+  text: string;
+  locale?: DateLocaleId;
+  expected: { title: string; start: string; end: string; allDay: boolean; priority: string; confident: boolean };
+}
+
+const quickAddCases: QuickAddCase[] = [
+  { text: 'Design review with Ana next Tuesday 3-4pm high priority', expected: {
+    title: 'Design review with Ana', start: '2026-03-10 15:00', end: '2026-03-10 16:00', allDay: false, priority: 'high', confident: true
+  } },
+  { text: 'Dentist tomorrow at 3 for 30 min', expected: {
+    title: 'Dentist', start: '2026-03-05 15:00', end: '2026-03-05 15:30', allDay: false, priority: 'medium', confident: false
+  } },
+  { text: 'Team offsite Jan 3–5, 2027 !low', expected: {
+    title: 'Team offsite', start: '2027-01-03 00:00', end: '2027-01-05 23:59', allDay: true, priority: 'low', confident: true
+  } },
+  { text: 'Gym every Monday', expected: {
+    title: 'Gym', start: '2026-03-09 00:00', end: '2026-03-09 23:59', allDay: true, priority: 'medium', confident: false
+  } },
+  { text: 'Buy milk', expected: {
+    title: 'Buy milk', start: '2026-03-04 00:00', end: '2026-03-04 23:59', allDay: true, priority: 'medium', confident: false
+  } },
+  { text: 'Steuererklärung 31.05.2026 für 2 Stunden', locale: 'de-DE', expected: {
+    title: 'Steuererklärung', start: '2026-05-31 00:00', end: '2026-05-31 23:59', allDay: true, priority: 'medium', confident: true
+  } },
+  { text: 'Arzttermin morgen um 15 Uhr für 30 Minuten dringend', locale: 'de-DE', expected: {
+    title: 'Arzttermin', start: '2026-03-05 15:00', end: '2026-03-05 15:30', allDay: false, priority: 'high', confident: true
+  } },
+  { text: 'Réunion demain à 9h pendant une heure priorité basse', locale: 'fr-FR', expected: {
+    title: 'Réunion', start: '2026-03-05 09:00', end: '2026-03-05 10:00', allDay: false, priority: 'low', confident: true
+  } },
+  { text: 'Llamada mañana a las 10h durante 45 minutos prioridad alta', locale: 'es-ES', expected: {
+    title: 'Llamada', start: '2026-03-05 10:00', end: '2026-03-05 10:45', allDay: false, priority: 'high', confident: true
+  } },
+  { text: 'Yoga jeden Dienstag um 18 Uhr', locale: 'de-DE', expected: {
+    title: 'Yoga', start: '2026-03-10 18:00', end: '2026-03-10 19:00', allDay: false, priority: 'medium', confident: false
+  } },
+  // A duration without "for" isn't understood, so the parse is left to the AI fallback
+  { text: 'Workshop Freitag 3 Stunden', locale: 'de-DE', expected: {
+    title: 'Workshop 3 Stunden', start: '2026-03-06 00:00', end: '2026-03-06 23:59', allDay: true, priority: 'medium', confident: false
+  } }
+];
+
+describe('detectDatesInText', () => {
+  it.each(detectionCases)('$locale: $text', ({ locale, text, expected }) => {
+    const detected = detectDatesInText(text, { locale, referenceDate }).map(date => ({
+      text: date.text,
+      start: show(date.start),
+      ...(date.end && { end: show(date.end) }),
+      hasTime: date.hasTime,
+      confidence: date.confidence
+    }));
+    expect(detected).toEqual(expected);
+  });
+
+  it('gives the same result for the same reference date', () => {
+    const first = detectDatesInText('next Friday at 9am', { referenceDate });
+    const second = detectDatesInText('next Friday at 9am', { referenceDate: new Date(referenceDate) });
+    expect(second).toEqual(first);
+  });
+});
+
+describe('parseQuickAdd', () => {
+  it.each(quickAddCases)('$text', ({ text, locale, expected }) => {
+    const event = parseQuickAdd(text, { locale, referenceDate });
+    expect({
+      title: event.title,
+      start: show(event.start),
+      end: show(event.end),
+      allDay: event.allDay,
+      priority: event.priority,
+      confident: event.confident
+    }).toEqual(expected);
+  });
+});
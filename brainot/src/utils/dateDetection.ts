@@ -1,137 +1,587 @@
-import { parse, isValid, format } from 'date-fns';
+import {
+  isValid,
+  addDays,
+  addWeeks,
+  addMonths,
+  addYears,
+  addHours,
+  addMinutes,
+  startOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear
+} from 'date-fns';
+import { DateLocale, DateLocaleId, DateVocabulary, getDateLocale } from './dateLocales';
 
 export interface DetectedDate {
   text: string;
-  date: Date;
+  start: Date;
+  end?: Date;         // set for ranges such as "Jan 3–5", "2-4pm" or "next week"
+  hasTime: boolean;   // whether a time of day was given; otherwise start (and end) are whole days
+  confidence: number; // 0–1; below 1 when the text can also be read another way, e.g. 05/03/2026
   startIndex: number;
   endIndex: number;
 }
 
-const datePatterns = [
-  // MM/DD/YYYY, MM-DD-YYYY
-  /\b(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})\b/g,
-  // Month DD, YYYY
-  /\b(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{1,2}),?\s+(\d{4})\b/gi,
-  // Mon DD, YYYY
-  /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2}),?\s+(\d{4})\b/gi,
-  // Ordinal dates with year FIRST (longer patterns first): 1st January 2024
-  /\b(\d{1,2})(st|nd|rd|th)\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})\b/gi,
-  // Short ordinal with year: 1st Jan 2024
-  /\b(\d{1,2})(st|nd|rd|th)\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{4})\b/gi,
-  // Ordinal dates without year: 1st January, 2nd March
-  /\b(\d{1,2})(st|nd|rd|th)\s+(January|February|March|April|May|June|July|August|September|October|November|December)\b/gi,
-  // Short ordinal without year: 1st Jan, 2nd Mar
-  /\b(\d{1,2})(st|nd|rd|th)\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\b/gi,
-  // Today, Tomorrow, Yesterday
-  /\b(today|tomorrow|yesterday)\b/gi,
-  // Next/This Monday, Tuesday, etc.
-  /\b(next|this)\s+(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/gi,
-];
+export interface DetectionOptions {
+  locale?: DateLocaleId;   // numeric date order and extra month/weekday vocabulary; en-US by default
+  referenceDate?: Date;    // "now" for relative phrases and dates without a year; the current time by default
+}
+
+interface Span {
+  start: Date;
+  end?: Date;
+  hasTime?: boolean;
+  confidence: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+interface TimeSpan {
+  start: TimeOfDay;
+  end?: TimeOfDay;
+  confidence: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+// Letters and digits, so words with accents ("März", "miércoles") get proper boundaries
+const WORD_START = '(?<![\\p{L}\\d])';
+const WORD_END = '(?![\\p{L}\\d])';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Regex alternation of `words`, longest first so "sept" wins over "sep"
+const alternatives = (words: string[]) =>
+  [...new Set(words)].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+
+// Lowercase name -> index, e.g. month or weekday number
+const indexLookup = (names: string[][][]) => {
+  const lookup = new Map<string, number>();
+  names.forEach(perIndex => perIndex.forEach((words, index) => words.forEach(word => lookup.set(word, index))));
+  return lookup;
+};
+
+const toNumber = (value: string) => NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+// A calendar date, or null for impossible ones like February 30
+const makeDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  return isValid(date) && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+const withTime = (date: Date, time: TimeOfDay) => {
+  const result = new Date(date);
+  result.setHours(time.hours, time.minutes, 0, 0);
+  return result;
+};
 
-export const detectDatesInText = (text: string): DetectedDate[] => {
-  const detectedDates: DetectedDate[] = [];
-
-  datePatterns.forEach(pattern => {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      const matchText = match[0];
-      let parsedDate: Date | null = null;
-
-      if (matchText.toLowerCase() === 'today') {
-        parsedDate = new Date();
-      } else if (matchText.toLowerCase() === 'tomorrow') {
-        parsedDate = new Date();
-        parsedDate.setDate(parsedDate.getDate() + 1);
-      } else if (matchText.toLowerCase() === 'yesterday') {
-        parsedDate = new Date();
-        parsedDate.setDate(parsedDate.getDate() - 1);
-      } else if (matchText.toLowerCase().includes('next') || matchText.toLowerCase().includes('this')) {
-        const dayName = match[2];
-        const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-        const targetDay = days.indexOf(dayName.toLowerCase());
-        if (targetDay !== -1) {
-          parsedDate = new Date();
-          const currentDay = parsedDate.getDay();
-          const daysUntilTarget = (targetDay - currentDay + 7) % 7;
-          if (matchText.toLowerCase().includes('next') || daysUntilTarget === 0) {
-            parsedDate.setDate(parsedDate.getDate() + (daysUntilTarget === 0 ? 7 : daysUntilTarget));
-          } else {
-            parsedDate.setDate(parsedDate.getDate() + daysUntilTarget);
-          }
+// Monday-based weeks, matching the week view
+const weekOptions = { weekStartsOn: 1 as const };
+
+// The next `weekday` after `today`; said on that weekday it means a week from today
+const upcomingWeekday = (weekday: number, today: Date) => {
+  const daysUntil = (weekday - today.getDay() + 7) % 7;
+  return addDays(today, daysUntil === 0 ? 7 : daysUntil);
+};
+
+const periodRange = (unit: string, offset: number, today: Date): { start: Date; end: Date } => {
+  switch (unit) {
+    case 'week': {
+      const start = startOfWeek(addWeeks(today, offset), weekOptions);
+      return { start, end: startOfDay(endOfWeek(start, weekOptions)) };
+    }
+    case 'month': {
+      const start = startOfMonth(addMonths(today, offset));
+      return { start, end: startOfDay(endOfMonth(start)) };
+    }
+    default: {
+      const start = startOfYear(addYears(today, offset));
+      return { start, end: startOfDay(endOfYear(start)) };
+    }
+  }
+};
+
+// Rules resolve matches against the reference date they're given, never the wall clock
+type Rule<T> = {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, referenceDate: Date) => Omit<T, 'startIndex' | 'endIndex'> | null;
+};
+type DateRule = Rule<Span>;
+type TimeRule = Rule<TimeSpan>;
+
+// Date and day range for a day number and month name, null when the day doesn't exist
+const dayInMonth = (referenceDate: Date, day: string, endDay: string | undefined, month: number, year?: string) => {
+  const resolvedYear = year ? Number(year) : referenceDate.getFullYear();
+  const start = makeDate(resolvedYear, month, Number(day));
+  const end = endDay ? makeDate(resolvedYear, month, Number(endDay)) : undefined;
+  if (!start || end === null || (end && end < start)) return null;
+  return { start, ...(end && { end }), confidence: 1 };
+};
+
+const buildDateRules = (locale: DateLocale): DateRule[] => {
+  const vocabularies = locale.vocabularies;
+  const all = (pick: (vocabulary: DateVocabulary) => string[]) => vocabularies.flatMap(pick);
+
+  const months = indexLookup(vocabularies.map(v => v.months));
+  const weekdays = indexLookup(vocabularies.map(v => v.weekdays));
+  const monthNames = alternatives([...months.keys()]);
+  const weekdayNames = alternatives([...weekdays.keys()]);
+  const ordinal = `(?:${vocabularies.map(v => v.dayOrdinal).join('|')})?`;
+  const links = all(v => (v.dayMonthLink ? [v.dayMonthLink] : []));
+  const link = links.length > 0 ? `(?:(?:${links.join('|')})\\s+)?` : '';
+  const relativeDays: [string[], number][] = [[all(v => v.today), 0], [all(v => v.tomorrow), 1], [all(v => v.yesterday), -1]];
+  const nextBefore = all(v => v.nextBefore);
+  const thisBefore = all(v => v.thisBefore);
+  const nextAfter = all(v => v.nextAfter);
+  const ambiguousWords = new Map(vocabularies.flatMap(v => Object.entries(v.ambiguousWords)));
+  const rx = (source: string) => new RegExp(source, 'giu');
+
+  return [
+    // 2026-03-05
+    {
+      pattern: rx(`${WORD_START}(\\d{4})-(\\d{1,2})-(\\d{1,2})${WORD_END}`),
+      resolve: m => {
+        const start = makeDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+        return start && { start, confidence: 1 };
+      }
+    },
+    // 05/03/2026, 05-03-2026, 05.03.2026, read in the locale's order
+    {
+      pattern: rx(`${WORD_START}(\\d{1,2})([/.-])(\\d{1,2})\\2(\\d{4})${WORD_END}`),
+      resolve: m => {
+        const [first, second, year] = [Number(m[1]), Number(m[3]), Number(m[4])];
+        const [month, day] = locale.numericOrder === 'MDY' ? [first, second] : [second, first];
+        const start = makeDate(year, month - 1, day);
+        const swapped = makeDate(year, day - 1, month);
+        if (start) {
+          // Both orders give a real date, so 05/03 might mean either
+          return { start, confidence: swapped && first !== second ? 0.5 : 1 };
         }
-      } else {
-        // Handle ordinal dates
-        if (matchText.match(/\d+(st|nd|rd|th)/)) {
-          const day = matchText.match(/\d+/)?.[0];
-          const monthMatch = matchText.match(/(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)/i);
-          const yearMatch = matchText.match(/\d{4}/);
-          
-          if (day && monthMatch) {
-            const year = yearMatch ? yearMatch[0] : new Date().getFullYear().toString();
-            const dateStr = `${monthMatch[0]} ${day}, ${year}`;
-            
-            const formats = ['MMMM dd, yyyy', 'MMM dd, yyyy'];
-            for (const formatStr of formats) {
-              try {
-                const parsed = parse(dateStr, formatStr, new Date());
-                if (isValid(parsed)) {
-                  parsedDate = parsed;
-                  break;
-                }
-              } catch (e) {
-                // Continue to next format
-              }
-            }
-          }
-        } else {
-          // Regular date parsing
-          const formats = ['MM/dd/yyyy', 'MM-dd-yyyy', 'MMMM dd, yyyy', 'MMM dd, yyyy'];
-          for (const formatStr of formats) {
-            try {
-              const parsed = parse(matchText, formatStr, new Date());
-              if (isValid(parsed)) {
-                parsedDate = parsed;
-                break;
-              }
-            } catch (e) {
-              // Continue to next format
-            }
-          }
+        // Only valid the other way round, e.g. 25/12/2026 with a month-first locale
+        return swapped && { start: swapped, confidence: 0.6 };
+      }
+    },
+    // 5.3. (day-first locales write dates without a year like this)
+    ...(locale.numericOrder === 'DMY' ? [{
+      pattern: rx(`${WORD_START}(\\d{1,2})\\.(\\d{1,2})\\.(?!\\d)`),
+      resolve: (m: RegExpExecArray, referenceDate: Date) => {
+        const start = makeDate(referenceDate.getFullYear(), Number(m[2]) - 1, Number(m[1]));
+        return start && { start, confidence: 0.9 };
+      }
+    }] : []),
+    // January 3, Jan 3rd 2027, Jan 3–5, Jan 3 to 5, 2027
+    {
+      pattern: rx(`${WORD_START}(${monthNames})\\.?\\s+(\\d{1,2})${ordinal}(?:\\s*(?:-|–|to)\\s*(\\d{1,2})${ordinal})?(?:,?\\s+(\\d{4}))?${WORD_END}`),
+      resolve: (m, referenceDate) => dayInMonth(referenceDate, m[2], m[3], months.get(m[1].toLowerCase())!, m[4])
+    },
+    // 3 January, 1st Jan 2024, 3–5 March 2027, 3. März, 3 de marzo de 2027
+    {
+      pattern: rx(`${WORD_START}(\\d{1,2})${ordinal}(?:\\s*(?:-|–)\\s*(\\d{1,2})${ordinal})?\\s+${link}(${monthNames})${WORD_END}\\.?(?:,?\\s+${link}(\\d{4})${WORD_END})?`),
+      resolve: (m, referenceDate) => dayInMonth(referenceDate, m[1], m[2], months.get(m[3].toLowerCase())!, m[4])
+    },
+    // Today, Tomorrow, Yesterday (and their translations)
+    ...relativeDays.map(([words, offset]) => ({
+      pattern: rx(`${WORD_START}(?:${alternatives(words)})${WORD_END}`),
+      resolve: (m: RegExpExecArray, referenceDate: Date) => {
+        const notAfter = ambiguousWords.get(m[0].toLowerCase());
+        if (notAfter) {
+          // "Guten Morgen" or "am Morgen" is the morning, not tomorrow
+          const previous = /(\p{L}+)\s+$/u.exec(m.input.slice(0, m.index))?.[1].toLowerCase();
+          if (m[0] !== m[0].toLowerCase() || (previous && notAfter.includes(previous))) return null;
         }
+        return { start: addDays(startOfDay(referenceDate), offset), confidence: 1 };
+      }
+    })),
+    // Monday, this Friday, next Tuesday, lundi prochain, el próximo martes
+    {
+      pattern: rx(`${WORD_START}(?:(${alternatives([...nextBefore, ...thisBefore])})\\s+)?(${weekdayNames})${
+        nextAfter.length > 0 ? `(?:\\s+(${alternatives(nextAfter)}))?` : '()'
+      }${WORD_END}`),
+      resolve: (m, referenceDate) => {
+        const isNext = (!!m[1] && nextBefore.includes(m[1].toLowerCase())) || !!m[3];
+        // Some people read "next Friday" as the Friday of next week
+        return { start: upcomingWeekday(weekdays.get(m[2].toLowerCase())!, startOfDay(referenceDate)), confidence: isNext ? 0.8 : 1 };
+      }
+    },
+    // in 3 days, in a week, in two months
+    {
+      pattern: /\bin\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)\s+(days?|weeks?|months?|years?)\b/gi,
+      resolve: (m, referenceDate) => {
+        const amount = toNumber(m[1]);
+        const unit = m[2].toLowerCase().replace(/s$/, '');
+        const add = { day: addDays, week: addWeeks, month: addMonths, year: addYears }[unit as 'day' | 'week' | 'month' | 'year'];
+        return { start: add(startOfDay(referenceDate), amount), confidence: 1 };
+      }
+    },
+    // in 2 hours, in 30 minutes
+    {
+      pattern: /\bin\s+(\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten)\s+(hours?|minutes?|mins?)\b/gi,
+      resolve: (m, referenceDate) => {
+        const amount = toNumber(m[1]);
+        const start = /^h/i.test(m[2]) ? addHours(referenceDate, amount) : addMinutes(referenceDate, amount);
+        start.setSeconds(0, 0);
+        return { start, hasTime: true, confidence: 1 };
+      }
+    },
+    // this week, next month, next year
+    {
+      pattern: /\b(this|next)\s+(week|month|year)\b/gi,
+      resolve: (m, referenceDate) => ({
+        ...periodRange(m[2].toLowerCase(), m[1].toLowerCase() === 'next' ? 1 : 0, startOfDay(referenceDate)),
+        confidence: 1
+      })
+    },
+    // end of month, end of next week, start of the year
+    {
+      pattern: /\b(end|start|beginning)\s+of\s+(?:(the|this|next)\s+)?(week|month|year)\b/gi,
+      resolve: (m, referenceDate) => {
+        const range = periodRange(m[3].toLowerCase(), m[2]?.toLowerCase() === 'next' ? 1 : 0, startOfDay(referenceDate));
+        return { start: m[1].toLowerCase() === 'end' ? range.end : range.start, confidence: 1 };
+      }
+    }
+  ];
+};
+
+// Hours of "3pm" or "12am"; without a meridiem the hour is taken as written
+const toHours = (hour: number, meridiem?: string) => {
+  if (!meridiem) return hour;
+  return (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+};
+
+// Bare hours like "at 3" are read as business hours: 1-7 means afternoon
+const guessHours = (hour: number) => (hour >= 1 && hour <= 7 ? hour + 12 : hour);
+
+const validTime = (time: TimeOfDay) => time.hours >= 0 && time.hours < 24 && time.minutes >= 0 && time.minutes < 60;
+
+const buildTimeRules = (locale: DateLocale): TimeRule[] => [
+  // 3-4pm, from 2 to 4pm, 10:30–11:15, between 1 and 3
+  {
+    pattern: /\b(from\s+|between\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*(?:-|–|to|until|till|and)\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/gi,
+    resolve: m => {
+      const [, lead, startHour, startMinutes, startMeridiem, endHour, endMinutes, endMeridiem] = m;
+      // "3-5" alone is more likely a number range than a time
+      if (!startMeridiem && !endMeridiem && !startMinutes && !endMinutes && !lead) return null;
+      if (/and/i.test(m[0]) && !/between/i.test(lead || '')) return null;
+
+      const end = { hours: toHours(Number(endHour), endMeridiem), minutes: Number(endMinutes || 0) };
+      const start = { hours: toHours(Number(startHour), startMeridiem || endMeridiem), minutes: Number(startMinutes || 0) };
+      let confidence = 1;
+      if (!startMeridiem && endMeridiem && start.hours > end.hours) {
+        // "11-1pm" starts in the morning
+        start.hours -= 12;
+      } else if (!startMeridiem && !endMeridiem && !startMinutes && !endMinutes) {
+        start.hours = guessHours(start.hours);
+        end.hours = guessHours(end.hours);
+        confidence = 0.6;
       }
+      return validTime(start) && validTime(end) ? { start, end, confidence } : null;
+    }
+  },
+  // 3pm, at 3:30 pm
+  {
+    pattern: /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/gi,
+    resolve: m => {
+      const start = { hours: toHours(Number(m[1]), m[3]), minutes: Number(m[2] || 0) };
+      return Number(m[1]) >= 1 && Number(m[1]) <= 12 && validTime(start) ? { start, confidence: 1 } : null;
+    }
+  },
+  // 14:30, at 9:00
+  {
+    pattern: /\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/gi,
+    resolve: m => ({ start: { hours: Number(m[1]), minutes: Number(m[2]) }, confidence: 1 })
+  },
+  // 15 Uhr, 15h30, à 9h
+  ...(locale.vocabularies.length > 1 ? [{
+    pattern: /(?<![\p{L}\d])(?:um\s+|à\s+|a\s+las\s+)?([01]?\d|2[0-3])(?:\s*uhr|h)(?:\s*([0-5]\d))?(?![\p{L}\d])/giu,
+    resolve: (m: RegExpExecArray) => ({ start: { hours: Number(m[1]), minutes: Number(m[2] || 0) }, confidence: 1 })
+  }] : []),
+  // at 3
+  {
+    pattern: /\bat\s+(\d{1,2})\b(?!\s*[:/.-]\d)/gi,
+    resolve: m => {
+      const start = { hours: guessHours(Number(m[1])), minutes: 0 };
+      return validTime(start) ? { start, confidence: 0.6 } : null;
+    }
+  },
+  // noon, midnight
+  {
+    pattern: /\b(?:at\s+)?(noon|midday|midnight)\b/gi,
+    resolve: m => ({ start: { hours: m[1].toLowerCase() === 'midnight' ? 0 : 12, minutes: 0 }, confidence: 1 })
+  }
+];
+
+// Building the patterns is comparatively slow, so each locale's rules are built once. The rules
+// are never mutated afterwards: collectSpans matches with matchAll, which works on a copy of
+// each pattern, so no lastIndex carries over between calls.
+const rulesByLocale = new Map<DateLocaleId, { dateRules: DateRule[]; timeRules: TimeRule[] }>();
+
+const rulesFor = (localeId?: DateLocaleId) => {
+  const locale = getDateLocale(localeId);
+  let rules = rulesByLocale.get(locale.id);
+  if (!rules) {
+    rules = { dateRules: buildDateRules(locale), timeRules: buildTimeRules(locale) };
+    rulesByLocale.set(locale.id, rules);
+  }
+  return rules;
+};
 
-      if (parsedDate && isValid(parsedDate)) {
-        detectedDates.push({
-          text: matchText,
-          date: parsedDate,
-          startIndex: match.index!,
-          endIndex: match.index! + matchText.length
-        });
+const overlaps = (a: { startIndex: number; endIndex: number }, b: { startIndex: number; endIndex: number }) =>
+  a.startIndex < b.endIndex && b.startIndex < a.endIndex;
+
+// Run `rules` over `text`, keeping the earliest and then longest match wherever matches overlap
+const collectSpans = <T extends { startIndex: number; endIndex: number }>(
+  text: string,
+  rules: Rule<T>[],
+  referenceDate: Date,
+  taken: { startIndex: number; endIndex: number }[] = []
+): T[] => {
+  const candidates: T[] = [];
+  rules.forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      const resolved = rule.resolve(match as RegExpExecArray, referenceDate);
+      if (resolved) {
+        candidates.push({ ...resolved, startIndex: match.index!, endIndex: match.index! + match[0].length } as T);
       }
     }
   });
 
-  return detectedDates
-    .filter((date, index, arr) => 
-      arr.findIndex(d => d.startIndex === date.startIndex) === index
-    )
-    .sort((a, b) => a.startIndex - b.startIndex);
-};
-
-export const highlightDatesInHTML = (plainText: string, detectedDates: DetectedDate[]): string => {
-  let result = plainText;
-  
-  // Sort dates by position in reverse order to avoid index shifting
-  const sortedDates = [...detectedDates].sort((a, b) => b.startIndex - a.startIndex);
-  
-  sortedDates.forEach(detected => {
-    const beforeDate = result.substring(0, detected.startIndex);
-    const afterDate = result.substring(detected.endIndex);
-    
-    const highlightedDate = `<span class="detected-date" data-date="${detected.date.toISOString()}" style="text-decoration: underline; text-decoration-color: #3b82f6; cursor: pointer;">${detected.text}</span>`;
-    
-    result = beforeDate + highlightedDate + afterDate;
+  const kept: T[] = [];
+  candidates
+    .sort((a, b) => a.startIndex - b.startIndex || (b.endIndex - b.startIndex) - (a.endIndex - a.startIndex))
+    .forEach(candidate => {
+      if (![...taken, ...kept].some(span => overlaps(span, candidate))) kept.push(candidate);
+    });
+  return kept;
+};
+
+// A time belongs to a date when only spaces, commas or a linking word separate them
+const joins = (text: string, from: number, to: number) =>
+  /^[\s,]*(?:(?:at|on|from|@)\s*)?$/i.test(text.slice(from, to));
+
+/**
+ * Find dates, times and ranges in free text: absolute dates ("Jan 3, 2027", "12/05/2026",
+ * "3rd March"), day ranges ("Jan 3–5"), relative days ("tomorrow", "next Tuesday", "Friday",
+ * "in 3 days", "end of month"), periods ("next week") and times ("3pm", "14:30", "from 2 to 4pm").
+ *
+ * A time next to a date is merged into one result; a time on its own refers to the reference day.
+ * Numeric dates follow the locale's order, and its month and weekday names are understood
+ * alongside the English ones.
+ *
+ * Relative phrases are resolved against `options.referenceDate`, so the same text and options
+ * always give the same result.
+ */
+export const detectDatesInText = (text: string, options: DetectionOptions = {}): DetectedDate[] => {
+  const referenceDate = options.referenceDate || new Date();
+  const today = startOfDay(referenceDate);
+  const { dateRules, timeRules } = rulesFor(options.locale);
+  const dates = collectSpans<Span>(text, dateRules, referenceDate);
+  const times = collectSpans<TimeSpan>(text, timeRules, referenceDate, dates);
+  const usedTimes = new Set<TimeSpan>();
+
+  const results: DetectedDate[] = dates.map(date => {
+    if (date.hasTime) {
+      return {
+        text: text.slice(date.startIndex, date.endIndex),
+        start: date.start,
+        hasTime: true,
+        confidence: date.confidence,
+        startIndex: date.startIndex,
+        endIndex: date.endIndex
+      };
+    }
+
+    const time = times.find(t => !usedTimes.has(t) && (
+      (t.startIndex >= date.endIndex && joins(text, date.endIndex, t.startIndex)) ||
+      (t.endIndex <= date.startIndex && joins(text, t.endIndex, date.startIndex))
+    ));
+    if (!time) {
+      return {
+        text: text.slice(date.startIndex, date.endIndex),
+        start: date.start,
+        ...(date.end && { end: date.end }),
+        hasTime: false,
+        confidence: date.confidence,
+        startIndex: date.startIndex,
+        endIndex: date.endIndex
+      };
+    }
+
+    usedTimes.add(time);
+    const startIndex = Math.min(date.startIndex, time.startIndex);
+    const endIndex = Math.max(date.endIndex, time.endIndex);
+    const start = withTime(date.start, time.start);
+    let end = time.end ? withTime(date.end || date.start, time.end) : date.end;
+    if (end && time.end && end <= start) {
+      // A range past midnight, e.g. "10pm-1am"
+      end = addDays(end, 1);
+    }
+    return {
+      text: text.slice(startIndex, endIndex),
+      start,
+      ...(end && { end }),
+      hasTime: true,
+      confidence: Math.min(date.confidence, time.confidence),
+      startIndex,
+      endIndex
+    };
   });
 
-  return result;
-};
\ No newline at end of file
+  times.filter(time => !usedTimes.has(time)).forEach(time => {
+    const start = withTime(today, time.start);
+    let end = time.end ? withTime(today, time.end) : undefined;
+    if (end && end <= start) end = addDays(end, 1);
+    results.push({
+      text: text.slice(time.startIndex, time.endIndex),
+      start,
+      ...(end && { end }),
+      hasTime: true,
+      confidence: time.confidence,
+      startIndex: time.startIndex,
+      endIndex: time.endIndex
+    });
+  });
+
+  return results.sort((a, b) => a.startIndex - b.startIndex);
+};
+
+// ---------------------------------------------------------------------------
+// Quick add: a whole event from one line of text
+
+export interface QuickAddEvent {
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  priority: 'low' | 'medium' | 'high';
+  confident: boolean;   // false when the rules had to guess or left time words unparsed
+}
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+interface QuickAddPatterns {
+  duration: RegExp;               // "for 2 hours", "für 30 Min", "pendant une heure", "for 1.5h"
+  hourUnits: Set<string>;
+  singleUnit: Set<string>;
+  priorities: { pattern: RegExp; priority: QuickAddEvent['priority'] }[];
+  leftoverDuration: RegExp;       // an amount and unit the duration pattern didn't take
+  vagueTimeWords: RegExp;         // finding one in the title means the parse is a guess
+  repeatBefore: RegExp;           // "every" right before a date
+  danglingPrepositions: RegExp;
+}
+
+// Regex for whole words or phrases of `words`, with any whitespace between a phrase's words
+const wordsPattern = (words: string[]) => `${WORD_START}(?:${alternatives(words).replace(/ /g, '\\s+')})${WORD_END}`;
+
+const buildQuickAddPatterns = (locale: DateLocale): QuickAddPatterns => {
+  const all = (pick: (vocabulary: DateVocabulary) => string[]) => locale.vocabularies.flatMap(pick);
+  const units = alternatives([...all(v => v.hourUnits), ...all(v => v.minuteUnits)]);
+  return {
+    duration: new RegExp(
+      `${wordsPattern(all(v => v.durationBefore))}\\s+(${alternatives(all(v => v.singleUnit))}|\\d+(?:[.,]\\d+)?)\\s*(${units})${WORD_END}`,
+      'iu'
+    ),
+    hourUnits: new Set(all(v => v.hourUnits)),
+    singleUnit: new Set(all(v => v.singleUnit)),
+    priorities: [
+      { pattern: new RegExp(`${wordsPattern(all(v => v.highPriority))}|!high\\b|!!+`, 'iu'), priority: 'high' },
+      { pattern: new RegExp(`${wordsPattern(all(v => v.lowPriority))}|!low\\b`, 'iu'), priority: 'low' },
+      { pattern: new RegExp(`${wordsPattern(all(v => v.mediumPriority))}|!medium\\b`, 'iu'), priority: 'medium' }
+    ],
+    leftoverDuration: new RegExp(`${WORD_START}\\d+(?:[.,]\\d+)?\\s*(?:${units})${WORD_END}`, 'iu'),
+    vagueTimeWords: new RegExp(wordsPattern(all(v => v.vagueTimeWords)), 'iu'),
+    repeatBefore: new RegExp(`${wordsPattern(all(v => v.repeatBefore))}\\s+$`, 'iu'),
+    danglingPrepositions: new RegExp(`(?:\\s+${wordsPattern(all(v => v.prepositions))})+$`, 'iu')
+  };
+};
+
+const quickAddPatternsByLocale = new Map<DateLocaleId, QuickAddPatterns>();
+
+const quickAddPatternsFor = (localeId?: DateLocaleId) => {
+  const locale = getDateLocale(localeId);
+  let patterns = quickAddPatternsByLocale.get(locale.id);
+  if (!patterns) {
+    patterns = buildQuickAddPatterns(locale);
+    quickAddPatternsByLocale.set(locale.id, patterns);
+  }
+  return patterns;
+};
+// Detections below this confidence (ambiguous numeric dates, guessed hours) make the parse a guess
+const CONFIDENT_DETECTION = 0.8;
+
+/**
+ * Parse a quick-add line such as "Design review with Ana next Tuesday 3-4pm high priority".
+ * The date and time come from detectDatesInText; durations and priority keywords are
+ * recognized here, and what remains becomes the title. Without a time the event is all-day.
+ */
+export const parseQuickAdd = (text: string, options: DetectionOptions = {}): QuickAddEvent => {
+  const patterns = quickAddPatternsFor(options.locale);
+  let remaining = text;
+  let confident = true;
+  const remove = (startIndex: number, endIndex: number) => {
+    remaining = remaining.slice(0, startIndex) + ' ' + remaining.slice(endIndex);
+  };
+
+  let priority: QuickAddEvent['priority'] = 'medium';
+  for (const entry of patterns.priorities) {
+    const match = remaining.match(entry.pattern);
+    if (match) {
+      priority = entry.priority;
+      remove(match.index!, match.index! + match[0].length);
+      break;
+    }
+  }
+
+  let durationMinutes = DEFAULT_DURATION_MINUTES;
+  const durationMatch = remaining.match(patterns.duration);
+  if (durationMatch) {
+    const amount = patterns.singleUnit.has(durationMatch[1].toLowerCase()) ? 1 : Number(durationMatch[1].replace(',', '.'));
+    durationMinutes = Math.round(patterns.hourUnits.has(durationMatch[2].toLowerCase()) ? amount * 60 : amount);
+    remove(durationMatch.index!, durationMatch.index! + durationMatch[0].length);
+  }
+
+  const referenceDate = options.referenceDate || new Date();
+  const detected = detectDatesInText(remaining, { ...options, referenceDate })[0];
+  if (detected) {
+    if (detected.confidence < CONFIDENT_DETECTION) confident = false;
+    // "every Monday" is taken out whole; the event is only the first occurrence, so it's a guess
+    const repeat = remaining.slice(0, detected.startIndex).match(patterns.repeatBefore);
+    if (repeat) confident = false;
+    remove(repeat ? repeat.index! : detected.startIndex, detected.endIndex);
+  }
+
+  const title = remaining
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Prepositions left dangling by the removed date and time
+    .replace(patterns.danglingPrepositions, '')
+    .replace(/^(?:(?:on|at|from)\s+)+/i, '')
+    .trim();
+
+  if (!detected || !title || patterns.vagueTimeWords.test(title) || patterns.leftoverDuration.test(title)) {
+    confident = false;
+  }
+
+  if (!detected?.hasTime) {
+    const start = detected ? detected.start : startOfDay(referenceDate);
+    const end = new Date(detected?.end || start);
+    end.setHours(23, 59, 59, 0);
+    return { title: title || text.trim(), start, end, allDay: true, priority, confident };
+  }
+
+  const start = detected.start;
+  const end = detected.end || addMinutes(start, durationMinutes);
+  return { title: title || text.trim(), start, end, allDay: false, priority, confident };
+};
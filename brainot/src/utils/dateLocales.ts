@@ -0,0 +1,165 @@
+// Vocabularies and numeric date order used by dateDetection
+
+export type DateLocaleId = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES';
+
+export interface DateVocabulary {
+  months: string[][];      // accepted names per month, January first
+  weekdays: string[][];    // accepted names per weekday, Sunday first
+  today: string[];
+  tomorrow: string[];
+  yesterday: string[];
+  nextBefore: string[];    // "next Monday", "nächsten Montag", "próximo lunes"
+  nextAfter: string[];     // "lundi prochain"
+  thisBefore: string[];    // "this Monday", "diesen Montag"
+  dayOrdinal: string;      // regex for what may follow a day number: "3rd", "3.", "1er"
+  dayMonthLink: string;    // regex for words between day and month: "3 of March", "3 de marzo"
+  ambiguousWords: Record<string, string[]>;  // also ordinary words: only lowercase, never after the words listed
+  // Quick add
+  durationBefore: string[];  // "for 2 hours", "für 2 Stunden", "pendant 2 heures"
+  hourUnits: string[];
+  minuteUnits: string[];
+  singleUnit: string[];      // "an hour", "eine Stunde"
+  highPriority: string[];    // phrases; spaces match any whitespace
+  mediumPriority: string[];
+  lowPriority: string[];
+  vagueTimeWords: string[];  // time words the rules don't understand, e.g. "every", "evening"
+  repeatBefore: string[];    // "every Monday": the date repeats, which quick add can't express
+  prepositions: string[];    // left dangling at the end of a title once the date is taken out
+}
+
+export interface DateLocale {
+  id: DateLocaleId;
+  label: string;
+  numericOrder: 'MDY' | 'DMY';          // how 05/03/2026 is read
+  vocabularies: DateVocabulary[];        // English is always understood as well
+}
+
+const english: DateVocabulary = {
+  months: [
+    ['january', 'jan'], ['february', 'feb'], ['march', 'mar'], ['april', 'apr'], ['may'], ['june', 'jun'],
+    ['july', 'jul'], ['august', 'aug'], ['september', 'sept', 'sep'], ['october', 'oct'], ['november', 'nov'], ['december', 'dec']
+  ],
+  weekdays: [['sunday'], ['monday'], ['tuesday'], ['wednesday'], ['thursday'], ['friday'], ['saturday']],
+  today: ['today'],
+  tomorrow: ['tomorrow'],
+  yesterday: ['yesterday'],
+  nextBefore: ['next'],
+  nextAfter: [],
+  thisBefore: ['this'],
+  dayOrdinal: '(?:st|nd|rd|th)',
+  dayMonthLink: 'of',
+  ambiguousWords: {},
+  durationBefore: ['for'],
+  hourUnits: ['h', 'hr', 'hrs', 'hour', 'hours'],
+  minuteUnits: ['m', 'min', 'mins', 'minute', 'minutes'],
+  singleUnit: ['a', 'an'],
+  highPriority: ['high priority', 'priority high', 'urgent', 'important'],
+  mediumPriority: ['medium priority', 'priority medium'],
+  lowPriority: ['low priority', 'priority low'],
+  vagueTimeWords: ['every', 'daily', 'weekly', 'monthly', 'morning', 'afternoon', 'evening', 'tonight', 'weekend'],
+  repeatBefore: ['every'],
+  prepositions: ['on', 'at', 'from', 'for', 'by']
+};
+
+const german: DateVocabulary = {
+  months: [
+    ['januar', 'jänner', 'jan'], ['februar', 'feb'], ['märz', 'maerz', 'mär'], ['april', 'apr'], ['mai'], ['juni', 'jun'],
+    ['juli', 'jul'], ['august', 'aug'], ['september', 'sept', 'sep'], ['oktober', 'okt'], ['november', 'nov'], ['dezember', 'dez']
+  ],
+  weekdays: [['sonntag'], ['montag'], ['dienstag'], ['mittwoch'], ['donnerstag'], ['freitag'], ['samstag', 'sonnabend']],
+  today: ['heute'],
+  tomorrow: ['morgen'],
+  yesterday: ['gestern'],
+  nextBefore: ['nächsten', 'nächster', 'nächste', 'kommenden', 'kommender', 'kommende'],
+  nextAfter: [],
+  thisBefore: ['diesen', 'dieser', 'diese'],
+  dayOrdinal: '\\.',
+  dayMonthLink: '',
+  // "morgen" is tomorrow, but "Morgen", "guten Morgen" and "am Morgen" mean morning
+  ambiguousWords: { morgen: ['guten', 'am', 'heute', 'gestern'] },
+  durationBefore: ['für'],
+  hourUnits: ['h', 'std', 'stunde', 'stunden'],
+  minuteUnits: ['min', 'minute', 'minuten'],
+  singleUnit: ['eine', 'einer'],
+  highPriority: ['hohe priorität', 'priorität hoch', 'dringend', 'wichtig'],
+  mediumPriority: ['mittlere priorität', 'priorität mittel'],
+  lowPriority: ['niedrige priorität', 'priorität niedrig'],
+  vagueTimeWords: ['jeden', 'jede', 'täglich', 'wöchentlich', 'monatlich', 'morgens', 'vormittag', 'nachmittag', 'abend', 'abends', 'wochenende'],
+  repeatBefore: ['jeden', 'jede', 'jedes'],
+  prepositions: ['am', 'um', 'ab', 'von', 'für', 'bis']
+};
+
+const french: DateVocabulary = {
+  months: [
+    ['janvier', 'janv'], ['février', 'fevrier', 'févr', 'fevr'], ['mars'], ['avril', 'avr'], ['mai'], ['juin'],
+    ['juillet', 'juil'], ['août', 'aout'], ['septembre', 'sept'], ['octobre', 'oct'], ['novembre', 'nov'], ['décembre', 'decembre', 'déc', 'dec']
+  ],
+  weekdays: [['dimanche'], ['lundi'], ['mardi'], ['mercredi'], ['jeudi'], ['vendredi'], ['samedi']],
+  today: ["aujourd'hui", 'aujourd’hui'],
+  tomorrow: ['demain'],
+  yesterday: ['hier'],
+  nextBefore: [],
+  nextAfter: ['prochain', 'prochaine'],
+  thisBefore: ['ce'],
+  dayOrdinal: '(?:er|e)',
+  dayMonthLink: '',
+  ambiguousWords: {},
+  durationBefore: ['pendant', 'durant'],
+  hourUnits: ['h', 'heure', 'heures'],
+  minuteUnits: ['min', 'minute', 'minutes'],
+  singleUnit: ['une'],
+  highPriority: ['priorité haute', 'haute priorité', 'urgent', 'urgente', 'important', 'importante'],
+  mediumPriority: ['priorité moyenne', 'moyenne priorité'],
+  lowPriority: ['priorité basse', 'basse priorité'],
+  vagueTimeWords: ['chaque', 'tous les', 'toutes les', 'quotidien', 'hebdomadaire', 'mensuel', 'matin', 'après-midi', 'soir', 'week-end'],
+  repeatBefore: ['chaque', 'tous les', 'toutes les'],
+  prepositions: ['le', 'à', 'de', 'du', 'pour', 'dès']
+};
+
+const spanish: DateVocabulary = {
+  months: [
+    ['enero', 'ene'], ['febrero', 'feb'], ['marzo', 'mar'], ['abril', 'abr'], ['mayo'], ['junio', 'jun'],
+    ['julio', 'jul'], ['agosto', 'ago'], ['septiembre', 'setiembre', 'sept', 'sep'], ['octubre', 'oct'], ['noviembre', 'nov'], ['diciembre', 'dic']
+  ],
+  weekdays: [['domingo'], ['lunes'], ['martes'], ['miércoles', 'miercoles'], ['jueves'], ['viernes'], ['sábado', 'sabado']],
+  today: ['hoy'],
+  tomorrow: ['mañana', 'manana'],
+  yesterday: ['ayer'],
+  nextBefore: ['próximo', 'proximo', 'próxima', 'proxima'],
+  nextAfter: ['que viene'],
+  thisBefore: ['este', 'esta'],
+  dayOrdinal: '(?:º|°)',
+  dayMonthLink: 'de',
+  ambiguousWords: {},
+  durationBefore: ['durante', 'por'],
+  hourUnits: ['h', 'hora', 'horas'],
+  minuteUnits: ['min', 'minuto', 'minutos'],
+  singleUnit: ['una', 'un'],
+  highPriority: ['prioridad alta', 'alta prioridad', 'urgente', 'importante'],
+  mediumPriority: ['prioridad media', 'media prioridad'],
+  lowPriority: ['prioridad baja', 'baja prioridad'],
+  vagueTimeWords: ['cada', 'todos los', 'todas las', 'diario', 'diaria', 'semanal', 'mensual', 'tarde', 'noche', 'fin de semana'],
+  repeatBefore: ['cada', 'todos los', 'todas las'],
+  prepositions: ['el', 'a', 'de', 'desde', 'para', 'por']
+};
+
+export const DATE_LOCALES: DateLocale[] = [
+  { id: 'en-US', label: 'English (US) · 05/03 = May 3', numericOrder: 'MDY', vocabularies: [english] },
+  { id: 'en-GB', label: 'English (UK) · 05/03 = 5 March', numericOrder: 'DMY', vocabularies: [english] },
+  { id: 'de-DE', label: 'Deutsch · 05.03. = 5. März', numericOrder: 'DMY', vocabularies: [english, german] },
+  { id: 'fr-FR', label: 'Français · 05/03 = 5 mars', numericOrder: 'DMY', vocabularies: [english, french] },
+  { id: 'es-ES', label: 'Español · 05/03 = 5 de marzo', numericOrder: 'DMY', vocabularies: [english, spanish] }
+];
+
+export const getDateLocale = (id?: DateLocaleId): DateLocale =>
+  DATE_LOCALES.find(locale => locale.id === id) || DATE_LOCALES[0];
+
+// Best match for the browser's language, used until the user picks a locale
+export const guessDateLocale = (language: string): DateLocaleId => {
+  const lower = language.toLowerCase();
+  if (lower.startsWith('de')) return 'de-DE';
+  if (lower.startsWith('fr')) return 'fr-FR';
+  if (lower.startsWith('es')) return 'es-ES';
+  if (lower.startsWith('en') && lower !== 'en-us' && lower !== 'en') return 'en-GB';
+  return 'en-US';
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { applyDiff, diffBlockText, diffDocuments } from './documentDiff';
+import { RichTextDocument, emptyDocument, makeBlock } from './richText';
+
+const paragraphs = (...texts: string[]): RichTextDocument => ({
+  version: 1,
+  blocks: texts.map(text => makeBlock('paragraph', [{ text }]))
+});
+
+const texts = (document: RichTextDocument) => document.blocks.map(block => block.content[0]?.text ?? '');
+
+const allHunks = (diff: ReturnType<typeof diffDocuments>) => new Set(diff.hunks.map(hunk => hunk.id));
+
+describe('diffDocuments', () => {
+  const current = paragraphs('intro', 'old wording', 'kept', 'dropped', 'outro');
+  const proposed = paragraphs('intro', 'new wording', 'kept', 'outro', 'added at the end');
+  const diff = diffDocuments(current, proposed);
+
+  it('groups changed blocks into hunks between the unchanged ones', () => {
+    expect(diff.hunks.map(hunk => ({ removed: texts({ version: 1, blocks: hunk.removed }), added: texts({ version: 1, blocks: hunk.added }) })))
+      .toEqual([
+        { removed: ['old wording'], added: ['new wording'] },
+        { removed: ['dropped'], added: [] },
+        { removed: [], added: ['added at the end'] }
+      ]);
+    expect(diff.parts.map(part => part.kind)).toEqual(['equal', 'change', 'equal', 'change', 'equal', 'change']);
+  });
+
+  it('finds no hunks in an unchanged document', () => {
+    expect(diffDocuments(current, current)).toEqual({ parts: [{ kind: 'equal', blocks: current.blocks }], hunks: [] });
+  });
+
+  it('tells blocks apart by type and marks, not only by text', () => {
+    const heading = { version: 1 as const, blocks: [makeBlock('heading', [{ text: 'intro' }], { level: 1 })] };
+    const bold = { version: 1 as const, blocks: [makeBlock('paragraph', [{ text: 'intro', marks: [{ type: 'bold' }] }])] };
+    expect(diffDocuments(paragraphs('intro'), heading).hunks).toHaveLength(1);
+    expect(diffDocuments(paragraphs('intro'), bold).hunks).toHaveLength(1);
+  });
+
+  it('reports long, entirely different documents as one replacement', () => {
+    // 2,001 × 2,001 blocks is past MAX_DIFF_CELLS, so even the shared middle block isn't matched
+    const many = (prefix: string) => Array.from({ length: 1000 }, (_, index) => `${prefix} ${index}`);
+    const before = paragraphs(...many('before'), 'shared', ...many('before, again'));
+    const after = paragraphs(...many('after'), 'shared', ...many('after, again'));
+    const large = diffDocuments(before, after);
+    expect(large.hunks).toHaveLength(1);
+    expect(large.hunks[0].removed).toHaveLength(2001);
+    expect(large.hunks[0].added).toHaveLength(2001);
+    expect(applyDiff(large, allHunks(large))).toEqual(after);
+
+    // Below the limit the shared block is kept
+    const small = diffDocuments(paragraphs('a', 'shared', 'b'), paragraphs('c', 'shared', 'd'));
+    expect(small.hunks).toHaveLength(2);
+  });
+});
+
+describe('applyDiff', () => {
+  const current = paragraphs('intro', 'old wording', 'kept', 'dropped', 'outro');
+  const proposed = paragraphs('intro', 'new wording', 'kept', 'outro', 'added at the end');
+  const diff = diffDocuments(current, proposed);
+
+  it('gives the proposal when every hunk is accepted', () => {
+    expect(applyDiff(diff, allHunks(diff))).toEqual(proposed);
+  });
+
+  it('gives the current document when every hunk is rejected', () => {
+    expect(applyDiff(diff, new Set())).toEqual(current);
+  });
+
+  it('applies only the accepted hunks', () => {
+    expect(texts(applyDiff(diff, new Set([0, 2])))).toEqual(['intro', 'new wording', 'kept', 'dropped', 'outro', 'added at the end']);
+    expect(texts(applyDiff(diff, new Set([1])))).toEqual(['intro', 'old wording', 'kept', 'outro']);
+  });
+
+  it('leaves an empty document rather than no blocks', () => {
+    const removeAll = diffDocuments(paragraphs('only'), { version: 1, blocks: [] });
+    expect(applyDiff(removeAll, allHunks(removeAll))).toEqual(emptyDocument());
+  });
+});
+
+describe('diffBlockText', () => {
+  it('marks changed words', () => {
+    const before = makeBlock('paragraph', [{ text: 'the quick fox jumps' }]);
+    const after = makeBlock('paragraph', [{ text: 'the slow fox jumps high' }]);
+    expect(diffBlockText(before, after)).toEqual([
+      { text: 'the ', change: 'equal' },
+      { text: 'slow', change: 'added' },
+      { text: 'quick', change: 'removed' },
+      { text: ' fox jumps', change: 'equal' },
+      { text: ' high', change: 'added' }
+    ]);
+  });
+
+  it('treats a missing block as empty', () => {
+    expect(diffBlockText(undefined, makeBlock('paragraph', [{ text: 'new' }]))).toEqual([{ text: 'new', change: 'added' }]);
+  });
+});
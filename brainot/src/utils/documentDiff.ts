@@ -0,0 +1,129 @@
+import { Block, RichTextDocument, blockText, emptyDocument } from './richText';
+
+// A piece of a block's text in a diff
+export interface DiffSegment {
+  text: string;
+  change: 'equal' | 'added' | 'removed';
+}
+
+// A run of blocks the proposal replaces; either side may be empty
+export interface DiffHunk {
+  id: number;
+  removed: Block[];   // from the current document
+  added: Block[];     // from the proposed document
+}
+
+export type DiffPart =
+  | { kind: 'equal'; blocks: Block[] }
+  | { kind: 'change'; hunk: DiffHunk };
+
+export interface DocumentDiff {
+  parts: DiffPart[];
+  hunks: DiffHunk[];
+}
+
+type Operation<T> = { change: DiffSegment['change']; item: T };
+
+// Past this many comparisons the middle is reported as one replacement instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff of two lists, as removals, additions and kept items in order
+const diffSequences = <T>(before: T[], after: T[], same: (a: T, b: T) => boolean): Operation<T>[] => {
+  // Shared ends are kept without entering the table
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && same(before[prefix], after[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix && suffix < after.length - prefix &&
+    same(before[before.length - 1 - suffix], after[after.length - 1 - suffix])
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: Operation<T>[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach(item => middle.push({ change: 'removed', item }));
+    b.forEach(item => middle.push({ change: 'added', item }));
+  } else {
+    // lengths[i * width + j]: common subsequence length of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = same(a[i], b[j])
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && same(a[i], b[j])) {
+        middle.push({ change: 'equal', item: a[i] });
+        i++;
+        j++;
+      } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+        middle.push({ change: 'added', item: b[j++] });
+      } else {
+        middle.push({ change: 'removed', item: a[i++] });
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map(item => ({ change: 'equal' as const, item })),
+    ...middle,
+    ...before.slice(before.length - suffix).map(item => ({ change: 'equal' as const, item }))
+  ];
+};
+
+const sameBlock = (a: Block, b: Block) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Compare two documents block by block. Neighbouring changed blocks are grouped into
+ * hunks, which can be accepted or rejected one at a time with applyDiff.
+ */
+export const diffDocuments = (current: RichTextDocument, proposed: RichTextDocument): DocumentDiff => {
+  const parts: DiffPart[] = [];
+  const hunks: DiffHunk[] = [];
+
+  diffSequences(current.blocks, proposed.blocks, sameBlock).forEach(({ change, item }) => {
+    const last = parts[parts.length - 1];
+    if (change === 'equal') {
+      if (last?.kind === 'equal') last.blocks.push(item);
+      else parts.push({ kind: 'equal', blocks: [item] });
+      return;
+    }
+    let hunk = last?.kind === 'change' ? last.hunk : null;
+    if (!hunk) {
+      hunk = { id: hunks.length, removed: [], added: [] };
+      hunks.push(hunk);
+      parts.push({ kind: 'change', hunk });
+    }
+    (change === 'added' ? hunk.added : hunk.removed).push(item);
+  });
+
+  return { parts, hunks };
+};
+
+// The current document with the accepted hunks replaced by their proposed blocks
+export const applyDiff = (diff: DocumentDiff, acceptedHunks: Set<number>): RichTextDocument => {
+  const blocks = diff.parts.flatMap(part => {
+    if (part.kind === 'equal') return part.blocks;
+    return acceptedHunks.has(part.hunk.id) ? part.hunk.added : part.hunk.removed;
+  });
+  return blocks.length > 0 ? { version: 1, blocks } : emptyDocument();
+};
+
+// Word-level changes between two blocks' text, for showing what a hunk rewrites
+export const diffBlockText = (before: Block | undefined, after: Block | undefined): DiffSegment[] => {
+  const words = (block: Block | undefined) => (block ? blockText(block).split(/(\s+)/).filter(Boolean) : []);
+  const segments: DiffSegment[] = [];
+  diffSequences(words(before), words(after), (a, b) => a === b).forEach(({ change, item }) => {
+    const last = segments[segments.length - 1];
+    if (last && last.change === change) last.text += item;
+    else segments.push({ text: item, change });
+  });
+  return segments;
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { layoutTimedEvents } from './eventLayout';
+
+interface TestEvent {
+  id: string;
+  start: Date;
+  end: Date;
+}
+
+const at = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 2, 4, hours, minutes);
+};
+
+const event = (id: string, start: string, end: string): TestEvent => ({ id, start: at(start), end: at(end) });
+
+// Column, columns and span per event id
+const layout = (events: TestEvent[], options?: { minDuration?: number }) =>
+  Object.fromEntries(layoutTimedEvents(events, options)
+    .map(({ event, column, columns, span }) => [event.id, { column, columns, span }]));
+
+describe('layoutTimedEvents', () => {
+  it('gives back-to-back events the full width', () => {
+    expect(layout([event('a', '9:00', '10:00'), event('b', '10:00', '11:00')])).toEqual({
+      a: { column: 0, columns: 1, span: 1 },
+      b: { column: 0, columns: 1, span: 1 }
+    });
+  });
+
+  it('puts a chain of overlapping events into one cluster', () => {
+    expect(layout([
+      event('a', '9:00', '11:00'),
+      event('b', '9:30', '10:30'),
+      event('c', '10:00', '12:00'),
+      event('later', '13:00', '14:00')
+    ])).toEqual({
+      a: { column: 0, columns: 3, span: 1 },
+      b: { column: 1, columns: 3, span: 1 },
+      c: { column: 2, columns: 3, span: 1 },
+      later: { column: 0, columns: 1, span: 1 }
+    });
+  });
+
+  it('reuses a column once the event in it has ended', () => {
+    expect(layout([
+      event('long', '9:00', '12:00'),
+      event('first', '9:00', '10:00'),
+      event('second', '10:00', '11:00')
+    ])).toEqual({
+      long: { column: 0, columns: 2, span: 1 },
+      first: { column: 1, columns: 2, span: 1 },
+      second: { column: 1, columns: 2, span: 1 }
+    });
+  });
+
+  it('puts the longer of two events starting together on the left', () => {
+    expect(layout([event('short', '9:00', '9:30'), event('long', '9:00', '11:00')])).toEqual({
+      long: { column: 0, columns: 2, span: 1 },
+      short: { column: 1, columns: 2, span: 1 }
+    });
+  });
+
+  it('stretches an event across free columns to its right', () => {
+    expect(layout([
+      event('a', '9:00', '12:00'),
+      event('b', '9:00', '10:00'),
+      event('c', '9:30', '10:00'),
+      event('d', '10:00', '11:00')
+    ])).toEqual({
+      a: { column: 0, columns: 3, span: 1 },
+      b: { column: 1, columns: 3, span: 1 },
+      c: { column: 2, columns: 3, span: 1 },
+      d: { column: 1, columns: 3, span: 2 }
+    });
+  });
+
+  it('treats short events as lasting at least the minimum duration', () => {
+    const events = [event('a', '9:00', '9:00'), event('b', '9:10', '9:15')];
+    expect(layout(events)).toEqual({
+      a: { column: 0, columns: 1, span: 1 },
+      b: { column: 0, columns: 1, span: 1 }
+    });
+    expect(layout(events, { minDuration: 30 * 60 * 1000 })).toEqual({
+      a: { column: 0, columns: 2, span: 1 },
+      b: { column: 1, columns: 2, span: 1 }
+    });
+  });
+
+  it('leaves the input as it was', () => {
+    const events = [event('late', '11:00', '12:00'), event('early', '9:00', '10:00')];
+    const copy = events.map(item => ({ ...item }));
+    layoutTimedEvents(events);
+    expect(events).toEqual(copy);
+  });
+});
@@ -0,0 +1,92 @@
+export interface TimedInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface EventLayout<T extends TimedInterval> {
+  event: T;
+  column: number;   // zero-based column within its overlap cluster
+  columns: number;  // total columns in the cluster
+  span: number;     // how many adjacent columns the event can stretch over
+}
+
+/**
+ * Lay out timed events side by side the way Google Calendar does.
+ *
+ * Events are grouped into clusters of transitively overlapping intervals. Inside a
+ * cluster each event is packed into the first column that is free at its start time,
+ * and the cluster's width is split evenly between its columns. An event then expands
+ * to the right across any columns it doesn't collide with.
+ *
+ * `minDuration` (ms) treats very short events as at least that long, so blocks that are
+ * rendered with a minimum height still get their own column.
+ *
+ * Pure function: it neither mutates nor reorders the input.
+ */
+export const layoutTimedEvents = <T extends TimedInterval>(
+  events: T[],
+  { minDuration = 0 }: { minDuration?: number } = {}
+): EventLayout<T>[] => {
+  const effectiveEnd = (event: T) =>
+    Math.max(event.end.getTime(), event.start.getTime() + minDuration);
+  const overlaps = (a: T, b: T) =>
+    a.start.getTime() < effectiveEnd(b) && b.start.getTime() < effectiveEnd(a);
+
+  const sorted = [...events].sort((a, b) => {
+    const byStart = a.start.getTime() - b.start.getTime();
+    if (byStart !== 0) return byStart;
+    // Longer events first so they take the leftmost column
+    return (effectiveEnd(b) - b.start.getTime()) - (effectiveEnd(a) - a.start.getTime());
+  });
+
+  const layouts: EventLayout<T>[] = [];
+  let cluster: EventLayout<T>[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const flushCluster = () => {
+    const columns = columnEnds.length;
+    cluster.forEach(layout => {
+      layout.columns = columns;
+      layout.span = 1;
+      // Expand into following columns while they don't overlap this event
+      for (let next = layout.column + 1; next < columns; next++) {
+        const blocked = cluster.some(other =>
+          other.column === next && overlaps(layout.event, other.event)
+        );
+        if (blocked) break;
+        layout.span++;
+      }
+    });
+    cluster = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach(event => {
+    const start = event.start.getTime();
+    const end = effectiveEnd(event);
+
+    if (start >= clusterEnd && cluster.length > 0) {
+      flushCluster();
+    }
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(end);
+    } else {
+      columnEnds[column] = end;
+    }
+
+    const layout: EventLayout<T> = { event, column, columns: 1, span: 1 };
+    layouts.push(layout);
+    cluster.push(layout);
+    clusterEnd = cluster.length === 1 ? end : Math.max(clusterEnd, end);
+  });
+
+  if (cluster.length > 0) {
+    flushCluster();
+  }
+
+  return layouts;
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { MyEvent } from '../types';
+import { buildICalendar, parseICalendar } from './ical';
+import exchangeExport from './fixtures/exchange-export.ics?raw';
+
+const utc = (iso: string) => new Date(iso);
+
+describe('parseICalendar', () => {
+  const items = parseICalendar(exchangeExport);
+  const byTitle = (title: string) => items.find(item => item.title === title)!;
+
+  it('reads every event and note, skipping time zone definitions', () => {
+    expect(items.map(item => [item.kind, item.uid])).toEqual([
+      ['event', 'planning@example.com'],
+      ['event', 'review@example.com'],
+      ['event', 'offsite@example.com'],
+      ['event', 'planning@example.com'],
+      ['note', 'retro-notes@example.com']
+    ]);
+  });
+
+  it('converts TZID times and unescapes text', () => {
+    expect(byTitle('Planning, Q1 ; budget')).toMatchObject({
+      start: utc('2026-01-15T14:00:00Z'),
+      end: utc('2026-01-15T15:30:00Z'),
+      allDay: false,
+      content: 'Agenda:\n1. Roadmap\n2. Hiring \\ staffing',
+      priority: 'high'
+    });
+  });
+
+  it('keeps the RRULE and normalizes EXDATEs to UTC', () => {
+    expect(byTitle('Planning, Q1 ; budget').recurrence).toEqual([
+      'RRULE:FREQ=WEEKLY;BYDAY=TH;COUNT=10',
+      'EXDATE:20260122T140000Z,20260129T140000Z'
+    ]);
+  });
+
+  it('only takes alarms before the start as reminders', () => {
+    expect(byTitle('Planning, Q1 ; budget').reminders).toEqual([15]);
+  });
+
+  it('unfolds long lines and ends events after their DURATION', () => {
+    expect(byTitle('Design review with a very long title that the exporter folded across two lines')).toMatchObject({
+      start: utc('2026-01-20T15:00:00Z'),
+      end: utc('2026-01-20T15:45:00Z')
+    });
+  });
+
+  it('ends all-day events on their last day instead of the exclusive end date', () => {
+    expect(byTitle('Offsite')).toMatchObject({
+      allDay: true,
+      start: new Date(2026, 1, 2),
+      end: new Date(2026, 1, 3, 23, 59, 59),
+      priority: 'low'
+    });
+  });
+
+  it('marks modified instances with the occurrence they replace', () => {
+    expect(byTitle('Planning (afternoon)')).toMatchObject({
+      recurrenceId: utc('2026-02-05T14:00:00Z'),
+      start: utc('2026-02-05T18:00:00Z')
+    });
+    expect(byTitle('Planning (afternoon)').recurrence).toBeUndefined();
+  });
+
+  it('reads notes from VJOURNAL, preferring the HTML description', () => {
+    expect(byTitle('Retro notes')).toMatchObject({
+      kind: 'note',
+      start: utc('2026-01-16T17:00:00Z'),
+      content: '<p><strong>Went well</strong></p><p>Ship faster</p>'
+    });
+  });
+});
+
+describe('buildICalendar', () => {
+  const items: MyEvent[] = [
+    {
+      id: 'e1',
+      title: 'Café, «Übergabe»; Q1\nfollow-up with the whole team and every stakeholder involved',
+      start: utc('2026-03-02T09:00:00Z'),
+      end: utc('2026-03-02T10:30:00Z'),
+      resource: {
+        content: 'Bring the slides\\notes',
+        priority: 'high',
+        reminders: [0, 30],
+        recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO', 'EXDATE:20260309T090000Z']
+      }
+    },
+    {
+      id: 'e2',
+      title: 'Holiday',
+      start: new Date(2026, 3, 6),
+      end: new Date(2026, 3, 7, 23, 59, 59),
+      allDay: true,
+      resource: { priority: 'low', icalUid: 'holiday@example.com' }
+    },
+    {
+      id: 'n1',
+      title: 'Meeting notes',
+      start: utc('2026-03-02T11:00:00Z'),
+      end: utc('2026-03-02T11:00:00Z'),
+      resource: { isNote: true, content: '<p>First, <em>second</em></p><ul><li>third</li></ul>' }
+    }
+  ];
+  const text = buildICalendar(items);
+
+  it('folds lines at 75 octets', () => {
+    const lines = text.split('\r\n');
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+  });
+
+  it('writes notes as VJOURNAL with a plain-text and an HTML description', () => {
+    const unfolded = text.replace(/\r\n /g, '');
+    expect(unfolded).toContain('BEGIN:VJOURNAL');
+    expect(unfolded).toContain('DESCRIPTION:First\\, second\\nthird');
+    expect(unfolded).toContain('X-ALT-DESC;FMTTYPE=text/html:<p>First\\, <em>second</em></p><ul><li>third</li></ul>');
+  });
+
+  it('reads back what it wrote', () => {
+    expect(parseICalendar(text)).toEqual([
+      {
+        uid: 'e1@brainot',
+        kind: 'event',
+        title: items[0].title,
+        start: items[0].start,
+        end: items[0].end,
+        allDay: false,
+        content: 'Bring the slides\\notes',
+        priority: 'high',
+        recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO', 'EXDATE:20260309T090000Z'],
+        reminders: [0, 30]
+      },
+      {
+        uid: 'holiday@example.com',
+        kind: 'event',
+        title: 'Holiday',
+        start: items[1].start,
+        end: items[1].end,
+        allDay: true,
+        content: '',
+        priority: 'low'
+      },
+      {
+        uid: 'n1@brainot',
+        kind: 'note',
+        title: 'Meeting notes',
+        start: items[2].start,
+        end: items[2].start,
+        allDay: false,
+        content: items[2].resource!.content
+      }
+    ]);
+  });
+});
@@ -0,0 +1,404 @@
+import { addDays, format } from 'date-fns';
+import { MyEvent } from '../types';
+import { formatICalDate } from './recurrence';
+import { htmlToText } from './html';
+
+// An event (VEVENT) or note (VJOURNAL) read from an .ics file
+export interface ICalItem {
+  uid: string;
+  kind: 'event' | 'note';
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  content: string;
+  priority?: 'low' | 'medium' | 'high';
+  recurrence?: string[];
+  reminders?: number[];
+  recurrenceId?: Date;      // set on modified or cancelled instances of a recurring event
+  cancelled?: boolean;
+  lastModified?: Date;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICalComponent {
+  name: string;
+  properties: ICalProperty[];
+  children: ICalComponent[];
+}
+
+const PRODID = '-//BrainNot//BrainNot Calendar//EN';
+
+// ---------------------------------------------------------------------------
+// Text encoding
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Fold content lines at 75 octets, as required by RFC 5545
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const textToHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+// ---------------------------------------------------------------------------
+// Dates
+
+// Offset of `timeZone` from UTC at `timestamp`, in milliseconds
+const timeZoneOffset = (timestamp: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+// The instant at which the wall-clock time is reached in `timeZone`
+const zonedTimeToDate = (fields: number[], timeZone: string): Date | null => {
+  const [y, mo, d, h, mi, s] = fields;
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi, s);
+  try {
+    let result = wallClock - timeZoneOffset(wallClock, timeZone);
+    // Correct once more in case the guess landed on the other side of a DST change
+    const correctedOffset = timeZoneOffset(result, timeZone);
+    result = wallClock - correctedOffset;
+    return new Date(result);
+  } catch {
+    // Not an IANA zone name (e.g. a Windows zone from Outlook)
+    return null;
+  }
+};
+
+// DATE and DATE-TIME values, honouring VALUE=DATE, TZID and the UTC `Z` suffix
+const parseDateValue = (value: string, params: Record<string, string>): { date: Date; dateOnly: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+
+  if (h === undefined || params.VALUE === 'DATE') {
+    return { date: new Date(Number(y), Number(mo) - 1, Number(d)), dateOnly: true };
+  }
+
+  const fields = [y, mo, d, h, mi, s].map(Number);
+  if (utc) {
+    return { date: new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5])), dateOnly: false };
+  }
+  if (params.TZID) {
+    const zoned = zonedTimeToDate(fields, params.TZID.replace(/^"|"$/g, '').replace(/^\//, ''));
+    if (zoned) return { date: zoned, dateOnly: false };
+  }
+  // Floating time: same wall-clock time wherever the calendar is opened
+  return { date: new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]), dateOnly: false };
+};
+
+// RFC 5545 durations such as PT15M, -P1D or P1DT2H, in milliseconds
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    (Number(weeks || 0) * 7 * 24 * 3600 +
+      Number(days || 0) * 24 * 3600 +
+      Number(hours || 0) * 3600 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) * 1000;
+  return sign === '-' ? -total : total;
+};
+
+// ---------------------------------------------------------------------------
+// Export
+
+const dateProperty = (name: string, date: Date, dateOnly: boolean) =>
+  dateOnly ? `${name};VALUE=DATE:${format(date, 'yyyyMMdd')}` : `${name}:${formatICalDate(date, false)}`;
+
+const priorityValues = { high: 1, medium: 5, low: 9 };
+
+export const icalUidFor = (item: MyEvent) => item.resource?.icalUid || `${item.id}@brainot`;
+
+const buildEvent = (event: MyEvent, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${icalUidFor(event)}`,
+    `DTSTAMP:${stamp}`,
+    dateProperty('DTSTART', event.start, !!event.allDay),
+    // All-day DTEND is exclusive: the day after the last day, as in convertToGoogleEvent
+    dateProperty('DTEND', event.allDay ? addDays(event.end, 1) : event.end, !!event.allDay),
+    `SUMMARY:${escapeText(event.title)}`
+  ];
+
+  if (event.resource?.content) {
+    lines.push(`DESCRIPTION:${escapeText(event.resource.content)}`);
+  }
+  lines.push(`PRIORITY:${priorityValues[event.resource?.priority || 'medium']}`);
+  if (event.resource?.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatICalDate(event.resource.updatedAt, false)}`);
+  }
+  // Recurrence lines are stored as iCalendar properties already
+  event.resource?.recurrence?.forEach(line => lines.push(line));
+
+  event.resource?.reminders?.forEach(minutes => {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.title)}`,
+      `TRIGGER:${minutes === 0 ? 'PT0M' : `-PT${minutes}M`}`,
+      'END:VALARM'
+    );
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+const buildJournal = (note: MyEvent, stamp: string): string[] => {
+  const html = note.resource?.content || '';
+  const lines = [
+    'BEGIN:VJOURNAL',
+    `UID:${icalUidFor(note)}`,
+    `DTSTAMP:${stamp}`,
+    dateProperty('DTSTART', note.start, false),
+    `SUMMARY:${escapeText(note.title)}`
+  ];
+  if (html) {
+    lines.push(`DESCRIPTION:${escapeText(htmlToText(html))}`);
+    // Keep the formatting for clients (and BrainNot) that read the HTML version
+    lines.push(`X-ALT-DESC;FMTTYPE=text/html:${escapeText(html)}`);
+  }
+  lines.push('END:VJOURNAL');
+  return lines;
+};
+
+/**
+ * Serialize events (as VEVENT) and notes (as VJOURNAL) to an RFC 5545 calendar.
+ * Pass series rather than expanded occurrences; recurrence is exported as RRULE/EXDATE.
+ */
+export const buildICalendar = (items: MyEvent[]): string => {
+  const stamp = formatICalDate(new Date(), false);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  items.forEach(item => {
+    lines.push(...(item.resource?.isNote ? buildJournal(item, stamp) : buildEvent(item, stamp)));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// ---------------------------------------------------------------------------
+// Import
+
+const parseProperty = (line: string): ICalProperty | null => {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const equals = param.indexOf('=');
+    if (equals !== -1) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1);
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const parseComponents = (text: string): ICalComponent[] => {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const root: ICalComponent = { name: 'ROOT', properties: [], children: [] };
+  const stack = [root];
+
+  lines.forEach(line => {
+    if (!line.trim()) return;
+    const property = parseProperty(line);
+    if (!property) return;
+
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root.children;
+};
+
+const priorityFromValue = (value: string): ICalItem['priority'] => {
+  const priority = parseInt(value, 10);
+  if (!priority) return undefined;
+  if (priority <= 4) return 'high';
+  if (priority === 5) return 'medium';
+  return 'low';
+};
+
+const readItem = (component: ICalComponent): ICalItem | null => {
+  const get = (name: string) => component.properties.find(property => property.name === name);
+  const kind = component.name === 'VJOURNAL' ? 'note' : 'event';
+
+  const uid = get('UID')?.value.trim();
+  const startProperty = get('DTSTART');
+  const start = startProperty && parseDateValue(startProperty.value, startProperty.params);
+  if (!uid || !start) return null;
+
+  const allDay = start.dateOnly;
+  let end = start.date;
+  const endProperty = get('DTEND') || get('DUE');
+  const parsedEnd = endProperty && parseDateValue(endProperty.value, endProperty.params);
+  const duration = get('DURATION') && parseDuration(get('DURATION')!.value);
+  if (parsedEnd) {
+    end = parsedEnd.date;
+  } else if (duration) {
+    end = new Date(start.date.getTime() + duration);
+  } else if (allDay && kind === 'event') {
+    // A DATE start without an end lasts one day
+    end = addDays(start.date, 1);
+  }
+  if (allDay && kind === 'event' && end > start.date) {
+    // BrainNot ends all-day events at 23:59:59 on the last day; iCalendar's end is exclusive
+    end = new Date(end.getTime() - 1000);
+  }
+
+  const description = get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : '';
+  const htmlDescription = component.properties.find(
+    property => property.name === 'X-ALT-DESC' && (property.params.FMTTYPE || '').toLowerCase() === 'text/html'
+  );
+  const content = kind === 'note'
+    ? (htmlDescription ? unescapeText(htmlDescription.value) : textToHtml(description))
+    : description;
+
+  const recurrence: string[] = [];
+  component.properties.forEach(property => {
+    if (property.name === 'RRULE') {
+      recurrence.push(`RRULE:${property.value}`);
+    } else if (property.name === 'EXDATE') {
+      // Normalize to the UTC/DATE form BrainNot stores, resolving TZID
+      const values = property.value.split(',')
+        .map(value => parseDateValue(value, property.params))
+        .filter((value): value is { date: Date; dateOnly: boolean } => !!value)
+        .map(value => formatICalDate(value.date, allDay));
+      if (values.length > 0) {
+        recurrence.push(allDay ? `EXDATE;VALUE=DATE:${values.join(',')}` : `EXDATE:${values.join(',')}`);
+      }
+    }
+  });
+
+  const reminders: number[] = [];
+  component.children
+    .filter(child => child.name === 'VALARM')
+    .forEach(alarm => {
+      const trigger = alarm.properties.find(property => property.name === 'TRIGGER');
+      if (!trigger) return;
+      if (trigger.params.VALUE === 'DATE-TIME') {
+        const at = parseDateValue(trigger.value, trigger.params);
+        if (at && at.date <= start.date) {
+          reminders.push(Math.round((start.date.getTime() - at.date.getTime()) / 60000));
+        }
+        return;
+      }
+      // Only alarms relative to the start, and before it
+      const offset = parseDuration(trigger.value);
+      if (offset !== null && offset <= 0 && trigger.params.RELATED !== 'END') {
+        reminders.push(Math.round(-offset / 60000));
+      }
+    });
+
+  const recurrenceIdProperty = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty && parseDateValue(recurrenceIdProperty.value, recurrenceIdProperty.params);
+  const lastModified = get('LAST-MODIFIED') && parseDateValue(get('LAST-MODIFIED')!.value, {});
+
+  return {
+    uid,
+    kind,
+    title: get('SUMMARY') ? unescapeText(get('SUMMARY')!.value).trim() || 'Untitled' : 'Untitled',
+    start: start.date,
+    end,
+    allDay,
+    content,
+    ...(get('PRIORITY') && { priority: priorityFromValue(get('PRIORITY')!.value) }),
+    ...(kind === 'event' && recurrence.some(line => line.startsWith('RRULE:')) && { recurrence }),
+    ...(reminders.length > 0 && { reminders: [...new Set(reminders)].sort((a, b) => a - b) }),
+    ...(recurrenceId && { recurrenceId: recurrenceId.date }),
+    ...((get('STATUS')?.value || '').toUpperCase() === 'CANCELLED' && { cancelled: true }),
+    ...(lastModified && { lastModified: lastModified.date })
+  };
+};
+
+/**
+ * Read the VEVENT and VJOURNAL components of an .ics file. VTIMEZONE definitions are not
+ * interpreted; TZID parameters are resolved as IANA zone names and fall back to local time.
+ */
+export const parseICalendar = (text: string): ICalItem[] => {
+  const items: ICalItem[] = [];
+  const visit = (components: ICalComponent[]) => {
+    components.forEach(component => {
+      if (component.name === 'VEVENT' || component.name === 'VJOURNAL') {
+        const item = readItem(component);
+        if (item) items.push(item);
+      } else {
+        visit(component.children);
+      }
+    });
+  };
+  visit(parseComponents(text));
+  return items;
+};
@@ -0,0 +1,257 @@
+import { addDays, addWeeks, addMonths, addYears, startOfWeek, format, isSameDay, endOfDay } from 'date-fns';
+import { MyEvent } from '../types';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+// Which part of a recurring series an edit or delete applies to
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[]; // 0 = Sunday, only used for WEEKLY
+  until?: Date;
+  count?: number;
+  exdates: Date[];
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Safety net against runaway expansion of open-ended rules
+const MAX_ITERATIONS = 10000;
+
+// iCalendar DATE (20260105) or DATE-TIME (20260105T090000Z / floating 20260105T090000)
+export const parseICalDate = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return new Date(Number(y), Number(mo) - 1, Number(d));
+  }
+  if (utc) {
+    return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+  }
+  return new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+};
+
+export const formatICalDate = (date: Date, dateOnly: boolean): string => {
+  if (dateOnly) {
+    return format(date, 'yyyyMMdd');
+  }
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Parse Google-style recurrence lines (`RRULE:...`, `EXDATE:...`) into a rule.
+ * Returns null when there is no RRULE. Ordinal BYDAY values (e.g. `1MO`) are not supported
+ * and are ignored.
+ */
+export const parseRecurrence = (lines: string[] | undefined | null): RecurrenceRule | null => {
+  if (!lines || lines.length === 0) return null;
+
+  let rule: RecurrenceRule | null = null;
+  const exdates: Date[] = [];
+
+  lines.forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === 'RRULE') {
+      const parts = Object.fromEntries(
+        value.split(';').map(part => {
+          const [key, val] = part.split('=');
+          return [key.toUpperCase(), val || ''];
+        })
+      );
+      const freq = parts.FREQ as RecurrenceFrequency;
+      if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return;
+
+      const byWeekday = parts.BYDAY
+        ? parts.BYDAY.split(',')
+            .map((code: string) => WEEKDAY_CODES.indexOf(code.toUpperCase()))
+            .filter((day: number) => day !== -1)
+        : undefined;
+
+      rule = {
+        freq,
+        interval: Math.max(1, parseInt(parts.INTERVAL, 10) || 1),
+        ...(byWeekday && byWeekday.length > 0 && { byWeekday }),
+        ...(parts.UNTIL && parseICalDate(parts.UNTIL) && { until: parseICalDate(parts.UNTIL)! }),
+        ...(parts.COUNT && { count: parseInt(parts.COUNT, 10) }),
+        exdates: []
+      };
+    } else if (name === 'EXDATE') {
+      value.split(',').forEach(raw => {
+        const date = parseICalDate(raw);
+        if (date) exdates.push(date);
+      });
+    }
+  });
+
+  if (!rule) return null;
+  return { ...(rule as RecurrenceRule), exdates };
+};
+
+// Serialize a rule back to the `recurrence` array format used by Google Calendar
+export const formatRecurrence = (rule: RecurrenceRule, allDay: boolean): string[] => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    // UNTIL must be UTC for timed events
+    parts.push(`UNTIL=${formatICalDate(allDay ? rule.until : endOfDay(rule.until), allDay)}`);
+  }
+
+  const lines = [`RRULE:${parts.join(';')}`];
+  if (rule.exdates.length > 0) {
+    const values = rule.exdates.map(date => formatICalDate(date, allDay)).join(',');
+    lines.push(allDay ? `EXDATE;VALUE=DATE:${values}` : `EXDATE:${values}`);
+  }
+  return lines;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text = rule.interval > 1
+    ? `Every ${rule.interval} ${unit}s`
+    : { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+
+  if (rule.freq === 'WEEKLY' && rule.byWeekday && rule.byWeekday.length > 0) {
+    text += ` on ${[...rule.byWeekday].sort().map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until) {
+    text += `, until ${format(rule.until, 'MMM d, yyyy')}`;
+  }
+  return text;
+};
+
+const isExcluded = (rule: RecurrenceRule, start: Date, allDay: boolean) =>
+  rule.exdates.some(exdate => allDay ? isSameDay(exdate, start) : exdate.getTime() === start.getTime());
+
+/**
+ * Walk the start dates of a series in order, calling `visit` for each one until it returns false.
+ * Excluded dates still count towards COUNT, as in RFC 5545.
+ */
+const forEachOccurrenceStart = (
+  seriesStart: Date,
+  rule: RecurrenceRule,
+  visit: (start: Date, index: number) => boolean
+) => {
+  const until = rule.until ? endOfDay(rule.until) : null;
+  let index = 0;
+
+  const emit = (candidate: Date) => {
+    if (candidate < seriesStart) return true;
+    if (until && candidate > until) return false;
+    if (rule.count && index >= rule.count) return false;
+    return visit(candidate, index++);
+  };
+
+  for (let step = 0; step < MAX_ITERATIONS; step++) {
+    if (rule.freq === 'WEEKLY') {
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+        ? [...rule.byWeekday].sort()
+        : [seriesStart.getDay()];
+      const weekStart = addWeeks(startOfWeek(seriesStart), step * rule.interval);
+      for (const weekday of weekdays) {
+        const day = addDays(weekStart, weekday);
+        const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(),
+          seriesStart.getHours(), seriesStart.getMinutes(), seriesStart.getSeconds());
+        if (!emit(candidate)) return;
+      }
+      continue;
+    }
+
+    let candidate: Date;
+    if (rule.freq === 'DAILY') {
+      candidate = addDays(seriesStart, step * rule.interval);
+    } else {
+      const shifted = rule.freq === 'MONTHLY'
+        ? addMonths(seriesStart, step * rule.interval)
+        : addYears(seriesStart, step * rule.interval);
+      // Months without the start's day (e.g. the 31st) have no occurrence
+      if (shifted.getDate() !== seriesStart.getDate()) continue;
+      candidate = shifted;
+    }
+    if (!emit(candidate)) return;
+  }
+};
+
+/**
+ * Expand a recurring event into the occurrences that overlap [rangeStart, rangeEnd].
+ * Occurrences keep the series id and carry `occurrenceStart`/`seriesStart` so edits and
+ * deletes can be routed back to the series document.
+ */
+export const expandOccurrences = (event: MyEvent, rangeStart: Date, rangeEnd: Date): MyEvent[] => {
+  const rule = parseRecurrence(event.resource?.recurrence);
+  if (!rule) return [event];
+
+  const duration = event.end.getTime() - event.start.getTime();
+  const occurrences: MyEvent[] = [];
+
+  forEachOccurrenceStart(event.start, rule, start => {
+    if (start > rangeEnd) return false;
+    const end = new Date(start.getTime() + duration);
+    if (end >= rangeStart && !isExcluded(rule, start, !!event.allDay)) {
+      occurrences.push({
+        ...event,
+        start,
+        end,
+        resource: { ...event.resource, occurrenceStart: start, seriesStart: event.start }
+      });
+    }
+    return true;
+  });
+
+  return occurrences;
+};
+
+// Occurrences that a modified instance from Google Calendar replaces are left out
+export const expandRecurringEvents = (events: MyEvent[], rangeStart: Date, rangeEnd: Date): MyEvent[] => {
+  const replaced = new Set(events
+    .filter(event => event.resource?.recurringEventId && event.resource.originalStart)
+    .map(event => `${event.resource!.recurringEventId}/${event.resource!.originalStart!.getTime()}`));
+  return events.flatMap(event => {
+    if (!event.resource?.recurrence) return [event];
+    const occurrences = expandOccurrences(event, rangeStart, rangeEnd);
+    const googleEventId = event.resource.googleEventId;
+    return googleEventId && replaced.size > 0
+      ? occurrences.filter(occurrence => !replaced.has(`${googleEventId}/${occurrence.start.getTime()}`))
+      : occurrences;
+  });
+};
+
+// Number of occurrences (including excluded ones) that start before `date`
+export const countOccurrencesBefore = (seriesStart: Date, rule: RecurrenceRule, date: Date): number => {
+  let count = 0;
+  forEachOccurrenceStart(seriesStart, rule, start => {
+    if (start >= date) return false;
+    count++;
+    return true;
+  });
+  return count;
+};
+
+// Rule that skips a single occurrence
+export const excludeOccurrence = (rule: RecurrenceRule, occurrenceStart: Date): RecurrenceRule => ({
+  ...rule,
+  exdates: [...rule.exdates, occurrenceStart]
+});
+
+// Rule that ends the series just before `occurrenceStart`
+export const endSeriesBefore = (rule: RecurrenceRule, seriesStart: Date, occurrenceStart: Date): RecurrenceRule => {
+  if (rule.count) {
+    return { ...rule, count: countOccurrencesBefore(seriesStart, rule, occurrenceStart) };
+  }
+  const { count, ...rest } = rule;
+  return { ...rest, until: endOfDay(addDays(occurrenceStart, -1)) };
+};
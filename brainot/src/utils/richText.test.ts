@@ -0,0 +1,246 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  RichTextDocument,
+  documentToHtml,
+  documentToMarkdown,
+  htmlToDocument,
+  insertAfterSelection,
+  makeBlock,
+  markdownToDocument,
+  replaceSelection,
+  safeHref,
+  setLink
+} from './richText';
+
+const paragraphs = (...texts: string[]): RichTextDocument => ({
+  version: 1,
+  blocks: texts.map(text => makeBlock('paragraph', [{ text }]))
+});
+
+// Every block type and mark
+const sample: RichTextDocument = {
+  version: 1,
+  blocks: [
+    makeBlock('heading', [{ text: 'Plan' }], { level: 2 }),
+    makeBlock('paragraph', [
+      { text: 'Ship ' },
+      { text: 'fast', marks: [{ type: 'bold' }] },
+      { text: ' and ' },
+      { text: 'well', marks: [{ type: 'italic' }] },
+      { text: ', see ' },
+      { text: 'the docs', marks: [{ type: 'link', href: 'https://example.com/docs?a=1&b=2' }] },
+      { text: '\nthen run ' },
+      { text: 'a < b', marks: [{ type: 'code' }] }
+    ]),
+    makeBlock('bulletItem', [{ text: 'one' }]),
+    makeBlock('bulletItem', [{ text: 'two', marks: [{ type: 'strike' }] }]),
+    makeBlock('orderedItem', [{ text: 'first' }]),
+    makeBlock('orderedItem', [{ text: 'second', marks: [{ type: 'underline' }] }]),
+    makeBlock('checkItem', [{ text: 'done' }], { checked: true }),
+    makeBlock('checkItem', [{ text: 'todo' }]),
+    makeBlock('blockquote', [{ text: 'quoted' }]),
+    makeBlock('codeBlock', [{ text: 'const a = 1;\nconst b = a * 2;' }]),
+    makeBlock('paragraph', [])
+  ]
+};
+
+describe('htmlToDocument', () => {
+  it('reads text without markup line by line', () => {
+    expect(htmlToDocument('Buy milk\nCall Ana')).toEqual(paragraphs('Buy milk', 'Call Ana'));
+    expect(htmlToDocument('  ')).toEqual(paragraphs(''));
+  });
+
+  it('migrates notes written by the old contentEditable editor', () => {
+    const legacy = '<div>Groceries</div><div><b>milk</b> and <i>eggs</i><br></div><div><br></div>' +
+      '<ul><li>one</li><li>two</li></ul><ol><li>first</li></ol><h1>Title</h1>' +
+      '<div>Line one<br>Line two</div><span style="font-weight: bold">loose</span>';
+    expect(htmlToDocument(legacy)).toEqual({
+      version: 1,
+      blocks: [
+        makeBlock('paragraph', [{ text: 'Groceries' }]),
+        makeBlock('paragraph', [{ text: 'milk', marks: [{ type: 'bold' }] }, { text: ' and ' }, { text: 'eggs', marks: [{ type: 'italic' }] }]),
+        makeBlock('paragraph', []),
+        makeBlock('bulletItem', [{ text: 'one' }]),
+        makeBlock('bulletItem', [{ text: 'two' }]),
+        makeBlock('orderedItem', [{ text: 'first' }]),
+        makeBlock('heading', [{ text: 'Title' }], { level: 1 }),
+        makeBlock('paragraph', [{ text: 'Line one\nLine two' }]),
+        makeBlock('paragraph', [{ text: 'loose', marks: [{ type: 'bold' }] }])
+      ]
+    });
+  });
+
+  it('keeps unknown markup as text and drops scripts and date decorations', () => {
+    const html = '<p>Meet <span class="detected-date">tomorrow</span> at <custom-tag>HQ</custom-tag></p><script>alert(1)</script>';
+    expect(htmlToDocument(html)).toEqual(paragraphs('Meet tomorrow at HQ'));
+  });
+
+  it('reads checklists with their checked state', () => {
+    const html = '<ul><li><input type="checkbox" checked>done</li><li><input type="checkbox">todo</li></ul>';
+    expect(htmlToDocument(html).blocks).toEqual([
+      makeBlock('checkItem', [{ text: 'done' }], { checked: true }),
+      makeBlock('checkItem', [{ text: 'todo' }], { checked: false })
+    ]);
+  });
+
+  it('reads back what documentToHtml writes', () => {
+    expect(htmlToDocument(documentToHtml(sample))).toEqual(sample);
+  });
+});
+
+describe('documentToHtml', () => {
+  it('groups list items and escapes text and attributes', () => {
+    const html = documentToHtml(sample);
+    expect(html).toContain('<ul><li>one</li><li><s>two</s></li></ul><ol><li>first</li>');
+    expect(html).toContain('<a href="https://example.com/docs?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">the docs</a>');
+    expect(html).toContain('<br>then run <code>a &lt; b</code>');
+    expect(html).toContain('<ul data-type="checklist"><li data-checked="true"><input type="checkbox" checked>done</li>');
+    expect(html.endsWith('<p><br></p>')).toBe(true);
+  });
+});
+
+describe('Markdown', () => {
+  it('writes each block type', () => {
+    expect(documentToMarkdown(sample)).toBe([
+      '## Plan',
+      '',
+      'Ship **fast** and *well*, see [the docs](https://example.com/docs?a=1&b=2)  ',
+      'then run `a < b`',
+      '',
+      '- one',
+      '- ~~two~~',
+      '',
+      '1. first',
+      '2. <u>second</u>',
+      '',
+      '- [x] done',
+      '- [ ] todo',
+      '',
+      '> quoted',
+      '',
+      '```',
+      'const a = 1;',
+      'const b = a * 2;',
+      '```',
+      '',
+      ''
+    ].join('\n'));
+  });
+
+  it('reads back what documentToMarkdown writes', () => {
+    const withoutTrailingEmpty = { ...sample, blocks: sample.blocks.slice(0, -1) };
+    expect(markdownToDocument(documentToMarkdown(withoutTrailingEmpty))).toEqual(withoutTrailingEmpty);
+  });
+
+  it('keeps escaped Markdown characters as text', () => {
+    const document = paragraphs('2 * 3 = 6, [not a link] and a_b_c');
+    expect(markdownToDocument(documentToMarkdown(document))).toEqual(document);
+  });
+});
+
+describe('replaceSelection', () => {
+  const document: RichTextDocument = {
+    version: 1,
+    blocks: [
+      makeBlock('heading', [{ text: 'Title' }], { level: 1 }),
+      makeBlock('bulletItem', [{ text: 'alpha beta gamma' }]),
+      makeBlock('paragraph', [{ text: 'delta epsilon' }])
+    ]
+  };
+
+  it('splices a single block into the selected text', () => {
+    const selection = { from: { block: 1, offset: 6 }, to: { block: 1, offset: 10 } };
+    const result = replaceSelection(document, selection, markdownToDocument('**BETA**'));
+    expect(result.blocks).toEqual([
+      document.blocks[0],
+      makeBlock('bulletItem', [{ text: 'alpha ' }, { text: 'BETA', marks: [{ type: 'bold' }] }, { text: ' gamma' }]),
+      document.blocks[2]
+    ]);
+  });
+
+  it('joins the text around the selection to the first and last of several blocks', () => {
+    const selection = { from: { block: 1, offset: 6 }, to: { block: 2, offset: 5 } };
+    const result = replaceSelection(document, selection, markdownToDocument('one\n\n## two\n\nthree'));
+    expect(result.blocks).toEqual([
+      document.blocks[0],
+      makeBlock('bulletItem', [{ text: 'alpha one' }]),
+      makeBlock('heading', [{ text: 'two' }], { level: 2 }),
+      makeBlock('paragraph', [{ text: 'three epsilon' }])
+    ]);
+  });
+
+  it('accepts the selection backwards', () => {
+    const forwards = { from: { block: 1, offset: 0 }, to: { block: 1, offset: 5 } };
+    const backwards = { from: forwards.to, to: forwards.from };
+    const fragment = paragraphs('omega');
+    expect(replaceSelection(document, backwards, fragment)).toEqual(replaceSelection(document, forwards, fragment));
+  });
+
+  it('leaves the given document untouched', () => {
+    const copy = JSON.parse(JSON.stringify(document));
+    replaceSelection(document, { from: { block: 0, offset: 0 }, to: { block: 2, offset: 3 } }, paragraphs('x'));
+    expect(document).toEqual(copy);
+  });
+});
+
+describe('insertAfterSelection', () => {
+  it('adds the blocks after the block the selection ends in', () => {
+    const document = paragraphs('one', 'two', 'three');
+    const selection = { from: { block: 0, offset: 1 }, to: { block: 1, offset: 2 } };
+    expect(insertAfterSelection(document, selection, paragraphs('new')).blocks.map(block => block.content[0]?.text))
+      .toEqual(['one', 'two', 'new', 'three']);
+  });
+});
+
+describe('safeHref', () => {
+  it.each([
+    ['https://example.com/a?b=c#d', 'https://example.com/a?b=c#d'],
+    ['  http://example.com  ', 'http://example.com'],
+    ['mailto:ana@example.com', 'mailto:ana@example.com'],
+    ['/notes/1', '/notes/1'],
+    ['#top', '#top'],
+    ['notes?id=1', 'notes?id=1'],
+    ['javascript:alert(1)', null],
+    ['JavaScript:alert(1)', null],
+    ['java\tscript:alert(1)', null],
+    [' \u0001javascript:alert(1)', null],
+    ['data:text/html,<script>alert(1)</script>', null],
+    ['vbscript:msgbox', null],
+    ['', null]
+  ])('%j', (href, expected) => {
+    expect(safeHref(href)).toBe(expected);
+  });
+});
+
+describe('links', () => {
+  const linkHrefs = (document: RichTextDocument) =>
+    document.blocks.flatMap(block => block.content.flatMap(run => run.marks || []))
+      .filter(mark => mark.type === 'link')
+      .map(mark => mark.href);
+
+  it('drops unsafe links read from Markdown and keeps their text', () => {
+    const document = markdownToDocument('[safe](https://example.com) and [unsafe](javascript:void)');
+    expect(linkHrefs(document)).toEqual(['https://example.com']);
+    expect(document.blocks[0].content.map(run => run.text).join('')).toBe('safe and unsafe');
+  });
+
+  it('drops unsafe links read from HTML', () => {
+    expect(linkHrefs(htmlToDocument('<p><a href="javascript:alert(1)">x</a> <a href="/notes">y</a></p>'))).toEqual(['/notes']);
+  });
+
+  it('does not link the selection to an unsafe address', () => {
+    const document = markdownToDocument('click me');
+    const selection = { from: { block: 0, offset: 0 }, to: { block: 0, offset: 5 } };
+    expect(linkHrefs(setLink(document, selection, 'javascript:alert(1)'))).toEqual([]);
+    expect(linkHrefs(setLink(document, selection, 'https://example.com'))).toEqual(['https://example.com']);
+  });
+
+  it('renders stored unsafe links as plain text', () => {
+    const document: RichTextDocument = {
+      version: 1,
+      blocks: [{ type: 'paragraph', content: [{ text: 'x', marks: [{ type: 'link', href: 'javascript:alert(1)' }] }] }]
+    };
+    expect(documentToHtml(document)).not.toContain('<a');
+  });
+});
@@ -0,0 +1,762 @@
+// Structured note content: a flat list of blocks holding runs of marked-up text.
+// Stored as JSON on notes; HTML and Markdown are derived from it.
+
+export type MarkType = 'bold' | 'italic' | 'underline' | 'strike' | 'code' | 'link';
+
+export interface Mark {
+  type: MarkType;
+  href?: string;   // links only
+}
+
+export interface TextRun {
+  text: string;    // may contain '\n' for line breaks inside a block
+  marks?: Mark[];
+}
+
+export type BlockType = 'paragraph' | 'heading' | 'bulletItem' | 'orderedItem' | 'checkItem' | 'codeBlock' | 'blockquote';
+
+export interface Block {
+  type: BlockType;
+  level?: 1 | 2 | 3;   // headings only
+  checked?: boolean;   // checklist items only
+  content: TextRun[];  // code blocks hold a single unmarked run
+}
+
+export interface RichTextDocument {
+  version: 1;
+  blocks: Block[];
+}
+
+// A place in a document: block index and character offset into the block's text
+export interface DocPosition {
+  block: number;
+  offset: number;
+}
+
+export interface DocSelection {
+  from: DocPosition;
+  to: DocPosition;
+}
+
+// Outermost first when marks are nested in HTML or Markdown
+const MARK_ORDER: MarkType[] = ['link', 'bold', 'italic', 'underline', 'strike', 'code'];
+
+const sameMark = (a: Mark, b: Mark) => a.type === b.type && (a.href || '') === (b.href || '');
+
+const sameMarks = (a: Mark[] = [], b: Mark[] = []) =>
+  a.length === b.length && a.every(mark => b.some(other => sameMark(mark, other)));
+
+const hasMark = (run: TextRun, type: MarkType) => !!run.marks?.some(mark => mark.type === type);
+
+export const blockText = (block: Block) => block.content.map(run => run.text).join('');
+
+/**
+ * The link target if it's safe to follow: http, https and mailto addresses, or relative ones
+ * such as "/notes" or "#top". Anything else, e.g. javascript: or data: URLs, gives null.
+ */
+export const safeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  if (!trimmed) return null;
+  // Browsers ignore whitespace and control characters inside a scheme, so "java\tscript:" counts too
+  const scheme = /^([a-z][a-z\d+.-]*):/i.exec(trimmed.replace(/[\u0000-\u0020]/g, ''))?.[1];
+  return !scheme || /^(?:https?|mailto)$/i.test(scheme) ? trimmed : null;
+};
+
+// Merge neighbouring runs with the same marks and drop empty ones. The result has no
+// undefined fields, which Firestore rejects.
+const normalizeRuns = (runs: TextRun[]): TextRun[] => {
+  const result: TextRun[] = [];
+  runs.forEach(run => {
+    if (!run.text) return;
+    const marks = run.marks && run.marks.length > 0
+      ? [...run.marks]
+        .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type))
+        .filter((mark, index, all) => all.findIndex(other => other.type === mark.type) === index)
+        .map(mark => (mark.type === 'link' ? { type: mark.type, href: mark.href || '' } : { type: mark.type }))
+      : undefined;
+    const last = result[result.length - 1];
+    if (last && sameMarks(last.marks, marks)) {
+      last.text += run.text;
+    } else {
+      result.push(marks ? { text: run.text, marks } : { text: run.text });
+    }
+  });
+  return result;
+};
+
+export const makeBlock = (
+  type: BlockType,
+  content: TextRun[],
+  attributes: { level?: number; checked?: boolean } = {}
+): Block => ({
+  type,
+  ...(type === 'heading' && { level: Math.min(Math.max(attributes.level || 1, 1), 3) as 1 | 2 | 3 }),
+  ...(type === 'checkItem' && { checked: !!attributes.checked }),
+  content: type === 'codeBlock' ? normalizeRuns([{ text: content.map(run => run.text).join('') }]) : normalizeRuns(content)
+});
+
+export const emptyDocument = (): RichTextDocument => ({ version: 1, blocks: [makeBlock('paragraph', [])] });
+
+export const isEmptyDocument = (document: RichTextDocument) =>
+  document.blocks.length === 1 && document.blocks[0].type === 'paragraph' && !blockText(document.blocks[0]);
+
+// Plain text, one line per block; used for search, AI prompts and character counts
+export const documentToText = (document: RichTextDocument) =>
+  document.blocks.map(blockText).join('\n');
+
+// ---------------------------------------------------------------------------
+// HTML
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const MARK_TAGS: Record<Exclude<MarkType, 'link'>, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code'
+};
+
+const runsToHtml = (runs: TextRun[]) => {
+  const html = runs.map(run => {
+    let result = escapeHtml(run.text).replace(/\n/g, '<br>');
+    [...(run.marks || [])].reverse().forEach(mark => {
+      if (mark.type !== 'link') {
+        result = `<${MARK_TAGS[mark.type]}>${result}</${MARK_TAGS[mark.type]}>`;
+        return;
+      }
+      // Checked again here, for documents saved before links were checked on the way in
+      const href = safeHref(mark.href || '');
+      if (href) result = `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${result}</a>`;
+    });
+    return result;
+  }).join('');
+  // Browsers collapse empty blocks and a trailing line break unless another <br> follows
+  return !html || html.endsWith('<br>') ? `${html}<br>` : html;
+};
+
+const LIST_OPENING: Partial<Record<BlockType, string>> = {
+  bulletItem: '<ul>',
+  orderedItem: '<ol>',
+  checkItem: '<ul data-type="checklist">',
+  blockquote: '<blockquote>'
+};
+
+const LIST_CLOSING: Partial<Record<BlockType, string>> = {
+  bulletItem: '</ul>',
+  orderedItem: '</ol>',
+  checkItem: '</ul>',
+  blockquote: '</blockquote>'
+};
+
+const blockToHtml = (block: Block) => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${runsToHtml(block.content)}</h${block.level}>`;
+    case 'bulletItem':
+    case 'orderedItem':
+      return `<li>${runsToHtml(block.content)}</li>`;
+    case 'checkItem':
+      return `<li data-checked="${!!block.checked}"><input type="checkbox"${block.checked ? ' checked' : ''}>${runsToHtml(block.content)}</li>`;
+    case 'codeBlock': {
+      // Same trailing <br> as runsToHtml, so an empty code block can still take the caret
+      const code = escapeHtml(blockText(block));
+      return `<pre><code>${!code || code.endsWith('\n') ? `${code}<br>` : code}</code></pre>`;
+    }
+    default:
+      return `<p>${runsToHtml(block.content)}</p>`;
+  }
+};
+
+// Consecutive list items and quote blocks share one <ul>, <ol> or <blockquote>
+export const documentToHtml = (document: RichTextDocument) =>
+  document.blocks.map((block, index) => {
+    const previous = document.blocks[index - 1];
+    const next = document.blocks[index + 1];
+    const opening = previous?.type === block.type ? '' : LIST_OPENING[block.type] || '';
+    const closing = next?.type === block.type ? '' : LIST_CLOSING[block.type] || '';
+    return opening + blockToHtml(block) + closing;
+  }).join('');
+
+// A text node or <br> read into the document, and where its text landed
+export interface DomPiece {
+  node: Node;
+  block: number;
+  start: number;
+  length: number;
+}
+
+export interface ParsedDom {
+  document: RichTextDocument;
+  pieces: DomPiece[];
+  elements: (HTMLElement | null)[];   // element each block was read from; null for loose text
+}
+
+interface ParseContext {
+  marks: Mark[];
+  implicitType: BlockType;        // type of a block started by loose text
+  container: HTMLElement | null;
+  listType: BlockType;
+  inPre: boolean;
+}
+
+const GENERIC_BLOCK_TAGS = /^(?:P|DIV|SECTION|ARTICLE|HEADER|FOOTER|MAIN|ASIDE|NAV|FIGURE|TABLE|THEAD|TBODY|TR|TD|TH|DL|DT|DD|HR)$/;
+const SKIPPED_TAGS = /^(?:SCRIPT|STYLE|TEMPLATE|HEAD|TITLE|META)$/;
+
+const inlineMarks = (element: HTMLElement, inPre: boolean): Mark[] => {
+  switch (element.tagName) {
+    case 'B':
+    case 'STRONG':
+      return [{ type: 'bold' }];
+    case 'I':
+    case 'EM':
+      return [{ type: 'italic' }];
+    case 'U':
+    case 'INS':
+      return [{ type: 'underline' }];
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      return [{ type: 'strike' }];
+    case 'CODE':
+      return inPre ? [] : [{ type: 'code' }];
+    case 'A': {
+      const href = safeHref(element.getAttribute('href') || '');
+      return href ? [{ type: 'link', href }] : [];
+    }
+    default: {
+      // Date decorations underline themselves; that's not formatting
+      if (element.classList.contains('detected-date')) return [];
+      const style = element.style;
+      const marks: Mark[] = [];
+      if (style.fontWeight === 'bold' || Number(style.fontWeight) >= 600) marks.push({ type: 'bold' });
+      if (style.fontStyle === 'italic') marks.push({ type: 'italic' });
+      if (style.textDecoration.includes('underline')) marks.push({ type: 'underline' });
+      if (style.textDecoration.includes('line-through')) marks.push({ type: 'strike' });
+      return marks;
+    }
+  }
+};
+
+/**
+ * Read a document from HTML in the DOM: the live editor, or a parsed legacy note.
+ * Unknown markup is kept as plain text, so nothing the user typed gets lost. Besides the
+ * document it returns where every character came from, for mapping the selection.
+ */
+export const readDocument = (root: Node): ParsedDom => {
+  const blocks: { type: BlockType; level?: number; checked?: boolean; runs: TextRun[]; pieces: DomPiece[] }[] = [];
+  const elements: (HTMLElement | null)[] = [];
+  const pieces: DomPiece[] = [];
+  let open = false;
+
+  const openBlock = (type: BlockType, element: HTMLElement | null, attributes: { level?: number; checked?: boolean } = {}) => {
+    closeBlock();
+    blocks.push({ type, ...attributes, runs: [], pieces: [] });
+    elements.push(element);
+    open = true;
+  };
+
+  const closeBlock = () => {
+    if (!open) return;
+    open = false;
+    const block = blocks[blocks.length - 1];
+    // A trailing <br> only keeps an empty line visible; it isn't content
+    const last = block.pieces[block.pieces.length - 1];
+    if (last && last.node.nodeName === 'BR') {
+      block.pieces.pop();
+      const run = block.runs[block.runs.length - 1];
+      run.text = run.text.slice(0, -1);
+    }
+    pieces.push(...block.pieces);
+  };
+
+  const addText = (text: string, node: Node, context: ParseContext) => {
+    if (!open) openBlock(context.implicitType, context.container);
+    const block = blocks[blocks.length - 1];
+    const start = block.runs.reduce((length, run) => length + run.text.length, 0);
+    block.runs.push({ text, marks: context.marks });
+    block.pieces.push({ node, block: blocks.length - 1, start, length: text.length });
+  };
+
+  const visitChildren = (node: Node, context: ParseContext) => {
+    node.childNodes.forEach(child => visit(child, context));
+  };
+
+  const visit = (node: Node, context: ParseContext) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      let text = (node as Text).data.replace(/\u00a0/g, ' ');
+      if (!context.inPre) {
+        // Source formatting between tags, e.g. "</p>\n  <p>"
+        if (!open && /^\s*$/.test(text) && text.includes('\n')) return;
+        text = text.replace(/[\r\n]+/g, ' ');
+      }
+      if (text) addText(text, node, context);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName;
+    if (SKIPPED_TAGS.test(tag)) return;
+
+    if (tag === 'BR') {
+      addText('\n', element, context);
+    } else if (tag === 'INPUT') {
+      if ((element as HTMLInputElement).type === 'checkbox' && open && blocks[blocks.length - 1].type === 'checkItem') {
+        blocks[blocks.length - 1].checked = (element as HTMLInputElement).checked || element.hasAttribute('checked');
+      }
+    } else if (/^H[1-6]$/.test(tag)) {
+      openBlock('heading', element, { level: Number(tag[1]) });
+      visitChildren(element, { ...context, implicitType: 'heading', container: element });
+      closeBlock();
+    } else if (tag === 'UL' || tag === 'OL') {
+      closeBlock();
+      const isChecklist = element.getAttribute('data-type') === 'checklist' ||
+        !!element.querySelector(':scope > li > input[type="checkbox"]');
+      const listType: BlockType = tag === 'OL' ? 'orderedItem' : isChecklist ? 'checkItem' : 'bulletItem';
+      visitChildren(element, { ...context, listType, implicitType: listType, container: null });
+      closeBlock();
+    } else if (tag === 'LI') {
+      openBlock(context.listType, element, { checked: element.getAttribute('data-checked') === 'true' });
+      visitChildren(element, { ...context, implicitType: context.listType, container: element });
+      closeBlock();
+    } else if (tag === 'PRE') {
+      openBlock('codeBlock', element);
+      visitChildren(element, { ...context, marks: [], implicitType: 'codeBlock', container: element, inPre: true });
+      closeBlock();
+    } else if (tag === 'BLOCKQUOTE') {
+      closeBlock();
+      visitChildren(element, { ...context, implicitType: 'blockquote', container: null });
+      closeBlock();
+    } else if (GENERIC_BLOCK_TAGS.test(tag)) {
+      closeBlock();
+      visitChildren(element, { ...context, container: element });
+      closeBlock();
+    } else {
+      visitChildren(element, { ...context, marks: [...context.marks, ...inlineMarks(element, context.inPre)] });
+    }
+  };
+
+  visitChildren(root, { marks: [], implicitType: 'paragraph', container: null, listType: 'bulletItem', inPre: false });
+  closeBlock();
+
+  if (blocks.length === 0) {
+    return { document: emptyDocument(), pieces, elements: [null] };
+  }
+  return {
+    document: {
+      version: 1,
+      blocks: blocks.map(block => makeBlock(block.type, block.runs, block))
+    },
+    pieces,
+    elements
+  };
+};
+
+/**
+ * Convert stored note HTML (from the old contentEditable editor, an import or Google)
+ * into a document. Text without any markup is read line by line.
+ */
+export const htmlToDocument = (html: string): RichTextDocument => {
+  if (!html.trim()) return emptyDocument();
+  if (!/<[a-z][\s\S]*>/i.test(html)) {
+    return { version: 1, blocks: html.split(/\r?\n/).map(line => makeBlock('paragraph', [{ text: line }])) };
+  }
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  return readDocument(body).document;
+};
+
+// ---------------------------------------------------------------------------
+// Selection mapping between the editor DOM and document positions
+
+const childIndex = (node: Node) => Array.prototype.indexOf.call(node.parentNode!.childNodes, node);
+
+const pieceStartPoint = (piece: DomPiece): [Node, number] =>
+  piece.node.nodeType === Node.TEXT_NODE ? [piece.node, 0] : [piece.node.parentNode!, childIndex(piece.node)];
+
+export const domPointToPosition = (parsed: ParsedDom, container: Node, offset: number): DocPosition => {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const piece = parsed.pieces.find(candidate => candidate.node === container);
+    if (piece) return { block: piece.block, offset: piece.start + Math.min(offset, piece.length) };
+  }
+
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const nextIndex = parsed.pieces.findIndex(piece => point.comparePoint(...pieceStartPoint(piece)) >= 0);
+  const next = nextIndex === -1 ? undefined : parsed.pieces[nextIndex];
+  const previous = parsed.pieces[(nextIndex === -1 ? parsed.pieces.length : nextIndex) - 1];
+
+  // The innermost block element around the point decides between the pieces on either side
+  const block = parsed.elements.reduce<number>((found, element, index) =>
+    element && element.contains(container) && (found === -1 || parsed.elements[found]!.contains(element)) ? index : found, -1);
+  if (block !== -1) {
+    if (next && next.block === block) return { block, offset: next.start };
+    if (previous && previous.block === block) return { block, offset: previous.start + previous.length };
+    return { block, offset: 0 };
+  }
+  if (previous) return { block: previous.block, offset: previous.start + previous.length };
+  if (next) return { block: next.block, offset: next.start };
+  return { block: 0, offset: 0 };
+};
+
+export const positionToDomPoint = (parsed: ParsedDom, position: DocPosition): { node: Node; offset: number } | null => {
+  const blockPieces = parsed.pieces.filter(piece => piece.block === position.block);
+  for (const piece of blockPieces) {
+    if (position.offset <= piece.start + piece.length) {
+      if (piece.node.nodeType === Node.TEXT_NODE) {
+        return { node: piece.node, offset: Math.max(position.offset - piece.start, 0) };
+      }
+      const index = childIndex(piece.node);
+      return { node: piece.node.parentNode!, offset: position.offset <= piece.start ? index : index + 1 };
+    }
+  }
+  const last = blockPieces[blockPieces.length - 1];
+  if (last) {
+    return last.node.nodeType === Node.TEXT_NODE
+      ? { node: last.node, offset: last.length }
+      : { node: last.node.parentNode!, offset: childIndex(last.node) + 1 };
+  }
+  const element = parsed.elements[position.block];
+  return element ? { node: element, offset: 0 } : null;
+};
+
+// ---------------------------------------------------------------------------
+// Commands. Each returns a new document and leaves the given one untouched.
+
+const comparePositions = (a: DocPosition, b: DocPosition) => a.block - b.block || a.offset - b.offset;
+
+export const isCollapsed = (selection: DocSelection) => comparePositions(selection.from, selection.to) === 0;
+
+const ordered = (selection: DocSelection): DocSelection =>
+  comparePositions(selection.from, selection.to) <= 0 ? selection : { from: selection.to, to: selection.from };
+
+// The runs of `runs` between offsets `start` and `end`, cut at those offsets
+const sliceRuns = (runs: TextRun[], start: number, end: number): TextRun[] => {
+  const result: TextRun[] = [];
+  let position = 0;
+  runs.forEach(run => {
+    const runStart = position;
+    position += run.text.length;
+    const from = Math.max(start, runStart);
+    const to = Math.min(end, position);
+    if (from < to) result.push({ ...run, text: run.text.slice(from - runStart, to - runStart) });
+  });
+  return result;
+};
+
+// Apply `change` to the selected text of every block the selection touches, skipping code blocks
+const mapSelectedRuns = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  change: (run: TextRun) => TextRun
+): RichTextDocument => {
+  const { from, to } = ordered(selection);
+  return {
+    ...document,
+    blocks: document.blocks.map((block, index) => {
+      if (index < from.block || index > to.block || block.type === 'codeBlock') return block;
+      const length = blockText(block).length;
+      const start = index === from.block ? from.offset : 0;
+      const end = index === to.block ? to.offset : length;
+      return makeBlock(block.type, [
+        ...sliceRuns(block.content, 0, start),
+        ...sliceRuns(block.content, start, end).map(change),
+        ...sliceRuns(block.content, end, length)
+      ], block);
+    })
+  };
+};
+
+const selectedRuns = (document: RichTextDocument, selection: DocSelection) => {
+  const { from, to } = ordered(selection);
+  return document.blocks.flatMap((block, index) => {
+    if (index < from.block || index > to.block || block.type === 'codeBlock') return [];
+    return sliceRuns(block.content, index === from.block ? from.offset : 0, index === to.block ? to.offset : Infinity);
+  });
+};
+
+export const selectionHasMark = (document: RichTextDocument, selection: DocSelection, type: MarkType) => {
+  const runs = selectedRuns(document, selection).filter(run => run.text.trim());
+  return runs.length > 0 && runs.every(run => hasMark(run, type));
+};
+
+// The link target under the selection, if all of it is one link
+export const selectionLink = (document: RichTextDocument, selection: DocSelection): string | null => {
+  const hrefs = new Set(selectedRuns(document, selection).map(run => run.marks?.find(mark => mark.type === 'link')?.href));
+  const [href] = [...hrefs];
+  return hrefs.size === 1 && href ? href : null;
+};
+
+const withoutMark = (run: TextRun, type: MarkType): TextRun =>
+  ({ ...run, marks: (run.marks || []).filter(mark => mark.type !== type) });
+
+// Add `type` to the selected text, or remove it when all of it has the mark already
+export const toggleMark = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  type: Exclude<MarkType, 'link'>
+): RichTextDocument => {
+  if (isCollapsed(selection)) return document;
+  const active = selectionHasMark(document, selection, type);
+  return mapSelectedRuns(document, selection, run =>
+    active ? withoutMark(run, type) : { ...run, marks: [...(run.marks || []), { type }] });
+};
+
+// Link the selected text to `href`, or unlink it when `href` is null or not safe to follow
+export const setLink = (document: RichTextDocument, selection: DocSelection, href: string | null): RichTextDocument => {
+  if (isCollapsed(selection)) return document;
+  const safe = href && safeHref(href);
+  return mapSelectedRuns(document, selection, run => {
+    const unlinked = withoutMark(run, 'link');
+    return safe ? { ...unlinked, marks: [...unlinked.marks!, { type: 'link', href: safe }] } : unlinked;
+  });
+};
+
+export const isBlockType = (block: Block, type: BlockType, level?: number) =>
+  block.type === type && (type !== 'heading' || block.level === level);
+
+// Turn the selected blocks into `type`, or back into paragraphs when they all are that type already
+export const setBlockType = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  type: BlockType,
+  level?: 1 | 2 | 3
+): RichTextDocument => {
+  const { from, to } = ordered(selection);
+  const selected = document.blocks.slice(from.block, to.block + 1);
+  const target = selected.every(block => isBlockType(block, type, level)) ? 'paragraph' : type;
+  return {
+    ...document,
+    blocks: document.blocks.map((block, index) =>
+      index < from.block || index > to.block ? block : makeBlock(target, block.content, { level, checked: block.checked }))
+  };
+};
+
+export const toggleChecked = (document: RichTextDocument, blockIndex: number): RichTextDocument => ({
+  ...document,
+  blocks: document.blocks.map((block, index) =>
+    index === blockIndex && block.type === 'checkItem' ? { ...block, checked: !block.checked } : block)
+});
+
+// The selected part of the document, or with `wholeBlocks` every block the selection touches
+export const selectedDocument = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  wholeBlocks = false
+): RichTextDocument => {
+  const { from, to } = ordered(selection);
+  return {
+    version: 1,
+    blocks: document.blocks.slice(from.block, to.block + 1).map((block, index) => {
+      if (wholeBlocks) return block;
+      const start = index === 0 ? from.offset : 0;
+      const end = from.block + index === to.block ? to.offset : Infinity;
+      return makeBlock(block.type, sliceRuns(block.content, start, end), block);
+    })
+  };
+};
+
+/**
+ * Put `fragment` in place of the selection. A single block is spliced into the text around
+ * the selection and keeps its block's type; with several, the text before and after the
+ * selection joins the first and last of them. Everything outside the selection is kept.
+ */
+export const replaceSelection = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  fragment: RichTextDocument
+): RichTextDocument => {
+  const { from, to } = ordered(selection);
+  const first = document.blocks[from.block];
+  const last = document.blocks[to.block];
+  const before = sliceRuns(first.content, 0, from.offset);
+  const after = sliceRuns(last.content, to.offset, Infinity);
+  const pieces = fragment.blocks;
+
+  const replaced = pieces.length <= 1
+    ? [makeBlock(first.type, [...before, ...(pieces[0]?.content || []), ...after], first)]
+    : pieces.map((block, index) => {
+      const content = [
+        ...(index === 0 ? before : []),
+        ...block.content,
+        ...(index === pieces.length - 1 ? after : [])
+      ];
+      // Blocks the selection starts or ends partway into stay what they were
+      if (index === 0 && before.length > 0) return makeBlock(first.type, content, first);
+      if (index === pieces.length - 1 && after.length > 0) return makeBlock(last.type, content, last);
+      return makeBlock(block.type, content, block);
+    });
+
+  return {
+    ...document,
+    blocks: [...document.blocks.slice(0, from.block), ...replaced, ...document.blocks.slice(to.block + 1)]
+  };
+};
+
+// Add `fragment`'s blocks after the block the selection ends in
+export const insertAfterSelection = (
+  document: RichTextDocument,
+  selection: DocSelection,
+  fragment: RichTextDocument
+): RichTextDocument => {
+  const { to } = ordered(selection);
+  return {
+    ...document,
+    blocks: [...document.blocks.slice(0, to.block + 1), ...fragment.blocks, ...document.blocks.slice(to.block + 1)]
+  };
+};
+
+const MARKDOWN_SHORTCUTS: { pattern: RegExp; type: BlockType; level?: 1 | 2 | 3; checked?: boolean }[] = [
+  { pattern: /^###\s/, type: 'heading', level: 3 },
+  { pattern: /^##\s/, type: 'heading', level: 2 },
+  { pattern: /^#\s/, type: 'heading', level: 1 },
+  { pattern: /^\[[xX]\]\s/, type: 'checkItem', checked: true },
+  { pattern: /^\[ ?\]\s/, type: 'checkItem' },
+  { pattern: /^[-*]\s/, type: 'bulletItem' },
+  { pattern: /^1[.)]\s/, type: 'orderedItem' },
+  { pattern: /^>\s/, type: 'blockquote' },
+  { pattern: /^```\s/, type: 'codeBlock' }
+];
+
+/**
+ * Markdown-style typing shortcuts: "# " at the start of a paragraph makes a heading,
+ * "- " a bulleted list, "1. " a numbered list, "[] " a checklist, "> " a quote and
+ * "``` " a code block. Returns null when the caret's paragraph doesn't start with one.
+ */
+export const applyMarkdownShortcut = (
+  document: RichTextDocument,
+  caret: DocPosition
+): { document: RichTextDocument; caret: DocPosition } | null => {
+  const block = document.blocks[caret.block];
+  if (!block || block.type !== 'paragraph') return null;
+  const text = blockText(block);
+  const shortcut = MARKDOWN_SHORTCUTS.find(candidate => candidate.pattern.test(text));
+  const prefix = shortcut && text.match(shortcut.pattern)![0].length;
+  if (!shortcut || !prefix || caret.offset < prefix) return null;
+
+  const content = sliceRuns(block.content, prefix, text.length);
+  return {
+    document: {
+      ...document,
+      blocks: document.blocks.map((other, index) =>
+        index === caret.block ? makeBlock(shortcut.type, content, shortcut) : other)
+    },
+    caret: { block: caret.block, offset: caret.offset - prefix }
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Markdown
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]~])/g, '\\$1');
+
+const runsToMarkdown = (runs: TextRun[]) =>
+  runs.map(run => {
+    let result = hasMark(run, 'code') ? `\`${run.text}\`` : escapeMarkdown(run.text);
+    [...(run.marks || [])].reverse().forEach(mark => {
+      switch (mark.type) {
+        case 'bold': result = `**${result}**`; break;
+        case 'italic': result = `*${result}*`; break;
+        case 'underline': result = `<u>${result}</u>`; break;
+        case 'strike': result = `~~${result}~~`; break;
+        case 'link': result = `[${result}](${mark.href})`; break;
+      }
+    });
+    return result;
+  }).join('').replace(/\n/g, '  \n');
+
+export const documentToMarkdown = (document: RichTextDocument) => {
+  let number = 0;
+  return document.blocks.map((block, index) => {
+    const previous = document.blocks[index - 1];
+    number = block.type === 'orderedItem' && previous?.type === 'orderedItem' ? number + 1 : 1;
+    // List items and quote lines that follow one of their kind stay on the next line
+    const separator = index === 0 ? '' : previous.type === block.type && block.type in LIST_OPENING ? '\n' : '\n\n';
+    const text = runsToMarkdown(block.content);
+    switch (block.type) {
+      case 'heading': return `${separator}${'#'.repeat(block.level || 1)} ${text}`;
+      case 'bulletItem': return `${separator}- ${text}`;
+      case 'orderedItem': return `${separator}${number}. ${text}`;
+      case 'checkItem': return `${separator}- [${block.checked ? 'x' : ' '}] ${text}`;
+      case 'blockquote': return `${separator}> ${text}`;
+      case 'codeBlock': return `${separator}\`\`\`\n${blockText(block)}\n\`\`\``;
+      default: return `${separator}${text}`;
+    }
+  }).join('');
+};
+
+// `code`, **bold**, __bold__, ~~strike~~, <u>underline</u>, [link](url), *italic*, _italic_
+const INLINE_MARKDOWN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|<u>(.+?)<\/u>|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)/;
+
+const parseInlineMarkdown = (text: string, marks: Mark[] = []): TextRun[] => {
+  const runs: TextRun[] = [];
+  let rest = text;
+  for (let match = rest.match(INLINE_MARKDOWN); match; match = rest.match(INLINE_MARKDOWN)) {
+    const plain = rest.slice(0, match.index);
+    if (plain) runs.push({ text: plain.replace(/\\([\\`*_[\]~])/g, '$1'), marks });
+    const [, code, bold, boldUnderscore, strike, underline, linkText, href, italic, italicUnderscore] = match;
+    if (code !== undefined) runs.push({ text: code, marks: [...marks, { type: 'code' }] });
+    else if (bold !== undefined || boldUnderscore !== undefined) runs.push(...parseInlineMarkdown(bold ?? boldUnderscore, [...marks, { type: 'bold' }]));
+    else if (strike !== undefined) runs.push(...parseInlineMarkdown(strike, [...marks, { type: 'strike' }]));
+    else if (underline !== undefined) runs.push(...parseInlineMarkdown(underline, [...marks, { type: 'underline' }]));
+    else if (linkText !== undefined) {
+      const safe = safeHref(href);
+      runs.push(...parseInlineMarkdown(linkText, safe ? [...marks, { type: 'link', href: safe }] : marks));
+    }
+    else runs.push(...parseInlineMarkdown(italic ?? italicUnderscore, [...marks, { type: 'italic' }]));
+    rest = rest.slice(match.index! + match[0].length);
+  }
+  if (rest) runs.push({ text: rest.replace(/\\([\\`*_[\]~])/g, '$1'), marks });
+  return runs;
+};
+
+/**
+ * Read Markdown, e.g. an AI response, into a document. Covers what documentToMarkdown
+ * writes: headings, lists, checklists, quotes, fenced code and inline marks. Lines of
+ * a paragraph keep their line breaks.
+ */
+export const markdownToDocument = (markdown: string): RichTextDocument => {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(makeBlock('paragraph', parseInlineMarkdown(paragraph.join('\n').replace(/ {2,}\n/g, '\n'))));
+    }
+    paragraph = [];
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    let match: RegExpMatchArray | null;
+    if (/^\s*```/.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      for (index++; index < lines.length && !/^\s*```/.test(lines[index]); index++) code.push(lines[index]);
+      blocks.push(makeBlock('codeBlock', [{ text: code.join('\n') }]));
+    } else if ((match = line.match(/^(#{1,6})\s+(.*)$/))) {
+      flushParagraph();
+      blocks.push(makeBlock('heading', parseInlineMarkdown(match[2]), { level: match[1].length }));
+    } else if ((match = line.match(/^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/))) {
+      flushParagraph();
+      blocks.push(makeBlock('checkItem', parseInlineMarkdown(match[2]), { checked: match[1] !== ' ' }));
+    } else if ((match = line.match(/^\s*[-*+]\s+(.*)$/))) {
+      flushParagraph();
+      blocks.push(makeBlock('bulletItem', parseInlineMarkdown(match[1])));
+    } else if ((match = line.match(/^\s*\d+[.)]\s+(.*)$/))) {
+      flushParagraph();
+      blocks.push(makeBlock('orderedItem', parseInlineMarkdown(match[1])));
+    } else if ((match = line.match(/^>\s?(.*)$/))) {
+      flushParagraph();
+      blocks.push(makeBlock('blockquote', parseInlineMarkdown(match[1])));
+    } else if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return blocks.length > 0 ? { version: 1, blocks } : emptyDocument();
+};
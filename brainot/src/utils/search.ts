@@ -0,0 +1,129 @@
+import { addYears } from 'date-fns';
+import { MyEvent } from '../types';
+import { htmlToText } from './html';
+import { expandOccurrences } from './recurrence';
+
+export interface SearchFilters {
+  type: 'all' | 'event' | 'note';
+  priority: 'all' | 'low' | 'medium' | 'high';   // only applies to events
+  from?: Date;
+  to?: Date;
+}
+
+// A piece of text, marked when it matches one of the search terms
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  item: MyEvent;
+  title: TextSegment[];
+  snippet: TextSegment[];   // empty when only the title matched
+}
+
+// An event or note with its content stripped to text once, so searching doesn't re-parse HTML
+export interface SearchEntry {
+  item: MyEvent;
+  title: string;
+  text: string;
+}
+
+const SNIPPET_CONTEXT = 40; // characters shown on each side of the first match
+
+export const buildSearchIndex = (items: MyEvent[]): SearchEntry[] =>
+  items.map(item => ({
+    item,
+    title: item.title,
+    text: htmlToText(item.resource?.content || '').replace(/\s+/g, ' ')
+  }));
+
+const searchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+
+// Split `text` into matching and non-matching segments, merging overlapping matches
+export const highlightTerms = (text: string, terms: string[]): TextSegment[] => {
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const segments: TextSegment[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (end <= position) continue;
+    const from = Math.max(start, position);
+    if (from > position) segments.push({ text: text.slice(position, from), match: false });
+    segments.push({ text: text.slice(from, end), match: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+};
+
+// A short excerpt of `text` around the earliest match
+const snippetFor = (text: string, terms: string[]): TextSegment[] => {
+  const lower = text.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+  if (positions.length === 0) return [];
+
+  const first = Math.min(...positions);
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+  return highlightTerms(excerpt, terms);
+};
+
+const matchesFilters = ({ item }: SearchEntry, filters: SearchFilters) => {
+  const isNote = !!item.resource?.isNote;
+  if (filters.type === 'event' && isNote) return false;
+  if (filters.type === 'note' && !isNote) return false;
+  if (filters.priority !== 'all' && (isNote || (item.resource?.priority || 'medium') !== filters.priority)) return false;
+  if (item.resource?.recurrence && (filters.from || filters.to)) {
+    // A series matches when any of its occurrences falls in the range
+    const from = filters.from || item.start;
+    return expandOccurrences(item, from, filters.to || addYears(from, 10)).length > 0;
+  }
+  if (filters.from && item.end < filters.from) return false;
+  if (filters.to && item.start > filters.to) return false;
+  return true;
+};
+
+/**
+ * Find events and notes whose title or content contains every word of `query`
+ * (case-insensitive). Title matches come first, then the most recent items.
+ */
+export const searchEntries = (
+  entries: SearchEntry[],
+  query: string,
+  filters: SearchFilters,
+  limit = 50
+): SearchResult[] => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  return entries
+    .map(entry => {
+      const title = entry.title.toLowerCase();
+      const text = entry.text.toLowerCase();
+      if (!terms.every(term => title.includes(term) || text.includes(term))) return null;
+      return { entry, titleMatch: terms.some(term => title.includes(term)) };
+    })
+    .filter((match): match is { entry: SearchEntry; titleMatch: boolean } => match !== null)
+    // Filters after matching, since expanding recurring events for the date range is slower
+    .filter(({ entry }) => matchesFilters(entry, filters))
+    .sort((a, b) =>
+      Number(b.titleMatch) - Number(a.titleMatch) ||
+      b.entry.item.start.getTime() - a.entry.item.start.getTime()
+    )
+    .slice(0, limit)
+    .map(({ entry }) => ({
+      item: entry.item,
+      title: highlightTerms(entry.title, terms),
+      snippet: snippetFor(entry.text, terms)
+    }));
+};
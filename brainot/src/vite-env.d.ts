@@ -1,13 +1,16 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string
+  readonly VITE_AI_PROXY_URL?: string
+  readonly VITE_FEED_PROXY_URL?: string
   readonly VITE_FIREBASE_API_KEY: string
   readonly VITE_FIREBASE_AUTH_DOMAIN: string
   readonly VITE_FIREBASE_PROJECT_ID: string
   readonly VITE_FIREBASE_STORAGE_BUCKET: string
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string
   readonly VITE_FIREBASE_APP_ID: string
+  readonly VITE_GOOGLE_CLIENT_ID?: string
+  readonly VITE_GOOGLE_TOKEN_URL?: string
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
 }